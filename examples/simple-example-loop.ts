@@ -27,9 +27,15 @@ async function makeAnotherRequest(requestId: string, userId: string) {
 
 // Function to run main every 30 seconds
 async function runLoop() {
+  let iteration = 0;
   while (true) {
+    iteration++;
     try {
-      await main();
+      // Wrap each iteration in its own span so every run shows up as a separate trace
+      await traceroot.withSpan('loopIteration', async span => {
+        span.setAttribute('iteration', iteration);
+        await main();
+      });
     } catch (error) {
       logger.error('Error in main function:', error);
     }
@@ -0,0 +1,327 @@
+/**
+ * On-disk credential cache
+ *
+ * With `credential_cache: true`, credentials fetched during initialization are stored in
+ * `credential_cache_dir` (default ~/.cache/traceroot) and reused by later processes until
+ * they are due for a refresh. Entries are encrypted with a key derived from the token and
+ * stored in a file named after a hash of it, so only processes with the token can read them.
+ * A lock file makes concurrent processes wait for the one fetching instead of all calling the API.
+ */
+
+import { TraceRootConfigImpl } from '../config';
+import { CREDENTIAL_CACHE_CONFIG, CREDENTIAL_REFRESH_CONFIG } from '../constants';
+import { AwsCredentials } from '../types';
+
+const CACHE_FORMAT_VERSION = 1;
+
+interface CachePaths {
+  dir: string;
+  file: string;
+  lock: string;
+}
+
+/**
+ * Get credentials from the cache, or fetch and cache them when the cache has no valid entry.
+ * Falls back to fetching without the cache when it is disabled or can't be used.
+ *
+ * @param fetchCredentials Fetches credentials when they are not cached
+ */
+export function getCredentialsWithCacheSync(
+  config: TraceRootConfigImpl,
+  fetchCredentials: () => AwsCredentials | null
+): AwsCredentials | null {
+  const paths = openCache(config);
+  if (!paths || !config.token) {
+    return fetchCredentials();
+  }
+
+  const cached = readCacheEntry(paths.file, config.token);
+  if (cached) {
+    logVerbose(config, 'Using cached credentials');
+    return cached;
+  }
+
+  const deadline = Date.now() + CREDENTIAL_CACHE_CONFIG.LOCK_WAIT_MS;
+  for (;;) {
+    const locked = tryLock(paths.lock);
+    if (locked === null) {
+      return fetchCredentials();
+    }
+    if (locked) {
+      break;
+    }
+    // Another process is fetching: reuse the credentials it stores
+    sleepSync(CREDENTIAL_CACHE_CONFIG.LOCK_POLL_INTERVAL_MS);
+    const stored = readCacheEntry(paths.file, config.token);
+    if (stored) {
+      logVerbose(config, 'Using credentials cached by another process');
+      return stored;
+    }
+    if (Date.now() > deadline) {
+      logVerbose(config, 'Timed out waiting for the credential cache lock');
+      return fetchCredentials();
+    }
+  }
+
+  try {
+    // Stored by another process between the first read and taking the lock
+    const stored = readCacheEntry(paths.file, config.token);
+    if (stored) {
+      return stored;
+    }
+    const credentials = fetchCredentials();
+    if (credentials) {
+      writeCacheEntry(paths, config.token, credentials);
+    }
+    return credentials;
+  } finally {
+    releaseLock(paths.lock);
+  }
+}
+
+/**
+ * Asynchronous getCredentialsWithCacheSync(), for initAsync(): waits for the lock without
+ * blocking the thread
+ *
+ * @param fetchCredentials Fetches credentials when they are not cached
+ */
+export async function getCredentialsWithCache(
+  config: TraceRootConfigImpl,
+  fetchCredentials: () => Promise<AwsCredentials | null>
+): Promise<AwsCredentials | null> {
+  const paths = openCache(config);
+  if (!paths || !config.token) {
+    return fetchCredentials();
+  }
+
+  const cached = readCacheEntry(paths.file, config.token);
+  if (cached) {
+    logVerbose(config, 'Using cached credentials');
+    return cached;
+  }
+
+  const deadline = Date.now() + CREDENTIAL_CACHE_CONFIG.LOCK_WAIT_MS;
+  for (;;) {
+    const locked = tryLock(paths.lock);
+    if (locked === null) {
+      return fetchCredentials();
+    }
+    if (locked) {
+      break;
+    }
+    // Another process is fetching: reuse the credentials it stores
+    await new Promise(resolve =>
+      setTimeout(resolve, CREDENTIAL_CACHE_CONFIG.LOCK_POLL_INTERVAL_MS)
+    );
+    const stored = readCacheEntry(paths.file, config.token);
+    if (stored) {
+      logVerbose(config, 'Using credentials cached by another process');
+      return stored;
+    }
+    if (Date.now() > deadline) {
+      logVerbose(config, 'Timed out waiting for the credential cache lock');
+      return fetchCredentials();
+    }
+  }
+
+  try {
+    // Stored by another process between the first read and taking the lock
+    const stored = readCacheEntry(paths.file, config.token);
+    if (stored) {
+      return stored;
+    }
+    const credentials = await fetchCredentials();
+    if (credentials) {
+      writeCacheEntry(paths, config.token, credentials);
+    }
+    return credentials;
+  } finally {
+    releaseLock(paths.lock);
+  }
+}
+
+/**
+ * Store credentials in the cache, e.g. after a background refresh. No-op when the cache is
+ * disabled; failures are reported and ignored.
+ */
+export function storeCachedCredentials(
+  config: TraceRootConfigImpl,
+  credentials: AwsCredentials
+): void {
+  if (!config.credential_cache || !config.token) {
+    return;
+  }
+  try {
+    const paths = getCachePaths(config);
+    require('fs').mkdirSync(paths.dir, { recursive: true, mode: 0o700 });
+    writeCacheEntry(paths, config.token, credentials);
+  } catch (error: any) {
+    console.warn('[TraceRoot] Failed to write credential cache:', error?.message || error);
+  }
+}
+
+/**
+ * Get the cache paths, creating the cache directory
+ *
+ * @returns The paths, or null when the cache is disabled or can't be used
+ */
+function openCache(config: TraceRootConfigImpl): CachePaths | null {
+  if (!config.credential_cache || !config.token) {
+    return null;
+  }
+  try {
+    const paths = getCachePaths(config);
+    require('fs').mkdirSync(paths.dir, { recursive: true, mode: 0o700 });
+    return paths;
+  } catch (error: any) {
+    console.warn('[TraceRoot] Credential cache unavailable:', error?.message || error);
+    return null;
+  }
+}
+
+function getCachePaths(config: TraceRootConfigImpl): CachePaths {
+  const path = require('path');
+  const dir =
+    config.credential_cache_dir || path.join(require('os').homedir(), CREDENTIAL_CACHE_CONFIG.DIR);
+  const name = hashToken('file', config.token!).toString('hex').slice(0, 32);
+  return {
+    dir,
+    file: path.join(dir, `credentials-${name}.json`),
+    lock: path.join(dir, `credentials-${name}.lock`),
+  };
+}
+
+/**
+ * Separate hashes for the file name and the encryption key, so the file name reveals nothing
+ * about the key
+ */
+function hashToken(purpose: 'file' | 'key', token: string): Buffer {
+  return require('crypto')
+    .createHash('sha256')
+    .update(`traceroot-credential-cache-${purpose}:${token}`)
+    .digest();
+}
+
+/**
+ * Read a cache entry
+ *
+ * @returns The cached credentials, or null when there is no entry, it can't be decrypted or
+ * the credentials are due for a refresh
+ */
+function readCacheEntry(file: string, token: string): AwsCredentials | null {
+  try {
+    const fs = require('fs');
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+    const entry = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (entry.version !== CACHE_FORMAT_VERSION) {
+      return null;
+    }
+
+    const decipher = require('crypto').createDecipheriv(
+      'aes-256-gcm',
+      hashToken('key', token),
+      Buffer.from(entry.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(entry.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+
+    const credentials = JSON.parse(plaintext) as AwsCredentials;
+    credentials.expiration_utc = new Date(credentials.expiration_utc);
+    const remaining = credentials.expiration_utc.getTime() - Date.now();
+    // Credentials the background refresh would replace right away are not worth reusing
+    if (!(remaining > CREDENTIAL_REFRESH_CONFIG.REFRESH_BEFORE_EXPIRY_MS)) {
+      return null;
+    }
+    return credentials;
+  } catch {
+    // Corrupted, truncated or written for another token: fetch new credentials
+    return null;
+  }
+}
+
+/**
+ * Write a cache entry, replacing the file atomically so readers never see a partial entry
+ */
+function writeCacheEntry(paths: CachePaths, token: string, credentials: AwsCredentials): void {
+  const fs = require('fs');
+  const crypto = require('crypto');
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', hashToken('key', token), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf8'), cipher.final()]);
+  const entry = {
+    version: CACHE_FORMAT_VERSION,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+
+  const tempFile = `${paths.file}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tempFile, JSON.stringify(entry), { mode: 0o600 });
+    fs.renameSync(tempFile, paths.file);
+  } catch (error: any) {
+    fs.rmSync(tempFile, { force: true });
+    console.warn('[TraceRoot] Failed to write credential cache:', error?.message || error);
+  }
+}
+
+/**
+ * Create the lock file, removing it first if it was left behind by a process that died
+ *
+ * @returns Whether the lock was taken, or null when the lock file can't be created
+ */
+function tryLock(lock: string): boolean | null {
+  const fs = require('fs');
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      fs.writeFileSync(lock, String(process.pid), { flag: 'wx', mode: 0o600 });
+      return true;
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') {
+        console.warn('[TraceRoot] Failed to lock credential cache:', error?.message || error);
+        return null;
+      }
+      if (!isStaleLock(lock)) {
+        return false;
+      }
+      fs.rmSync(lock, { force: true });
+    }
+  }
+  return false;
+}
+
+function isStaleLock(lock: string): boolean {
+  try {
+    const age = Date.now() - require('fs').statSync(lock).mtimeMs;
+    return age > CREDENTIAL_CACHE_CONFIG.LOCK_STALE_MS;
+  } catch {
+    // Released in the meantime
+    return true;
+  }
+}
+
+function releaseLock(lock: string): void {
+  try {
+    require('fs').rmSync(lock, { force: true });
+  } catch {
+    // The lock goes stale and is removed by the next process
+  }
+}
+
+/**
+ * Block the thread; credentials are fetched synchronously during initialization
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function logVerbose(config: TraceRootConfigImpl, message: string): void {
+  if (config.tracer_verbose) {
+    console.log(`[TraceRoot] ${message}`);
+  }
+}
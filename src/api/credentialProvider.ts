@@ -0,0 +1,224 @@
+/**
+ * Credential providers
+ *
+ * AWS credentials for cloud export are resolved through a chain of providers: the ones
+ * registered with registerCredentialProvider(), in registration order, then the default
+ * provider fetching them from the TraceRoot API. The first provider returning credentials wins;
+ * registered providers that fail are reported and skipped.
+ */
+
+import { TraceRootConfigImpl } from '../config';
+import { AwsCredentials, CredentialProvider } from '../types';
+import { createHttpAgent, getJson, getNetworkConfig } from '../utils/network';
+
+export const REQUEST_TIMEOUT_MS = 5000;
+
+// Run by the synchronous fetch in a child Node.js process
+const SYNC_FETCH_MODULE = require.resolve('./syncFetch');
+
+let _providers: CredentialProvider[] = [];
+
+/**
+ * Get the TraceRoot API base URL - can be overridden via environment variable
+ */
+export function getTraceRootApiBaseUrl(): string {
+  return process.env.TRACEROOT_API_BASE_URL || 'https://api.prod1.traceroot.ai';
+}
+
+/**
+ * Parse `expiration_utc` of credentials returned by the API as a UTC date
+ */
+function normalizeCredentials(credentials: any): AwsCredentials {
+  if (credentials?.expiration_utc && !(credentials.expiration_utc instanceof Date)) {
+    // Force UTC parsing by ensuring the string has 'Z' suffix
+    const expiration = credentials.expiration_utc;
+    const utcString =
+      typeof expiration === 'string' && !expiration.endsWith('Z') ? expiration + 'Z' : expiration;
+    credentials.expiration_utc = new Date(utcString);
+  }
+  return credentials;
+}
+
+/**
+ * Default provider fetching credentials for the configured token from the TraceRoot API
+ */
+export class HttpCredentialProvider implements CredentialProvider {
+  readonly name = 'traceroot-api';
+
+  async getCredentials(config: TraceRootConfigImpl): Promise<AwsCredentials | null> {
+    if (!config.token) {
+      return null;
+    }
+
+    const url = this.getUrl(config.token);
+    // fetch() can't use an agent, so requests through a proxy or with custom TLS settings use
+    // the http(s) modules
+    const agent = createHttpAgent(url, config);
+    if (agent) {
+      try {
+        return normalizeCredentials(await getJson(url, agent, REQUEST_TIMEOUT_MS));
+      } finally {
+        agent.destroy();
+      }
+    }
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return normalizeCredentials(await response.json());
+  }
+
+  /**
+   * Credentials are needed to set up the exporters during synchronous initialization, so the
+   * request runs in a child Node.js process that initialization waits for
+   */
+  getCredentialsSync(config: TraceRootConfigImpl): AwsCredentials | null {
+    if (!config.token) {
+      return null;
+    }
+
+    let body: string;
+    try {
+      const { execFileSync } = require('child_process');
+      const url = this.getUrl(config.token);
+      const networkConfig = JSON.stringify(getNetworkConfig(config));
+      body = execFileSync(process.execPath, [SYNC_FETCH_MODULE, url, networkConfig], {
+        timeout: REQUEST_TIMEOUT_MS * 2,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+      });
+    } catch {
+      // Request failed, timed out or returned an error status
+      return null;
+    }
+
+    try {
+      return normalizeCredentials(JSON.parse(body));
+    } catch {
+      return null;
+    }
+  }
+
+  private getUrl(token: string): string {
+    return `${getTraceRootApiBaseUrl()}/v1/verify/credentials?token=${encodeURIComponent(token)}`;
+  }
+}
+
+/**
+ * Provider returning fixed credentials, e.g. for tests or pre-provisioned keys
+ */
+export class StaticCredentialProvider implements CredentialProvider {
+  readonly name = 'static';
+
+  constructor(private readonly credentials: AwsCredentials) {}
+
+  async getCredentials(): Promise<AwsCredentials | null> {
+    return this.credentials;
+  }
+
+  getCredentialsSync(): AwsCredentials | null {
+    return this.credentials;
+  }
+}
+
+const _defaultProvider = new HttpCredentialProvider();
+
+/**
+ * Register a provider tried before the default TraceRoot API provider. Register providers
+ * before init() for them to be used for the initial credentials.
+ */
+export function registerCredentialProvider(provider: CredentialProvider): void {
+  if (!provider || typeof provider.getCredentials !== 'function') {
+    throw new Error('Invalid credential provider: expected an object with getCredentials()');
+  }
+  if (!_providers.includes(provider)) {
+    _providers.push(provider);
+  }
+}
+
+/**
+ * Remove all registered providers, leaving only the default TraceRoot API provider
+ */
+export function resetCredentialProviders(): void {
+  _providers = [];
+}
+
+/**
+ * Resolve credentials through the provider chain
+ *
+ * @returns Credentials of the first provider returning some, or null
+ * @throws When no provider returned credentials and one of them failed, so that the failure is
+ * retried
+ */
+export async function resolveCredentials(
+  config: TraceRootConfigImpl
+): Promise<AwsCredentials | null> {
+  let failure: unknown = null;
+  for (const provider of _providers) {
+    try {
+      const credentials = await provider.getCredentials(config);
+      if (credentials) {
+        return credentials;
+      }
+    } catch (error) {
+      reportProviderFailure(provider, error);
+      failure ??= error;
+    }
+  }
+  const credentials = await _defaultProvider.getCredentials(config);
+  if (!credentials && failure) {
+    throw failure;
+  }
+  return credentials;
+}
+
+/**
+ * Resolve credentials synchronously through the providers that support it
+ *
+ * @returns Credentials of the first provider returning some, or null
+ * @throws When no provider returned credentials and one of them failed
+ */
+export function resolveCredentialsSync(config: TraceRootConfigImpl): AwsCredentials | null {
+  let failure: unknown = null;
+  for (const provider of _providers) {
+    if (typeof provider.getCredentialsSync !== 'function') {
+      if (config.tracer_verbose) {
+        console.log(
+          `[TraceRoot] Skipping credential provider ${provider.name}: no getCredentialsSync()`
+        );
+      }
+      continue;
+    }
+    try {
+      const credentials = provider.getCredentialsSync(config);
+      if (credentials) {
+        return credentials;
+      }
+    } catch (error) {
+      reportProviderFailure(provider, error);
+      failure ??= error;
+    }
+  }
+  const credentials = _defaultProvider.getCredentialsSync(config);
+  if (!credentials && failure) {
+    throw failure;
+  }
+  return credentials;
+}
+
+/**
+ * Report a registered provider that failed before trying the next one
+ */
+function reportProviderFailure(provider: CredentialProvider, error: unknown): void {
+  console.error(
+    `[TraceRoot] Credential provider ${provider.name} failed, trying the next one:`,
+    (error as any)?.message || error
+  );
+}
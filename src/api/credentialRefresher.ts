@@ -0,0 +1,118 @@
+/**
+ * Background credential refresh
+ *
+ * Once started, credentials are refreshed shortly before they expire instead of waiting for a
+ * log call to notice, so span export keeps working too. Failed refreshes are retried with
+ * exponential backoff and full jitter.
+ */
+
+import { CREDENTIAL_REFRESH_CONFIG } from '../constants';
+import { AwsCredentials } from '../types';
+
+// Longest delay setTimeout supports
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+let _refresh: (() => Promise<unknown>) | null = null;
+let _timer: NodeJS.Timeout | null = null;
+let _failedAttempts = 0;
+
+/**
+ * Start refreshing in the background
+ *
+ * @param refresh Refreshes the credentials and reports the outcome with
+ * scheduleCredentialRefresh() or scheduleCredentialRetry()
+ * @param credentials Current credentials, refreshed before they expire. Without credentials,
+ * e.g. when the initial fetch failed, they are fetched right away and retried with backoff.
+ */
+export function startCredentialRefresher(
+  refresh: () => Promise<unknown>,
+  credentials: AwsCredentials | null | undefined
+): void {
+  stopCredentialRefresher();
+  _refresh = refresh;
+  if (credentials) {
+    scheduleCredentialRefresh(credentials);
+  } else {
+    scheduleCredentialRetry();
+  }
+}
+
+/**
+ * Whether credentials are being refreshed in the background
+ */
+export function isCredentialRefresherRunning(): boolean {
+  return _refresh !== null;
+}
+
+/**
+ * Stop refreshing in the background, cancelling a scheduled refresh
+ */
+export function stopCredentialRefresher(): void {
+  _refresh = null;
+  _failedAttempts = 0;
+  if (_timer) {
+    clearTimeout(_timer);
+    _timer = null;
+  }
+}
+
+/**
+ * Schedule the refresh of new credentials before they expire. Does nothing unless started,
+ * or when the credentials have no expiration.
+ */
+export function scheduleCredentialRefresh(credentials: AwsCredentials | null | undefined): void {
+  _failedAttempts = 0;
+  const expiration = credentials?.expiration_utc;
+  if (!_refresh || !(expiration instanceof Date) || isNaN(expiration.getTime())) {
+    return;
+  }
+  const delay = Math.max(
+    expiration.getTime() - Date.now() - CREDENTIAL_REFRESH_CONFIG.REFRESH_BEFORE_EXPIRY_MS,
+    CREDENTIAL_REFRESH_CONFIG.MIN_REFRESH_INTERVAL_MS
+  );
+  schedule(delay);
+}
+
+/**
+ * Schedule another attempt after a failed refresh
+ *
+ * @returns Attempt number and delay before the next attempt; no attempt is scheduled
+ * unless started
+ */
+export function scheduleCredentialRetry(): { attempt: number; retryInMs: number } {
+  _failedAttempts++;
+  const retryInMs = getRetryDelay(_failedAttempts);
+  if (_refresh) {
+    schedule(retryInMs);
+  }
+  return { attempt: _failedAttempts, retryInMs };
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay of up to
+ * RETRY_BASE_DELAY_MS * 2^(attempt - 1), capped at RETRY_MAX_DELAY_MS
+ */
+export function getRetryDelay(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(
+    CREDENTIAL_REFRESH_CONFIG.RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0),
+    CREDENTIAL_REFRESH_CONFIG.RETRY_MAX_DELAY_MS
+  );
+  return Math.round(random() * ceiling);
+}
+
+function schedule(delay: number): void {
+  if (_timer) {
+    clearTimeout(_timer);
+  }
+  _timer = setTimeout(
+    () => {
+      _timer = null;
+      _refresh?.().catch(() => {
+        // Failures are reported by the refresh function
+      });
+    },
+    Math.min(delay, MAX_TIMER_DELAY_MS)
+  );
+  // Don't keep the process alive just to refresh credentials
+  _timer.unref();
+}
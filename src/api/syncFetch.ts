@@ -0,0 +1,28 @@
+/**
+ * Credential request of HttpCredentialProvider.getCredentialsSync()
+ *
+ * Run in a child Node.js process that the synchronous initialization waits for:
+ * `node syncFetch.js <url> <network config JSON>`. The URL and the network options are passed as
+ * arguments instead of being built into a shell command. The response body is written to stdout;
+ * the process exits with 1 when the request fails or returns an error status.
+ */
+
+import { createHttpAgent, getJson, NetworkConfig } from '../utils/network';
+import { REQUEST_TIMEOUT_MS } from './credentialProvider';
+
+async function main(): Promise<void> {
+  const [url, networkConfig] = process.argv.slice(2);
+  const agent = createHttpAgent(url, JSON.parse(networkConfig || '{}') as NetworkConfig);
+  try {
+    const body = await getJson(url, agent ?? false, REQUEST_TIMEOUT_MS);
+    process.stdout.write(JSON.stringify(body));
+  } finally {
+    agent?.destroy();
+  }
+}
+
+if (require.main === module) {
+  main().catch(() => {
+    process.exitCode = 1;
+  });
+}
@@ -3,8 +3,13 @@
  * Similar to how Sentry can auto-initialize from configuration
  */
 
+import type { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { TraceRootConfigFile, TraceRootConfigImpl } from './config';
 import { findAndLoadConfigSync } from './utils/config';
 
+// Settles once the integrations and init hook of the last initialization have finished
+let _ready: Promise<void> = Promise.resolve();
+
 /**
  * Automatically initialize TraceRoot if a configuration file is found
  * and autoInit is enabled (default: true) - synchronous version
@@ -18,9 +23,18 @@ export function autoInitialize(): boolean {
       // Load default configuration from environment variables
       const { loadConfigFromEnv } = require('./utils/configLoader');
       const defaultConfig = loadConfigFromEnv();
+      const {
+        reportConfigDiagnostics,
+        validateEnvironmentVariables,
+      } = require('./utils/configValidator');
+      reportConfigDiagnostics(
+        validateEnvironmentVariables(),
+        defaultConfig.strict_config,
+        'environment variables'
+      );
 
       const { _initializeTracing, getConfig } = require('./tracer');
-      const { setGlobalConfig } = require('./logger');
+      const { setGlobalConfig, startBackgroundCredentialRefresh } = require('./logger');
 
       // Initialize tracer with default config from environment variables
       _initializeTracing(defaultConfig);
@@ -29,6 +43,7 @@ export function autoInitialize(): boolean {
       const configInstance = getConfig();
       if (configInstance) {
         setGlobalConfig(configInstance);
+        startBackgroundCredentialRefresh();
       }
       return true;
     }
@@ -40,27 +55,87 @@ export function autoInitialize(): boolean {
 
     if (shouldAutoInit) {
       const { _initializeTracing, getConfig } = require('./tracer');
-      const { setGlobalConfig } = require('./logger');
+      const { setGlobalConfig, startBackgroundCredentialRefresh } = require('./logger');
+
+      // Copy the file options before initialization fills in defaults
+      const fileConfig = { ...configResult.config };
+
+      // Register credential providers before the initial credentials are fetched
+      if (configFile?.credential_providers) {
+        const { registerCredentialProvider } = require('./api/credentialProvider');
+        configFile.credential_providers.forEach(registerCredentialProvider);
+      }
 
       // Initialize tracer
-      _initializeTracing(configResult.config);
+      const tracerProvider = _initializeTracing(configResult.config);
 
       // Initialize logger after tracer to avoid circular dependency
       const configInstance = getConfig();
       if (configInstance) {
         setGlobalConfig(configInstance);
+        startBackgroundCredentialRefresh();
+        finishInitialization(configInstance, tracerProvider, configFile || {});
+      }
+
+      // Apply changes to the config file without restarting
+      if (configFile?.watch) {
+        const { watchConfigFile } = require('./utils/configWatcher');
+        watchConfigFile(configResult.configPath, fileConfig);
       }
       return true;
     }
 
     return false;
-  } catch (_error) {
-    void _error;
-    // Auto-initialization failed
+  } catch (error: any) {
+    // Auto-initialization failed, e.g. invalid configuration with strict_config enabled
+    console.error('[TraceRoot] Auto-initialization failed:', error?.message || error);
     return false;
   }
 }
 
+/**
+ * Wait for the integrations and `init` hook of the last initialization to finish
+ *
+ * @returns Promise resolved once async setups and the init hook have finished; never rejects,
+ * failures are reported as errors
+ */
+export function ready(): Promise<void> {
+  return _ready;
+}
+
+/**
+ * Set up integrations and run the `init` hook once the tracer and logger are set up
+ *
+ * @returns Promise resolved once async setups and the init hook have finished; never rejects
+ */
+export function finishInitialization(
+  config: TraceRootConfigImpl,
+  tracerProvider: NodeTracerProvider,
+  options: Pick<TraceRootConfigFile, 'init' | 'integrations'>
+): Promise<void> {
+  const { setupIntegrations } = require('./integrations');
+  const { getLogger } = require('./logger');
+  const integrationsReady: Promise<void> = setupIntegrations(options.integrations, config, {
+    tracerProvider,
+    getLogger,
+  });
+
+  const reportFailure = (error: any) => {
+    console.error('[TraceRoot] Config init hook failed:', error?.message || error);
+  };
+  let hookReady: Promise<void> = Promise.resolve();
+  if (typeof options.init === 'function') {
+    try {
+      hookReady = Promise.resolve(options.init(config)).catch(reportFailure);
+    } catch (error: any) {
+      reportFailure(error);
+    }
+  }
+
+  _ready = Promise.all([integrationsReady, hookReady]).then(() => {});
+  return _ready;
+}
+
 /**
  * Check if TraceRoot should auto-initialize based on environment variables
  */
@@ -0,0 +1,373 @@
+#!/usr/bin/env node
+/**
+ * TraceRoot command line tool
+ *
+ * - `traceroot config check` prints the resolved configuration, where each value came from
+ *   and any configuration problems
+ * - `traceroot credentials verify` fetches AWS credentials with the configured token
+ * - `traceroot traces tail` prints the traces recorded by the file span exporter
+ */
+
+import { parseArgs } from 'util';
+import { TraceRootConfig, TraceRootConfigFile, TraceRootConfigImpl } from './config';
+import { fetchAwsCredentialsSync, getTraceRootApiBaseUrl } from './api/credential';
+import { LocalSpan, LocalTrace, readLocalTraces } from './exporters/fileSpanExporter';
+import { SPAN_FILE_DEFAULTS } from './constants';
+import { getConfigEnvironment } from './utils/config';
+import {
+  ConfigDiagnostic,
+  formatConfigDiagnostic,
+  validateConfig,
+  validateConfigFile,
+  validateEnvironmentVariables,
+} from './utils/configValidator';
+import {
+  CONFIG_ENV_VARS,
+  findTypescriptConfig,
+  loadConfigFromEnv,
+  loadTypescriptConfigSync,
+} from './utils/configLoader';
+
+export interface CliOutput {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+export type ConfigSource = 'file' | 'environment override' | 'env var' | 'default';
+
+/**
+ * Configuration as auto-initialization would resolve it, with the origin of each field
+ */
+export interface ResolvedConfig {
+  // Config file that was picked up, or null when configuration comes from env vars
+  configPath: string | null;
+  // `environments` entry merged over the file config
+  environment?: string;
+  config: TraceRootConfigImpl;
+  sources: Record<string, ConfigSource>;
+  // Problems found in the config file or environment variables
+  diagnostics: ConfigDiagnostic[];
+}
+
+const USAGE = `Usage: traceroot <command> [options]
+
+Commands:
+  config check          Show the resolved configuration, where each value came from and problems
+  credentials verify    Fetch AWS credentials with the configured token
+  traces tail           Print traces recorded by the file span exporter as span trees
+
+Options for traces tail:
+  --dir <path>          Trace store directory (default: span_file_dir or ${SPAN_FILE_DEFAULTS.DIR})
+  --trace-id <id>       Only print this trace
+  --service <name>      Only print traces with spans from this service
+  --since <time>        Only print traces started at or after this time (ISO 8601)
+  --limit <n>           Number of most recent traces to print (default: 10)
+  --follow              Keep watching for new spans`;
+
+// Config file properties that are not configuration values
+const FILE_ONLY_PROPERTIES = new Set([
+  'init',
+  'autoInit',
+  'integrations',
+  'credential_providers',
+  'watch',
+  'environments',
+]);
+
+// Fields whose values are masked in the output
+const SECRET_FIELDS = new Set(['token']);
+
+const FOLLOW_INTERVAL_MS = 1000;
+
+const defaultOutput: CliOutput = {
+  log: message => console.log(message),
+  error: message => console.error(message),
+};
+
+/**
+ * Run the CLI with the given arguments (without `node` and the script path)
+ *
+ * @returns Process exit code
+ */
+export async function runCli(args: string[], output: CliOutput = defaultOutput): Promise<number> {
+  const [command, subcommand, ...rest] = args;
+
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    output.log(USAGE);
+    return 0;
+  }
+
+  try {
+    switch (`${command} ${subcommand ?? ''}`.trim()) {
+      case 'config check':
+        return configCheck(output);
+      case 'credentials verify':
+        return credentialsVerify(output);
+      case 'traces tail':
+        return await tracesTail(rest, output);
+      default:
+        output.error(`Unknown command: ${args.join(' ')}\n\n${USAGE}`);
+        return 1;
+    }
+  } catch (error: any) {
+    output.error(`Error: ${error?.message || error}`);
+    return 1;
+  }
+}
+
+/**
+ * Resolve the configuration the same way auto-initialization does: the config file with
+ * its `environments` override, or TRACEROOT_* environment variables when there is none
+ */
+export function resolveConfig(): ResolvedConfig {
+  const configPath = findTypescriptConfig();
+  const sources: Record<string, ConfigSource> = {};
+  let values: Partial<TraceRootConfig> = {};
+  let environment: string | undefined;
+  let diagnostics: ConfigDiagnostic[];
+
+  if (configPath) {
+    const configFile: TraceRootConfigFile = loadTypescriptConfigSync(configPath) || {};
+    diagnostics = validateConfigFile(configFile);
+    for (const [key, value] of Object.entries(configFile)) {
+      if (!FILE_ONLY_PROPERTIES.has(key) && value !== undefined) {
+        (values as Record<string, unknown>)[key] = value;
+        sources[key] = 'file';
+      }
+    }
+
+    const configEnvironment = getConfigEnvironment();
+    const overrides = configEnvironment ? configFile.environments?.[configEnvironment] : undefined;
+    if (overrides) {
+      environment = configEnvironment;
+      for (const [key, value] of Object.entries(overrides)) {
+        (values as Record<string, unknown>)[key] = value;
+        sources[key] = 'environment override';
+      }
+    }
+  } else {
+    values = loadConfigFromEnv();
+    diagnostics = validateEnvironmentVariables();
+    for (const [key, envVar] of Object.entries(CONFIG_ENV_VARS)) {
+      if (process.env[envVar] !== undefined && key in values) {
+        sources[key] = 'env var';
+      }
+    }
+  }
+
+  diagnostics.push(...validateConfig(values));
+  const config = new TraceRootConfigImpl(values as TraceRootConfig);
+  for (const key of Object.keys(config)) {
+    sources[key] = sources[key] || 'default';
+  }
+
+  return { configPath, environment, config, sources, diagnostics };
+}
+
+function configCheck(output: CliOutput): number {
+  const { configPath, environment, config, sources, diagnostics } = resolveConfig();
+
+  output.log(
+    configPath
+      ? `Config file: ${configPath}`
+      : 'Config file: none found (using TRACEROOT_* environment variables)'
+  );
+  if (environment) {
+    output.log(`Environment overrides: environments.${environment}`);
+  }
+  output.log('');
+
+  const rows = Object.keys(config)
+    .filter(key => !key.startsWith('_'))
+    .sort()
+    .map(key => [key, formatValue(key, (config as any)[key]), sources[key]]);
+  const keyWidth = Math.max(...rows.map(row => row[0].length));
+  const valueWidth = Math.min(Math.max(...rows.map(row => row[1].length)), 60);
+  for (const [key, value, source] of rows) {
+    output.log(`${key.padEnd(keyWidth)}  ${value.padEnd(valueWidth)}  ${source}`);
+  }
+
+  output.log('');
+  if (diagnostics.length === 0) {
+    output.log('No problems found');
+    return 0;
+  }
+  output.log(`${diagnostics.length} problem${diagnostics.length === 1 ? '' : 's'} found:`);
+  for (const diagnostic of diagnostics) {
+    output.log(`  - ${formatConfigDiagnostic(diagnostic)}`);
+  }
+  return 1;
+}
+
+function credentialsVerify(output: CliOutput): number {
+  const { config } = resolveConfig();
+  if (!config.token) {
+    output.error('No token configured: set `token` in the config file or TRACEROOT_TOKEN');
+    return 1;
+  }
+
+  const endpoint = `${getTraceRootApiBaseUrl()}/v1/verify/credentials`;
+  output.log(`Verifying token ${maskSecret(config.token)} against ${endpoint}`);
+
+  const credentials = fetchAwsCredentialsSync(config);
+  if (!credentials || !credentials.aws_access_key_id) {
+    output.error(
+      credentials
+        ? `Credential request was rejected: ${JSON.stringify(credentials)}`
+        : 'Failed to fetch credentials (request failed or returned an invalid response)'
+    );
+    return 1;
+  }
+
+  const expiration = new Date(credentials.expiration_utc);
+  output.log('Credentials OK');
+  output.log(`  access key:    ${maskSecret(credentials.aws_access_key_id)}`);
+  output.log(`  region:        ${credentials.region}`);
+  output.log(`  log group:     ${credentials.hash}`);
+  output.log(`  otlp endpoint: ${credentials.otlp_endpoint}`);
+  output.log(
+    `  expires:       ${isNaN(expiration.getTime()) ? 'unknown' : expiration.toISOString()}`
+  );
+  return 0;
+}
+
+async function tracesTail(args: string[], output: CliOutput): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      dir: { type: 'string' },
+      'trace-id': { type: 'string' },
+      service: { type: 'string' },
+      since: { type: 'string' },
+      limit: { type: 'string' },
+      follow: { type: 'boolean' },
+    },
+  });
+
+  const limit = values.limit !== undefined ? parseInt(values.limit, 10) : 10;
+  if (isNaN(limit) || limit < 1) {
+    throw new Error(`Invalid --limit value: ${values.limit}`);
+  }
+  const dir = values.dir || resolveConfig().config.span_file_dir || SPAN_FILE_DEFAULTS.DIR;
+  const query = {
+    dir,
+    traceId: values['trace-id'],
+    service: values.service,
+    since: values.since,
+  };
+
+  // Span count of each printed trace, so a trace is printed again when new spans arrive
+  const printed: Map<string, number> = new Map();
+  const printNew = async (traces: LocalTrace[]) => {
+    for (const trace of traces) {
+      if (printed.get(trace.traceId) !== trace.spans.length) {
+        printed.set(trace.traceId, trace.spans.length);
+        output.log(formatTraceTree(trace));
+      }
+    }
+  };
+
+  const traces = await readLocalTraces(query);
+  if (traces.length === 0 && !values.follow) {
+    output.log(`No traces found in ${dir}`);
+    return 0;
+  }
+  await printNew(traces.slice(-limit));
+
+  if (!values.follow) {
+    return 0;
+  }
+
+  await new Promise<void>(resolve => {
+    const timer = setInterval(() => {
+      readLocalTraces(query)
+        .then(printNew)
+        .catch((error: any) => output.error(`Error: ${error?.message || error}`));
+    }, FOLLOW_INTERVAL_MS);
+    process.once('SIGINT', () => {
+      clearInterval(timer);
+      resolve();
+    });
+  });
+  return 0;
+}
+
+/**
+ * Render a trace as a tree of spans with their durations, statuses and events
+ */
+export function formatTraceTree(trace: LocalTrace): string {
+  const lines = [
+    `Trace ${trace.traceId}  ${trace.service}  ${trace.startTime}  (${trace.spans.length} span${
+      trace.spans.length === 1 ? '' : 's'
+    })`,
+  ];
+
+  const spanIds = new Set(trace.spans.map(span => span.spanId));
+  const children: Map<string, LocalSpan[]> = new Map();
+  const roots: LocalSpan[] = [];
+  for (const span of trace.spans) {
+    // Spans whose parent wasn't recorded (e.g. a remote parent) are shown as roots
+    if (span.parentSpanId && spanIds.has(span.parentSpanId)) {
+      const siblings = children.get(span.parentSpanId) || [];
+      siblings.push(span);
+      children.set(span.parentSpanId, siblings);
+    } else {
+      roots.push(span);
+    }
+  }
+
+  const addSpan = (span: LocalSpan, prefix: string, last: boolean) => {
+    const status =
+      span.status.code === 'ERROR'
+        ? `  ERROR${span.status.message ? `: ${span.status.message}` : ''}`
+        : '';
+    const service = span.service !== trace.service ? `  [${span.service}]` : '';
+    lines.push(
+      `${prefix}${last ? '└─ ' : '├─ '}${span.name}  ${formatDuration(span.durationMs)}${service}${status}`
+    );
+
+    const childPrefix = `${prefix}${last ? '   ' : '│  '}`;
+    const spanChildren = children.get(span.spanId) || [];
+    for (const event of span.events) {
+      lines.push(`${childPrefix}${spanChildren.length > 0 ? '│  ' : ''}• ${event.name}`);
+    }
+    spanChildren.forEach((child, index) =>
+      addSpan(child, childPrefix, index === spanChildren.length - 1)
+    );
+  };
+  roots.forEach((span, index) => addSpan(span, '', index === roots.length - 1));
+
+  return lines.join('\n');
+}
+
+function formatDuration(durationMs: number): string {
+  return durationMs >= 1000 ? `${(durationMs / 1000).toFixed(2)}s` : `${durationMs.toFixed(1)}ms`;
+}
+
+function formatValue(key: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '(not set)';
+  }
+  if (SECRET_FIELDS.has(key)) {
+    return maskSecret(String(value));
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value, (_key, nested) =>
+      nested instanceof RegExp ? nested.toString() : nested
+    );
+  }
+  return String(value);
+}
+
+/**
+ * Keep the first characters of a secret so it can be recognized
+ */
+function maskSecret(secret: string): string {
+  return secret.length > 8 ? `${secret.substring(0, 4)}****` : '****';
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
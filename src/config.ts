@@ -2,6 +2,109 @@
  * Configuration management for TraceRoot
  */
 
+import type { CredentialProvider, TraceRootIntegration } from './types';
+
+/**
+ * Sampling rule matched against the span name and the attributes set at span start
+ */
+export interface SamplingRule {
+  // Exact span name (supports `*` wildcards) or regular expression
+  span_name?: string | RegExp;
+
+  // Attributes that must all be equal for the rule to match
+  attributes?: Record<string, string | number | boolean>;
+
+  // Fraction of matching traces to keep (0.0 - 1.0)
+  ratio: number;
+}
+
+/**
+ * Head-based sampling configuration
+ */
+export interface SamplingConfig {
+  type: 'always_on' | 'always_off' | 'ratio' | 'parent_based' | 'rate_limited' | 'rule_based';
+
+  // Ratio for 'ratio', default ratio for 'rule_based' and root ratio for 'parent_based'
+  ratio?: number;
+
+  // Maximum number of new traces per second for 'rate_limited'
+  traces_per_second?: number;
+
+  // Rules for 'rule_based', first match wins
+  rules?: SamplingRule[];
+
+  // Root sampler for 'parent_based' (defaults to ratio sampling)
+  root?: SamplingConfig;
+}
+
+/**
+ * Tail-based sampling configuration
+ * A trace is kept if any of its spans matches a rule, otherwise with probability sample_ratio
+ */
+export interface TailSamplingConfig {
+  // Keep traces containing a span with ERROR status or error logs (default: true)
+  keep_errors?: boolean;
+
+  // Keep traces containing a span at least this slow
+  latency_threshold_ms?: number;
+
+  // Keep traces containing a span whose attributes match all entries of any rule
+  attribute_rules?: Array<Record<string, string | number | boolean>>;
+
+  // Keep traces where any of these counter attributes is > 0
+  // (default: num_error_logs, num_critical_logs)
+  counter_attributes?: string[];
+
+  // Fraction of remaining healthy traces to keep (default: 0)
+  sample_ratio?: number;
+
+  // Memory bounds (defaults: 1000 traces, 1000 spans per trace)
+  max_traces?: number;
+  max_spans_per_trace?: number;
+
+  // How long to wait for a root span to end before deciding anyway (default: 30000)
+  decision_wait_ms?: number;
+}
+
+/**
+ * Serialization of values written into span attributes
+ */
+export interface SerializationConfig {
+  // Longer strings are truncated and flagged with a `<key>.truncated` attribute (default: 8192)
+  max_string_length?: number;
+
+  // Nesting depth kept when serializing objects to JSON (default: 10)
+  max_depth?: number;
+
+  // Keys per object and items per array kept when serializing (default: 100)
+  max_keys?: number;
+}
+
+/**
+ * A redaction rule matching attribute/metadata keys, values, or both
+ */
+export interface RedactionRule {
+  // Key name to redact (`*` wildcards, case-insensitive) or RegExp; nested keys are checked too
+  key?: string | RegExp;
+
+  // Value pattern: a RegExp or a built-in pattern name; only the matched text is replaced
+  pattern?: RegExp | 'credit_card' | 'jwt' | 'email';
+
+  // mask: replace with the mask text, hash: replace with a SHA-256 prefix,
+  // drop: remove the attribute (default: mask)
+  mode?: 'mask' | 'hash' | 'drop';
+}
+
+/**
+ * PII redaction applied to span attributes, log messages and log metadata
+ */
+export interface RedactionConfig {
+  rules: RedactionRule[];
+
+  // Replacement text for masked values (default: '[REDACTED]')
+  mask?: string;
+}
+
 export interface TraceRootConfig {
   // Identification
   service_name: string;
@@ -23,6 +126,9 @@ export interface TraceRootConfig {
   // OpenTelemetry Configuration
   otlp_endpoint?: string;
 
+  // OTLP/HTTP logs endpoint (default: otlp_endpoint with /v1/traces replaced by /v1/logs)
+  otlp_logs_endpoint?: string;
+
   // Environment
   environment?: string;
 
@@ -34,9 +140,39 @@ export interface TraceRootConfig {
   enable_span_cloud_export?: boolean;
   enable_log_cloud_export?: boolean;
 
+  // Log export destination when cloud export is enabled (default: 'cloudwatch')
+  log_exporter?: 'cloudwatch' | 'otlp' | 'none';
+
+  // File export (enabled when log_file_path is set)
+  log_file_path?: string;
+  log_file_format?: 'json' | 'semicolon';
+  // Rotate when the file would grow past this many bytes (default: 10 MB, 0 disables)
+  log_file_max_size?: number;
+  // Rotate when the UTC hour/day changes (default: 'daily')
+  log_file_rotation?: 'hourly' | 'daily' | 'none';
+  // Number of rotated files kept (default: 5, 0 keeps all)
+  log_file_max_files?: number;
+  // Gzip rotated files (default: true)
+  log_file_compress?: boolean;
+
+  // Local span store for offline debugging (enabled when span_file_dir is set)
+  span_file_dir?: string;
+  span_file_format?: 'jsonl' | 'otlp-json';
+
   // Local mode
   local_mode?: boolean;
 
+  // Cache credentials on disk, encrypted, for later processes using the same token (default: false)
+  credential_cache?: boolean;
+  // Cache directory (default: ~/.cache/traceroot)
+  credential_cache_dir?: string;
+
+  // Outbound network: proxy for all SDK requests (default: HTTPS_PROXY / HTTP_PROXY, NO_PROXY
+  // applies to both), PEM bundle of extra CA certificates, and skipping certificate verification
+  proxy_url?: string;
+  ca_bundle_path?: string;
+  tls_insecure?: boolean;
+
   // Logging configuration (case-insensitive)
   log_level?:
     | 'debug'
@@ -53,6 +189,24 @@ export interface TraceRootConfig {
   // Tracer verbose logging (default: false)
   tracer_verbose?: boolean;
 
+  // Throw on invalid configuration instead of warning (default: false)
+  strict_config?: boolean;
+
+  // Trace sampling (default: record every span)
+  sampling?: SamplingConfig;
+
+  // Tail-based sampling applied before export (default: disabled)
+  tail_sampling?: TailSamplingConfig;
+
+  // Baggage keys copied into log metadata and span attributes (default: none)
+  baggage_keys?: string[];
+
+  // Span attribute serialization limits
+  serialization?: SerializationConfig;
+
+  // PII redaction rules (default: disabled)
+  redaction?: RedactionConfig;
+
   // Internal properties (set during initialization)
   _name?: string;
   _sub_name?: string;
@@ -66,6 +220,7 @@ export interface TraceRootConfigFile extends Partial<TraceRootConfig> {
   /**
    * Optional initialization function that will be called after TraceRoot is initialized
    * This allows for custom setup logic similar to Sentry's approach
+   * Async functions keep running after initialization; await ready() to wait for them
    */
   init?: (config: TraceRootConfigImpl) => Promise<void> | void;
 
@@ -78,7 +233,18 @@ export interface TraceRootConfigFile extends Partial<TraceRootConfig> {
   /**
    * Custom integrations or middleware to apply
    */
-  integrations?: Array<any>;
+  integrations?: TraceRootIntegration[];
+
+  /**
+   * Credential providers tried before the default TraceRoot API provider
+   */
+  credential_providers?: CredentialProvider[];
+
+  /**
+   * Watch this file and apply changes to options that can change at runtime
+   * (see updateConfig) without restarting. Defaults to false
+   */
+  watch?: boolean;
 
   /**
    * Environment-specific configuration overrides
@@ -97,14 +263,35 @@ export class TraceRootConfigImpl implements TraceRootConfig {
   name?: string;
   aws_region: string = 'us-west-2';
   otlp_endpoint: string = 'http://localhost:4318/v1/traces';
+  otlp_logs_endpoint?: string;
   environment: string = 'development';
   enable_span_console_export: boolean = false;
   enable_log_console_export: boolean = true;
   enable_span_cloud_export: boolean = false;
   enable_log_cloud_export: boolean = false;
+  log_exporter?: 'cloudwatch' | 'otlp' | 'none';
+  log_file_path?: string;
+  log_file_format?: 'json' | 'semicolon';
+  log_file_max_size?: number;
+  log_file_rotation?: 'hourly' | 'daily' | 'none';
+  log_file_max_files?: number;
+  log_file_compress?: boolean;
+  span_file_dir?: string;
+  span_file_format?: 'jsonl' | 'otlp-json';
   local_mode: boolean = false;
+  credential_cache?: boolean;
+  credential_cache_dir?: string;
+  proxy_url?: string;
+  ca_bundle_path?: string;
+  tls_insecure?: boolean;
   log_level: 'debug' | 'info' | 'warn' | 'error' | 'silent' = 'debug';
   tracer_verbose: boolean = false;
+  strict_config?: boolean;
+  sampling?: SamplingConfig;
+  tail_sampling?: TailSamplingConfig;
+  baggage_keys?: string[];
+  serialization?: SerializationConfig;
+  redaction?: RedactionConfig;
   _name?: string;
   _sub_name?: string;
 
@@ -117,6 +304,7 @@ export class TraceRootConfigImpl implements TraceRootConfig {
     this.name = config.name;
     this.aws_region = config.aws_region || 'us-west-2';
     this.otlp_endpoint = config.otlp_endpoint || 'http://localhost:4318/v1/traces';
+    this.otlp_logs_endpoint = config.otlp_logs_endpoint;
     this.environment = config.environment || 'development';
     this.enable_span_console_export =
       config.enable_span_console_export !== undefined
@@ -134,9 +322,29 @@ export class TraceRootConfigImpl implements TraceRootConfig {
       config.enable_log_cloud_export !== undefined
         ? config.enable_log_cloud_export
         : this.enable_log_cloud_export;
+    this.log_exporter = config.log_exporter;
+    this.log_file_path = config.log_file_path;
+    this.log_file_format = config.log_file_format;
+    this.log_file_max_size = config.log_file_max_size;
+    this.log_file_rotation = config.log_file_rotation;
+    this.log_file_max_files = config.log_file_max_files;
+    this.log_file_compress = config.log_file_compress;
+    this.span_file_dir = config.span_file_dir;
+    this.span_file_format = config.span_file_format;
     this.local_mode = config.local_mode !== undefined ? config.local_mode : this.local_mode;
+    this.credential_cache = config.credential_cache;
+    this.credential_cache_dir = config.credential_cache_dir;
+    this.proxy_url = config.proxy_url;
+    this.ca_bundle_path = config.ca_bundle_path;
+    this.tls_insecure = config.tls_insecure;
     this.tracer_verbose =
       config.tracer_verbose !== undefined ? config.tracer_verbose : this.tracer_verbose;
+    this.strict_config = config.strict_config;
+    this.sampling = config.sampling;
+    this.tail_sampling = config.tail_sampling;
+    this.baggage_keys = config.baggage_keys;
+    this.serialization = config.serialization;
+    this.redaction = config.redaction;
     this.log_level =
       (config.log_level?.toLowerCase() as 'debug' | 'info' | 'warn' | 'error' | 'silent') ||
       'debug';
@@ -32,6 +32,95 @@ export const BATCH_SPAN_PROCESSOR_CONFIG = {
   MAX_QUEUE_SIZE: 50,
 } as const;
 
+/**
+ * Log file export defaults
+ */
+export const LOG_FILE_DEFAULTS = {
+  FORMAT: 'json',
+  MAX_SIZE: 10 * 1024 * 1024,
+  ROTATION: 'daily',
+  MAX_FILES: 5,
+  COMPRESS: true,
+} as const;
+
+/**
+ * Local span file export defaults
+ */
+export const SPAN_FILE_DEFAULTS = {
+  DIR: './traceroot-traces',
+  FORMAT: 'jsonl',
+} as const;
+
+/**
+ * Config file watching defaults
+ */
+export const CONFIG_WATCH_DEFAULTS = {
+  // Editors often write a file several times in a row when saving
+  DEBOUNCE_MS: 300,
+} as const;
+
+/**
+ * Key under which the logger stores the OpenTelemetry context active when a log was written.
+ * Transports may run after the logging call returns, so they can't read the active context.
+ */
+export const LOG_CONTEXT = Symbol.for('traceroot.log.context');
+
+/**
+ * Background credential refresh
+ */
+export const CREDENTIAL_REFRESH_CONFIG = {
+  // Credentials are refreshed this long before they expire
+  REFRESH_BEFORE_EXPIRY_MS: 30 * 60 * 1000,
+  // Shortest wait between refreshes, for credentials that are short-lived or already expired
+  MIN_REFRESH_INTERVAL_MS: 60 * 1000,
+  // Failed refreshes are retried after a random delay of up to BASE * 2^(attempt - 1), capped
+  RETRY_BASE_DELAY_MS: 1000,
+  RETRY_MAX_DELAY_MS: 5 * 60 * 1000,
+} as const;
+
+/**
+ * On-disk credential cache
+ */
+export const CREDENTIAL_CACHE_CONFIG = {
+  // Default cache directory, relative to the home directory
+  DIR: '.cache/traceroot',
+  // How long a process waits for another one fetching credentials before fetching itself
+  LOCK_WAIT_MS: 15 * 1000,
+  LOCK_POLL_INTERVAL_MS: 50,
+  // Locks older than this were left behind by a process that died while fetching
+  LOCK_STALE_MS: 30 * 1000,
+} as const;
+
+/**
+ * Limits of the buffers holding spans and log records while initAsync() fetches credentials.
+ * When a buffer is full the oldest entries are dropped.
+ */
+export const ASYNC_INIT_BUFFER_CONFIG = {
+  MAX_SPANS: 2048,
+  MAX_LOG_RECORDS: 1000,
+  // How long flushing or shutting down waits for the credentials to export buffered spans
+  CONNECT_WAIT_MS: 10 * 1000,
+} as const;
+
+/**
+ * Tail sampling defaults
+ */
+export const TAIL_SAMPLING_DEFAULTS = {
+  MAX_TRACES: 1000,
+  MAX_SPANS_PER_TRACE: 1000,
+  DECISION_WAIT_MS: 30000,
+  COUNTER_ATTRIBUTES: ['num_error_logs', 'num_critical_logs'],
+} as const;
+
+/**
+ * Span attribute serialization defaults
+ */
+export const SERIALIZATION_DEFAULTS = {
+  MAX_STRING_LENGTH: 8192,
+  MAX_DEPTH: 10,
+  MAX_KEYS: 100,
+} as const;
+
 /**
  * API endpoints
  */
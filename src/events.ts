@@ -0,0 +1,65 @@
+/**
+ * Events emitted by TraceRoot
+ *
+ * Subscribe with `events.on('credentials:refreshed', credentials => ...)`.
+ */
+
+import { EventEmitter } from 'events';
+import { AwsCredentials } from './types';
+
+/**
+ * Details of a failed credential refresh
+ */
+export interface CredentialsFailedEvent {
+  /** Why the refresh failed */
+  error: Error;
+  /** Consecutive failed attempts, starting at 1 */
+  attempt: number;
+  /** Delay before the next attempt */
+  retryInMs: number;
+}
+
+/**
+ * Events and the arguments their listeners receive
+ */
+export interface TraceRootEventMap {
+  'credentials:refreshed': [credentials: AwsCredentials];
+  'credentials:failed': [event: CredentialsFailedEvent];
+}
+
+type Listener<E extends keyof TraceRootEventMap> = (...args: TraceRootEventMap[E]) => void;
+
+/**
+ * Typed event emitter; listener errors are reported and never reach TraceRoot
+ */
+export class TraceRootEvents {
+  private readonly emitter = new EventEmitter();
+
+  on<E extends keyof TraceRootEventMap>(event: E, listener: Listener<E>): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  once<E extends keyof TraceRootEventMap>(event: E, listener: Listener<E>): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  off<E extends keyof TraceRootEventMap>(event: E, listener: Listener<E>): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  emit<E extends keyof TraceRootEventMap>(event: E, ...args: TraceRootEventMap[E]): void {
+    // Raw listeners include the wrappers removing once() listeners when called
+    for (const listener of this.emitter.rawListeners(event)) {
+      try {
+        (listener as Listener<E>)(...args);
+      } catch (error: any) {
+        console.error(`[TraceRoot] ${event} listener failed:`, error?.message || error);
+      }
+    }
+  }
+}
+
+export const events = new TraceRootEvents();
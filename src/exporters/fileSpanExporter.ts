@@ -0,0 +1,364 @@
+/**
+ * File-based span exporter and local trace store
+ *
+ * Writes finished spans (with the log events attached to them) to a local directory,
+ * partitioned as `<dir>/<YYYY-MM-DD>/<traceId>.jsonl`, so traces can be inspected offline.
+ * readLocalTraces() queries what was recorded.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AttributeValue, HrTime, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { createExportTraceServiceRequest } from '@opentelemetry/otlp-transformer';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { SPAN_FILE_DEFAULTS } from '../constants';
+
+export type SpanFileFormat = 'jsonl' | 'otlp-json';
+
+/**
+ * A span as recorded in the local trace store
+ */
+export interface LocalSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: string;
+  // ISO 8601 timestamps
+  startTime: string;
+  endTime: string;
+  durationMs: number;
+  status: { code: 'UNSET' | 'OK' | 'ERROR'; message?: string };
+  attributes: Record<string, AttributeValue>;
+  events: LocalSpanEvent[];
+  service: string;
+  resource: Record<string, AttributeValue>;
+}
+
+export interface LocalSpanEvent {
+  name: string;
+  time: string;
+  attributes: Record<string, AttributeValue>;
+}
+
+/**
+ * All recorded spans of one trace, ordered by start time
+ */
+export interface LocalTrace {
+  traceId: string;
+  // Service of the first span
+  service: string;
+  startTime: string;
+  endTime: string;
+  spans: LocalSpan[];
+}
+
+export interface ReadLocalTracesOptions {
+  // Only return this trace
+  traceId?: string;
+  // Only return traces started at or after this time
+  since?: Date | number | string;
+  // Only return traces with at least one span from this service
+  service?: string;
+  // Trace store directory (default: span_file_dir of the active config)
+  dir?: string;
+}
+
+// Export result of the SDK's own @opentelemetry/core version
+type ExportResult = Parameters<Parameters<SpanExporter['export']>[1]>[0];
+
+// ExportResultCode values
+const EXPORT_SUCCESS = 0;
+const EXPORT_FAILED = 1;
+
+const OTLP_SPAN_KINDS = ['UNSPECIFIED', 'INTERNAL', 'SERVER', 'CLIENT', 'PRODUCER', 'CONSUMER'];
+const OTLP_STATUS_CODES: LocalSpan['status']['code'][] = ['UNSET', 'OK', 'ERROR'];
+
+/**
+ * Span exporter appending finished spans to per-trace files in a local directory
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly directory: string;
+  private readonly format: SpanFileFormat;
+  private pendingWrites: Set<Promise<void>> = new Set();
+  private isShutdown = false;
+
+  constructor(directory: string, format: SpanFileFormat = SPAN_FILE_DEFAULTS.FORMAT) {
+    this.directory = directory;
+    this.format = format;
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    if (this.isShutdown) {
+      resultCallback({ code: EXPORT_FAILED, error: new Error('Exporter has been shut down') });
+      return;
+    }
+
+    const write = this.writeSpans(spans)
+      .then(() => resultCallback({ code: EXPORT_SUCCESS }))
+      .catch((error: any) => resultCallback({ code: EXPORT_FAILED, error }))
+      .finally(() => this.pendingWrites.delete(write));
+    this.pendingWrites.add(write);
+  }
+
+  async forceFlush(): Promise<void> {
+    await Promise.all(Array.from(this.pendingWrites));
+  }
+
+  async shutdown(): Promise<void> {
+    this.isShutdown = true;
+    await this.forceFlush();
+  }
+
+  private async writeSpans(spans: ReadableSpan[]): Promise<void> {
+    // Group spans by file so each file gets a single append
+    const spansByFile: Map<string, ReadableSpan[]> = new Map();
+    for (const span of spans) {
+      const file = this.fileFor(span);
+      const fileSpans = spansByFile.get(file) || [];
+      fileSpans.push(span);
+      spansByFile.set(file, fileSpans);
+    }
+
+    for (const [file, fileSpans] of spansByFile) {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.appendFile(file, this.serialize(fileSpans));
+    }
+  }
+
+  private fileFor(span: ReadableSpan): string {
+    const date = new Date(_hrTimeToMilliseconds(span.startTime)).toISOString().substring(0, 10);
+    const extension = this.format === 'otlp-json' ? '.otlp.jsonl' : '.jsonl';
+    return path.join(this.directory, date, `${span.spanContext().traceId}${extension}`);
+  }
+
+  private serialize(spans: ReadableSpan[]): string {
+    if (this.format === 'otlp-json') {
+      // One OTLP/JSON ExportTraceServiceRequest per line, as written by the collector file exporter
+      const request = createExportTraceServiceRequest(spans, {
+        useHex: true,
+        useLongBits: false,
+      });
+      return `${JSON.stringify(request)}\n`;
+    }
+    return spans.map(span => `${JSON.stringify(_toLocalSpan(span))}\n`).join('');
+  }
+}
+
+/**
+ * Read the traces recorded by the file span exporter
+ */
+export async function readLocalTraces(options: ReadLocalTracesOptions = {}): Promise<LocalTrace[]> {
+  const directory = options.dir ?? _getConfiguredDirectory();
+  const since = options.since !== undefined ? new Date(options.since).getTime() : undefined;
+  if (since !== undefined && isNaN(since)) {
+    throw new Error(`Invalid "since" value: ${String(options.since)}`);
+  }
+
+  let dateDirectories: string[];
+  try {
+    dateDirectories = await fs.promises.readdir(directory);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  // Date partitions older than `since` can't contain matching traces
+  const sinceDate = since !== undefined ? new Date(since).toISOString().substring(0, 10) : '';
+  const spansByTrace: Map<string, LocalSpan[]> = new Map();
+  for (const date of dateDirectories.filter(name => /^\d{4}-\d{2}-\d{2}$/.test(name)).sort()) {
+    if (date < sinceDate) {
+      continue;
+    }
+    const files = await fs.promises.readdir(path.join(directory, date));
+    for (const file of files.filter(name => name.endsWith('.jsonl'))) {
+      const traceId = file.substring(0, file.indexOf('.'));
+      if (options.traceId && traceId !== options.traceId) {
+        continue;
+      }
+      const content = await fs.promises.readFile(path.join(directory, date, file), 'utf8');
+      const spans = spansByTrace.get(traceId) || [];
+      spans.push(..._parseSpanLines(content));
+      spansByTrace.set(traceId, spans);
+    }
+  }
+
+  const traces: LocalTrace[] = [];
+  for (const [traceId, spans] of spansByTrace) {
+    if (spans.length === 0) {
+      continue;
+    }
+    _sortSpans(spans);
+    const trace: LocalTrace = {
+      traceId,
+      service: spans[0].service,
+      startTime: spans[0].startTime,
+      endTime: spans.reduce((end, span) => (span.endTime > end ? span.endTime : end), ''),
+      spans,
+    };
+    if (since !== undefined && new Date(trace.startTime).getTime() < since) {
+      continue;
+    }
+    if (options.service && !spans.some(span => span.service === options.service)) {
+      continue;
+    }
+    traces.push(trace);
+  }
+  return traces.sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * Sort spans by start time; timestamps have millisecond precision,
+ * so parents go before their children started in the same millisecond
+ */
+function _sortSpans(spans: LocalSpan[]): void {
+  const parents = new Map(spans.map(span => [span.spanId, span.parentSpanId]));
+  const depthOf = (span: LocalSpan): number => {
+    let depth = 0;
+    for (let id = span.parentSpanId; id && parents.has(id) && depth < spans.length; depth++) {
+      id = parents.get(id);
+    }
+    return depth;
+  };
+  const depths = new Map(spans.map(span => [span, depthOf(span)]));
+  spans.sort((a, b) => a.startTime.localeCompare(b.startTime) || depths.get(a)! - depths.get(b)!);
+}
+
+function _getConfiguredDirectory(): string {
+  // Loaded lazily: the tracer module imports this exporter
+  const { getConfig } = require('../tracer');
+  return getConfig()?.span_file_dir ?? SPAN_FILE_DEFAULTS.DIR;
+}
+
+function _toLocalSpan(span: ReadableSpan): LocalSpan {
+  const resource = { ...span.resource.attributes } as Record<string, AttributeValue>;
+  return {
+    traceId: span.spanContext().traceId,
+    spanId: span.spanContext().spanId,
+    parentSpanId: span.parentSpanId,
+    name: span.name,
+    kind: SpanKind[span.kind],
+    startTime: _hrTimeToIso(span.startTime),
+    endTime: _hrTimeToIso(span.endTime),
+    durationMs: _hrTimeToMilliseconds(span.duration),
+    status: {
+      code: OTLP_STATUS_CODES[span.status.code] ?? 'UNSET',
+      message: span.status.code === SpanStatusCode.ERROR ? span.status.message : undefined,
+    },
+    attributes: { ...span.attributes } as Record<string, AttributeValue>,
+    events: span.events.map(event => ({
+      name: event.name,
+      time: _hrTimeToIso(event.time),
+      attributes: { ...(event.attributes || {}) } as Record<string, AttributeValue>,
+    })),
+    service: String(resource[ATTR_SERVICE_NAME] ?? ''),
+    resource,
+  };
+}
+
+/**
+ * Parse a trace file; each line is either a span (jsonl) or an OTLP/JSON request
+ */
+function _parseSpanLines(content: string): LocalSpan[] {
+  const spans: LocalSpan[] = [];
+  for (const line of content.split('\n')) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      // A partially written last line is skipped
+      continue;
+    }
+    if (Array.isArray(record.resourceSpans)) {
+      spans.push(..._fromOtlpRequest(record));
+    } else {
+      spans.push(record as LocalSpan);
+    }
+  }
+  return spans;
+}
+
+function _fromOtlpRequest(request: any): LocalSpan[] {
+  const spans: LocalSpan[] = [];
+  for (const resourceSpans of request.resourceSpans) {
+    const resource = _fromOtlpAttributes(resourceSpans.resource?.attributes);
+    for (const scopeSpans of resourceSpans.scopeSpans || []) {
+      for (const span of scopeSpans.spans || []) {
+        const startNanos = BigInt(span.startTimeUnixNano);
+        const endNanos = BigInt(span.endTimeUnixNano);
+        spans.push({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          parentSpanId: span.parentSpanId || undefined,
+          name: span.name,
+          // OTLP span kinds are shifted by one from the API SpanKind
+          kind: OTLP_SPAN_KINDS[span.kind] ?? 'INTERNAL',
+          startTime: _nanosToIso(startNanos),
+          endTime: _nanosToIso(endNanos),
+          durationMs: Number(endNanos - startNanos) / 1e6,
+          status: {
+            code: OTLP_STATUS_CODES[span.status?.code ?? 0] ?? 'UNSET',
+            message: span.status?.message || undefined,
+          },
+          attributes: _fromOtlpAttributes(span.attributes),
+          events: (span.events || []).map((event: any) => ({
+            name: event.name,
+            time: _nanosToIso(BigInt(event.timeUnixNano)),
+            attributes: _fromOtlpAttributes(event.attributes),
+          })),
+          service: String(resource[ATTR_SERVICE_NAME] ?? ''),
+          resource,
+        });
+      }
+    }
+  }
+  return spans;
+}
+
+function _fromOtlpAttributes(attributes: any[] | undefined): Record<string, AttributeValue> {
+  const result: Record<string, AttributeValue> = {};
+  for (const { key, value } of attributes || []) {
+    result[key] = _fromOtlpValue(value);
+  }
+  return result;
+}
+
+function _fromOtlpValue(value: any): any {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if ('stringValue' in value) {
+    return value.stringValue;
+  }
+  if ('boolValue' in value) {
+    return value.boolValue;
+  }
+  if ('intValue' in value) {
+    return Number(value.intValue);
+  }
+  if ('doubleValue' in value) {
+    return value.doubleValue;
+  }
+  if ('arrayValue' in value) {
+    return (value.arrayValue.values || []).map(_fromOtlpValue);
+  }
+  return null;
+}
+
+function _hrTimeToMilliseconds(time: HrTime): number {
+  return time[0] * 1e3 + time[1] / 1e6;
+}
+
+function _hrTimeToIso(time: HrTime): string {
+  return new Date(_hrTimeToMilliseconds(time)).toISOString();
+}
+
+function _nanosToIso(nanos: bigint): string {
+  return new Date(Number(nanos / BigInt(1e6))).toISOString();
+}
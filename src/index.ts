@@ -7,31 +7,110 @@
  * - get_logger() to get a logger instance
  */
 
-import { _initializeTracing, shutdownTracing, shutdownTracer, forceFlushTracer } from './tracer';
+import {
+  _initializeTracing,
+  shutdownTracing,
+  shutdownTracer,
+  forceFlushTracer,
+  updateTracingConfig,
+  getSpanBufferStats,
+  _connectDeferredCloudExport,
+} from './tracer';
 import { trace as traceDecorator, traceFunction } from './tracer';
-import { get_logger, getLogger, forceFlushLogger, shutdownLogger, setGlobalConfig } from './logger';
-import { TraceRootConfig } from './config';
-import { TraceOptions } from './types';
+import {
+  get_logger,
+  getLogger,
+  forceFlushLogger,
+  shutdownLogger,
+  setGlobalConfig,
+  reconfigureLoggers,
+  connectBufferedLogTransports,
+  getLogBufferStats,
+  startBackgroundCredentialRefresh,
+} from './logger';
+import { TraceRootConfig, TraceRootConfigFile } from './config';
+import { finishInitialization } from './autoInit';
+import { registerCredentialProvider } from './api/credentialProvider';
+import { InitBufferStats, TraceOptions } from './types';
 
 export const VERSION = '0.0.1';
 
+type InitOptions = Partial<TraceRootConfig> &
+  Pick<TraceRootConfigFile, 'integrations' | 'init' | 'credential_providers'>;
+
 /**
  * Initialize TraceRoot tracing and logging (synchronous).
  *
- * This should be called once at the start of your application.
+ * This should be called once at the start of your application. Async integrations and
+ * `init` hooks keep running after it returns; await ready() to wait for them.
+ *
+ * @param config Configuration parameters for TraceRoot, integrations to set up, an init hook
+ * to run and credential providers to register
+ */
+export function init(config?: InitOptions): void {
+  _initialize(config, false);
+}
+
+/**
+ * Initialize TraceRoot without blocking on the credential fetch.
+ *
+ * Tracing and logging are usable right away: spans and CloudWatch logs are buffered (oldest
+ * dropped past the limits, see getInitBufferStats()) while credentials are fetched in the
+ * background, then replayed to the OTLP exporter and CloudWatch transport.
  *
- * @param config Configuration parameters for TraceRoot
+ * @param config Same options as init()
+ * @returns Promise resolved once cloud export is connected and integrations and the init
+ * hook have finished
  */
-export function init(config?: Partial<TraceRootConfig>): void {
-  _initializeTracing(config);
+export function initAsync(config?: InitOptions): Promise<void> {
+  const initialized = _initialize(config, true);
+  const connected = _connectDeferredCloudExport().then(() => {
+    connectBufferedLogTransports();
+    startBackgroundCredentialRefresh();
+  });
+  return Promise.all([connected, initialized]).then(() => {});
+}
+
+function _initialize(config: InitOptions | undefined, deferCredentials: boolean): Promise<void> {
+  const { integrations, init: initHook, credential_providers, ...tracingConfig } = config || {};
+  credential_providers?.forEach(registerCredentialProvider);
+  const tracerProvider = _initializeTracing(config ? tracingConfig : undefined, deferCredentials);
 
   // Set up logger global config directly from tracer config
   const { getConfig } = require('./tracer');
   const configInstance = getConfig();
-  if (configInstance) {
-    // Set the global config for logger directly
-    setGlobalConfig(configInstance);
+  if (!configInstance) {
+    return Promise.resolve();
   }
+  // Set the global config for logger directly
+  setGlobalConfig(configInstance);
+  startBackgroundCredentialRefresh();
+  return finishInitialization(configInstance, tracerProvider, { integrations, init: initHook });
+}
+
+/**
+ * Get how full the buffers initAsync() fills while fetching credentials are, and how many
+ * spans and log records were dropped because they were full
+ */
+export function getInitBufferStats(): InitBufferStats {
+  return { spans: getSpanBufferStats(), logs: getLogBufferStats() };
+}
+
+/**
+ * Change configuration at runtime without restarting.
+ *
+ * Supports log_level, the console and cloud export flags, sampling, tail_sampling and
+ * redaction. Span processors and log transports affected by the change are rebuilt, and
+ * every logger (including child loggers) picks up the new settings.
+ *
+ * @param update Options to change; options set to undefined go back to their defaults
+ * @returns Promise resolved once replaced span processors have exported their pending spans,
+ * rejected when TraceRoot is not initialized or the update is invalid
+ */
+export async function updateConfig(update: Partial<TraceRootConfig>): Promise<void> {
+  const processorsReplaced = updateTracingConfig(update);
+  reconfigureLoggers();
+  await processorsReplaced;
 }
 
 /**
@@ -43,6 +122,14 @@ export function trace(options?: TraceOptions) {
   return traceDecorator(options);
 }
 
+/**
+ * Class decorator tracing all methods declared on the class.
+ * Private `_`-prefixed methods, getters and static methods are skipped by default.
+ *
+ * @param options Optional include/exclude patterns, per-method overrides and span naming
+ */
+export { traceClass } from './tracer';
+
 /**
  * Function wrapper for tracing (alternative to decorator)
  *
@@ -51,6 +138,25 @@ export function trace(options?: TraceOptions) {
  */
 export { traceFunction };
 
+/**
+ * Start a span manually and get a handle to set attributes, add events and end it.
+ *
+ * @param name Span name
+ * @param options Optional span configuration (attributes, kind, root)
+ * @returns Span handle; call end() when the work is done
+ */
+export { startSpan } from './tracer';
+
+/**
+ * Run a function (sync or async) inside a new active span.
+ * Useful for scoped work that is not a whole function, such as one loop iteration.
+ *
+ * @param name Span name
+ * @param fn Function receiving the span handle
+ * @param options Optional span configuration (attributes, kind, root)
+ */
+export { withSpan } from './tracer';
+
 /**
  * Get trace headers for the current active span to propagate trace context in HTTP requests.
  * Returns headers that can be used to maintain trace correlation across service boundaries.
@@ -59,6 +165,56 @@ export { traceFunction };
  */
 export { getTraceHeaders } from './tracer';
 
+/**
+ * Extract the remote trace context from incoming request headers.
+ * Supports W3C traceparent/tracestate, x-trace-id/x-span-id and AWS X-Ray x-amzn-trace-id.
+ *
+ * @param headers Incoming request headers
+ * @returns OpenTelemetry context with the remote parent set
+ */
+export { extractTraceContext } from './propagation';
+
+/**
+ * Run a function with the trace context extracted from incoming request headers.
+ * Spans created inside the callback become children of the remote parent span.
+ *
+ * @param headers Incoming request headers
+ * @param fn Function to run within the extracted context
+ */
+export { runWithTraceContext } from './propagation';
+
+/**
+ * Run a function with W3C Baggage entries (tenant ID, user ID, request ID...) added
+ * to the active context. Baggage is propagated by getTraceHeaders().
+ *
+ * @param entries Baggage entries to add
+ * @param fn Function to run with the baggage
+ */
+export { setBaggage } from './propagation';
+
+/**
+ * Get all baggage entries of the active context, or a single entry by key.
+ */
+export { getBaggage } from './propagation';
+
+/**
+ * Apply redaction rules to a sample value and return the redacted copy.
+ * Use in tests to check that the `redaction` config catches your sensitive data.
+ *
+ * @param input Sample attributes/metadata object, or a log message string
+ * @param config Redaction rules to apply
+ */
+export { testRedaction } from './utils/redaction';
+
+/**
+ * Read the traces recorded locally by the file span exporter (`span_file_dir`).
+ * Useful in tests and scripts to check what was traced without a backend.
+ *
+ * @param options Optional trace ID, start time and service filters, and store directory
+ * @returns Matching traces with their spans, oldest first
+ */
+export { readLocalTraces } from './exporters/fileSpanExporter';
+
 /**
  * Get the current active span ID for debugging purposes.
  *
@@ -175,9 +331,53 @@ export { forceFlushLoggerSync } from './logger';
  */
 export { shutdownLoggerSync } from './logger';
 
+/**
+ * Register a source of AWS credentials for cloud export, tried before the default
+ * TraceRoot API provider. Register providers before init().
+ */
+export {
+  registerCredentialProvider,
+  resetCredentialProviders,
+  HttpCredentialProvider,
+  StaticCredentialProvider,
+} from './api/credentialProvider';
+
+/**
+ * TraceRoot events, e.g. `events.on('credentials:refreshed', credentials => ...)` and
+ * `events.on('credentials:failed', ({ error, attempt, retryInMs }) => ...)`
+ */
+export { events, TraceRootEvents, TraceRootEventMap, CredentialsFailedEvent } from './events';
+
 // Re-export types for convenience
-export { TraceRootConfig, TraceRootConfigFile } from './config';
-export { TraceOptions, AwsCredentials } from './types';
+export {
+  TraceRootConfig,
+  TraceRootConfigFile,
+  SamplingConfig,
+  SamplingRule,
+  TailSamplingConfig,
+  SerializationConfig,
+  RedactionConfig,
+  RedactionRule,
+} from './config';
+export {
+  TraceOptions,
+  TraceClassOptions,
+  AwsCredentials,
+  StartSpanOptions,
+  TraceRootIntegration,
+  IntegrationContext,
+  CredentialProvider,
+  BufferStats,
+  InitBufferStats,
+} from './types';
+export { SpanHandle } from './tracer';
+export {
+  LocalTrace,
+  LocalSpan,
+  LocalSpanEvent,
+  ReadLocalTracesOptions,
+} from './exporters/fileSpanExporter';
+export { IncomingHeaders } from './propagation';
 export { TraceRootLogger } from './logger';
 
 // Re-export constants for convenience
@@ -188,7 +388,7 @@ export {
 } from './constants';
 
 // Auto-initialization utilities
-export { autoInitialize, shouldAutoInitialize } from './autoInit';
+export { autoInitialize, shouldAutoInitialize, ready } from './autoInit';
 
 // Import for internal use
 import { autoInitialize as _autoInitialize, shouldAutoInitialize } from './autoInit';
@@ -0,0 +1,83 @@
+/**
+ * Integrations plugged in through the `integrations` config option
+ *
+ * Integrations are set up once TraceRoot is initialized and torn down, in reverse order,
+ * when the tracer shuts down. A failing integration is reported and never breaks the SDK.
+ */
+
+import { TraceRootConfigImpl } from './config';
+import { IntegrationContext, TraceRootIntegration } from './types';
+
+// Integrations whose setup was started, in setup order
+let _activeIntegrations: TraceRootIntegration[] = [];
+
+/**
+ * Set up integrations that are not set up yet
+ *
+ * @returns Promise resolved once async setups have finished; never rejects
+ */
+export function setupIntegrations(
+  integrations: TraceRootIntegration[] | undefined,
+  config: TraceRootConfigImpl,
+  context: IntegrationContext
+): Promise<void> {
+  const pending: Promise<void>[] = [];
+
+  for (const integration of integrations || []) {
+    if (!integration || typeof integration.setup !== 'function' || !integration.name) {
+      console.warn(
+        '[TraceRoot] Skipping invalid integration: expected an object with a name and a setup() function'
+      );
+      continue;
+    }
+    if (_activeIntegrations.some(active => active.name === integration.name)) {
+      continue;
+    }
+
+    _activeIntegrations.push(integration);
+    try {
+      const result = integration.setup(config, context);
+      if (result && typeof result.then === 'function') {
+        pending.push(
+          result.catch((error: any) => {
+            console.error(
+              `[TraceRoot] Integration ${integration.name} setup failed:`,
+              error?.message || error
+            );
+          })
+        );
+      }
+    } catch (error: any) {
+      console.error(
+        `[TraceRoot] Integration ${integration.name} setup failed:`,
+        error?.message || error
+      );
+    }
+  }
+
+  return Promise.all(pending).then(() => {});
+}
+
+/**
+ * Tear down all set up integrations in reverse order
+ *
+ * @returns Promise resolved once every teardown has finished; never rejects
+ */
+export async function teardownIntegrations(): Promise<void> {
+  const integrations = _activeIntegrations.reverse();
+  _activeIntegrations = [];
+
+  for (const integration of integrations) {
+    if (typeof integration.teardown !== 'function') {
+      continue;
+    }
+    try {
+      await integration.teardown();
+    } catch (error: any) {
+      console.error(
+        `[TraceRoot] Integration ${integration.name} teardown failed:`,
+        error?.message || error
+      );
+    }
+  }
+}
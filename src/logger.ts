@@ -4,10 +4,34 @@
 
 import * as winston from 'winston';
 import WinstonCloudWatch from 'winston-cloudwatch';
-import { trace as otelTrace } from '@opentelemetry/api';
+import { trace as otelTrace, context as otelContext, AttributeValue } from '@opentelemetry/api';
 import { TraceRootConfigImpl } from './config';
-import { AwsCredentials } from './types';
-import { API_ENDPOINTS } from './constants';
+import { AwsCredentials, BufferStats } from './types';
+import { storeCachedCredentials } from './api/credentialCache';
+import { resolveCredentials } from './api/credentialProvider';
+import {
+  scheduleCredentialRefresh,
+  isCredentialRefresherRunning,
+  scheduleCredentialRetry,
+  startCredentialRefresher,
+  stopCredentialRefresher,
+} from './api/credentialRefresher';
+import { events } from './events';
+import {
+  ASYNC_INIT_BUFFER_CONFIG,
+  CREDENTIAL_REFRESH_CONFIG,
+  LOG_CONTEXT,
+  LOG_FILE_DEFAULTS,
+} from './constants';
+import { getBaggageEntries } from './propagation';
+import { setSerializedAttribute } from './utils/serialization';
+import { getRedactor } from './utils/redaction';
+import { stopConfigWatcher } from './utils/configWatcher';
+import type { OtlpLogTransport } from './transports/otlpLogTransport';
+import { RotatingFileTransport } from './transports/rotatingFileTransport';
+import { BufferedLogRecord, BufferingLogTransport } from './transports/bufferingLogTransport';
+import { BoundedBuffer } from './utils/boundedBuffer';
+import { createHttpAgent } from './utils/network';
 
 /**
  * Custom Winston format for trace correlation
@@ -17,6 +41,11 @@ const traceCorrelationFormat = (config: TraceRootConfigImpl, loggerName: string)
     // Stack trace should already be set by the logging method
     // Don't overwrite it if it's already set
 
+    // Keep the active context for the OTLP transport, which correlates records itself
+    if (config.enable_log_cloud_export && config.log_exporter === 'otlp') {
+      info[LOG_CONTEXT] = otelContext.active();
+    }
+
     const span = otelTrace.getActiveSpan();
 
     if (span) {
@@ -113,41 +142,27 @@ const traceCorrelationFormat = (config: TraceRootConfigImpl, loggerName: string)
             ]);
 
             // Collect metadata for span attributes
-            const metadataForSpanAttributes: Record<string, any> = {};
+            const spanAttributes: Record<string, AttributeValue> = {};
 
             Object.keys(info).forEach(key => {
               if (!knownProperties.has(key)) {
                 const value = info[key];
-                // Ensure metadata values are properly typed
-                if (
-                  typeof value === 'string' ||
-                  typeof value === 'number' ||
-                  typeof value === 'boolean'
-                ) {
-                  attributes[`log.${key}`] = value;
-                  metadataForSpanAttributes[key] = value;
-                } else if (value !== null && value !== undefined) {
-                  // Convert complex types to JSON strings for proper serialization
-                  try {
-                    const jsonValue = JSON.stringify(value);
-                    attributes[`log.${key}`] = jsonValue;
-                    metadataForSpanAttributes[key] = jsonValue;
-                  } catch {
-                    // Fallback to String() if JSON.stringify fails (e.g., circular references)
-                    attributes[`log.${key}`] = String(value);
-                    metadataForSpanAttributes[key] = String(value);
-                  }
+                // Primitives are kept, complex types become bounded JSON
+                if (value !== null && value !== undefined) {
+                  setSerializedAttribute(attributes, `log.${key}`, value, config.serialization);
+                  setSerializedAttribute(
+                    spanAttributes,
+                    `log.metadata.${key}`,
+                    value,
+                    config.serialization
+                  );
                 }
               }
             });
 
             // Add metadata to span as attributes for searchability (in addition to events)
             // These metadata are searchable in the TraceRoot UI
-            if (Object.keys(metadataForSpanAttributes).length > 0) {
-              const spanAttributes: Record<string, any> = {};
-              Object.keys(metadataForSpanAttributes).forEach(key => {
-                spanAttributes[`log.metadata.${key}`] = metadataForSpanAttributes[key];
-              });
+            if (Object.keys(spanAttributes).length > 0) {
               span.setAttributes(spanAttributes);
             }
 
@@ -515,6 +530,11 @@ export class TraceRootLogger {
   private config: TraceRootConfigImpl;
   public loggerName: string;
   private cloudWatchTransport: WinstonCloudWatch | null = null;
+  private otlpLogTransport: OtlpLogTransport | null = null;
+  private fileTransport: RotatingFileTransport | null = null;
+  private localTransport: winston.transport | null = null;
+  // Holds CloudWatch logs while initAsync() fetches credentials
+  private bufferTransport: BufferingLogTransport | null = null;
 
   // Child logger support
   private childContext: Record<string, any> = {};
@@ -554,16 +574,8 @@ export class TraceRootLogger {
     this.loggerName = name || config.service_name;
 
     try {
-      // Determine the effective log level based on config and export settings
-      let effectiveLevel: string;
-      if (!config.enable_log_console_export && !config.enable_log_cloud_export) {
-        effectiveLevel = 'silent';
-      } else {
-        effectiveLevel = config.log_level;
-      }
-
       this.logger = winston.createLogger({
-        level: effectiveLevel,
+        level: this.getEffectiveLogLevel(),
         format: winston.format.combine(
           winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss,SSS' }),
           traceCorrelationFormat(config, this.loggerName)(),
@@ -615,6 +627,19 @@ export class TraceRootLogger {
     return await checkAndRefreshGlobalCredentials();
   }
 
+  /**
+   * Send CloudWatch requests through the configured proxy and TLS settings
+   */
+  private applyNetworkSettings(awsConfig: any): void {
+    const httpsAgent = createHttpAgent(
+      `https://logs.${awsConfig.region}.amazonaws.com`,
+      this.config
+    );
+    if (httpsAgent) {
+      awsConfig.requestHandler = { httpsAgent };
+    }
+  }
+
   /**
    * Recreate CloudWatch transport with new credentials
    * Uses robust 3-step process:
@@ -633,6 +658,7 @@ export class TraceRootLogger {
           sessionToken: credentials.aws_session_token,
         },
       };
+      this.applyNetworkSettings(awsConfig);
 
       const logGroupName = this.config._name || this.config.service_name;
       const logStreamName =
@@ -734,59 +760,200 @@ export class TraceRootLogger {
   private setupTransports(): void {
     // Console logger for debugging (works in both local and non-local modes)
     if (this.config.enable_log_console_export) {
-      try {
-        // Create a separate logger specifically for console output - simple format with just user data
-        this.consoleLogger = winston.createLogger({
-          level: this.config.log_level,
-          format: winston.format.combine(
-            winston.format.timestamp(),
-            winston.format.colorize(),
-            winston.format.printf((info: any) => {
-              // Simple console format - timestamp, level, optional logger name, message, and user metadata
-              const loggerName = info.logger_name || this.loggerName;
-              const shouldIncludeLoggerName = loggerName && loggerName !== this.config.service_name;
-
-              const userMeta = Object.keys(info)
-                .filter(key => !['level', 'message', 'timestamp', 'logger_name'].includes(key))
-                .reduce((obj, key) => {
-                  obj[key] = info[key];
-                  return obj;
-                }, {} as any);
-
-              const metaStr =
-                Object.keys(userMeta).length > 0 ? ` ${JSON.stringify(userMeta)}` : '';
-              const loggerNameStr = shouldIncludeLoggerName ? ` [${loggerName}]` : '';
-              // Extract level without ANSI color codes for uppercase conversion
-              const rawLevel = info.level.replace(/\x1b\[[0-9;]*m/g, '');
-              const levelStr = rawLevel.toUpperCase();
-              // Reapply colors if they existed
-              const colorizedLevel = info.level.includes('\x1b[')
-                ? info.level.replace(rawLevel, levelStr)
-                : levelStr;
-              // Apply grey color to timestamp using ANSI escape code
-              const greyTimestamp = `\x1b[90m${info.timestamp}\x1b[0m`;
-              return `${greyTimestamp} [${colorizedLevel}]${loggerNameStr} ${info.message}${metaStr}`;
-            })
-          ),
-          transports: [
-            new winston.transports.Console({
-              handleExceptions: false,
-              handleRejections: false,
-            }),
-          ],
-        });
-      } catch (error: any) {
-        console.error('[TraceRoot] Failed to create console logger:', error?.message || error);
-        this.consoleLogger = null;
+      this.setupConsoleLogger();
+    }
+
+    this.setupExportTransport();
+
+    // File export works alongside any of the transports above
+    if (this.config.log_file_path) {
+      this.setupFileTransport();
+    }
+  }
+
+  private setupConsoleLogger(): void {
+    try {
+      // Create a separate logger specifically for console output - simple format with just user data
+      this.consoleLogger = winston.createLogger({
+        level: this.config.log_level,
+        format: winston.format.combine(
+          winston.format.timestamp(),
+          winston.format.colorize(),
+          winston.format.printf((info: any) => {
+            // Simple console format - timestamp, level, optional logger name, message, and user metadata
+            const loggerName = info.logger_name || this.loggerName;
+            const shouldIncludeLoggerName = loggerName && loggerName !== this.config.service_name;
+
+            const userMeta = Object.keys(info)
+              .filter(key => !['level', 'message', 'timestamp', 'logger_name'].includes(key))
+              .reduce((obj, key) => {
+                obj[key] = info[key];
+                return obj;
+              }, {} as any);
+
+            const metaStr = Object.keys(userMeta).length > 0 ? ` ${JSON.stringify(userMeta)}` : '';
+            const loggerNameStr = shouldIncludeLoggerName ? ` [${loggerName}]` : '';
+            // Extract level without ANSI color codes for uppercase conversion
+            const rawLevel = info.level.replace(/\x1b\[[0-9;]*m/g, '');
+            const levelStr = rawLevel.toUpperCase();
+            // Reapply colors if they existed
+            const colorizedLevel = info.level.includes('\x1b[')
+              ? info.level.replace(rawLevel, levelStr)
+              : levelStr;
+            // Apply grey color to timestamp using ANSI escape code
+            const greyTimestamp = `\x1b[90m${info.timestamp}\x1b[0m`;
+            return `${greyTimestamp} [${colorizedLevel}]${loggerNameStr} ${info.message}${metaStr}`;
+          })
+        ),
+        transports: [
+          new winston.transports.Console({
+            handleExceptions: false,
+            handleRejections: false,
+          }),
+        ],
+      });
+    } catch (error: any) {
+      console.error('[TraceRoot] Failed to create console logger:', error?.message || error);
+      this.consoleLogger = null;
+    }
+  }
+
+  /**
+   * Pick the transport for the mode, cloud export setting and log exporter
+   */
+  private getExportTransportType(): 'otlp' | 'cloudwatch' | 'local' {
+    if (this.config.enable_log_cloud_export && this.config.log_exporter === 'otlp') {
+      return 'otlp';
+    }
+    if (
+      !this.config.local_mode &&
+      this.config.enable_log_cloud_export &&
+      usesCloudWatch(this.config)
+    ) {
+      return 'cloudwatch';
+    }
+    return 'local';
+  }
+
+  private setupExportTransport(): void {
+    switch (this.getExportTransportType()) {
+      case 'otlp':
+        this.setupOtlpTransport();
+        break;
+      case 'cloudwatch':
+        this.setupCloudWatchTransport();
+        break;
+      default:
+        this.setupLocalTransport();
+    }
+  }
+
+  /**
+   * Remove the export transport, flushing the logs it still buffers
+   */
+  private removeExportTransport(): void {
+    if (this.otlpLogTransport) {
+      const otlpLogTransport = this.otlpLogTransport;
+      this.otlpLogTransport = null;
+      this.logger.remove(otlpLogTransport);
+      otlpLogTransport.shutdown().catch(error => {
+        console.warn('[TraceRoot] OTLP log exporter shutdown failed (non-critical):', error);
+      });
+    }
+
+    if (this.cloudWatchTransport) {
+      const cloudWatchTransport = this.cloudWatchTransport;
+      this.cloudWatchTransport = null;
+      const remove = () => {
+        try {
+          this.logger.remove(cloudWatchTransport);
+        } catch (removeError: any) {
+          console.error(
+            '[TraceRoot] Failed to remove CloudWatch transport:',
+            removeError?.message || removeError
+          );
+        }
+      };
+      if (typeof cloudWatchTransport.kthxbye === 'function') {
+        cloudWatchTransport.kthxbye(remove);
+      } else {
+        remove();
       }
     }
 
-    // Setup appropriate transport based on mode and cloud export setting
-    if (!this.config.local_mode && this.config.enable_log_cloud_export) {
-      this.setupCloudWatchTransport();
-    } else {
+    if (this.localTransport) {
+      this.logger.remove(this.localTransport);
+      this.localTransport = null;
+    }
+
+    if (this.bufferTransport) {
+      this.logger.remove(this.bufferTransport);
+      this.bufferTransport.replayTo(null);
+      this.bufferTransport = null;
+    }
+  }
+
+  /**
+   * Replace the buffer transport with the CloudWatch transport once initAsync() has fetched
+   * credentials, replaying the buffered logs into it
+   */
+  private connectExportTransport(): void {
+    const bufferTransport = this.bufferTransport;
+    if (!bufferTransport) {
+      return;
+    }
+    this.bufferTransport = null;
+    this.logger.remove(bufferTransport);
+
+    this.setupExportTransport();
+    // CloudWatch is skipped without credentials; the buffered logs are dropped in that case
+    if (!this.otlpLogTransport && !this.cloudWatchTransport && !this.localTransport) {
       this.setupLocalTransport();
     }
+    bufferTransport.replayTo(this.cloudWatchTransport);
+  }
+
+  /**
+   * Apply a runtime config change made by updateConfig(): update log levels, create or
+   * close the console logger and switch transports when cloud export is turned on or off.
+   * Child loggers share this logger's winston instance and config, so they follow along.
+   */
+  private reconfigure(): void {
+    this.logger.level = this.getEffectiveLogLevel();
+
+    if (this.config.enable_log_console_export && !this.consoleLogger) {
+      this.setupConsoleLogger();
+    } else if (!this.config.enable_log_console_export && this.consoleLogger) {
+      this.consoleLogger.close();
+      this.consoleLogger = null;
+    } else if (this.consoleLogger) {
+      this.consoleLogger.level = this.config.log_level;
+    }
+
+    const currentType = this.otlpLogTransport
+      ? 'otlp'
+      : this.cloudWatchTransport || this.bufferTransport
+        ? 'cloudwatch'
+        : 'local';
+    if (this.getExportTransportType() !== currentType) {
+      this.removeExportTransport();
+      this.setupExportTransport();
+      // CloudWatch is skipped without credentials; keep the null transport in that case
+      if (!this.otlpLogTransport && !this.cloudWatchTransport && !this.localTransport) {
+        this.setupLocalTransport();
+      }
+    }
+
+    for (const transport of [
+      this.otlpLogTransport,
+      this.cloudWatchTransport,
+      this.bufferTransport,
+      this.fileTransport,
+    ]) {
+      if (transport) {
+        transport.level = this.config.log_level;
+      }
+    }
   }
 
   private setupCloudWatchTransport(): void {
@@ -795,8 +962,12 @@ export class TraceRootLogger {
       let credentials: AwsCredentials | null = (this.config as any)._awsCredentials || null;
 
       // For synchronous initialization, use stored credentials only
-      // If no credentials available, skip CloudWatch setup
+      // If no credentials available, skip CloudWatch setup, or buffer the logs while
+      // initAsync() fetches them
       if (!credentials) {
+        if ((this.config as any)._awsCredentialsPending) {
+          this.setupBufferTransport();
+        }
         return;
       }
 
@@ -812,6 +983,7 @@ export class TraceRootLogger {
           sessionToken: credentials.aws_session_token,
         };
       }
+      this.applyNetworkSettings(awsConfig);
 
       const logGroupName = this.config._name || this.config.service_name;
       const logStreamName =
@@ -841,6 +1013,64 @@ export class TraceRootLogger {
     }
   }
 
+  private setupBufferTransport(): void {
+    try {
+      if (!_logBuffer) {
+        _logBuffer = new BoundedBuffer(ASYNC_INIT_BUFFER_CONFIG.MAX_LOG_RECORDS, 'log records');
+      }
+      const bufferTransport = new BufferingLogTransport(_logBuffer, {
+        level: this.config.log_level,
+      });
+      this.logger.add(bufferTransport);
+      this.bufferTransport = bufferTransport;
+    } catch (error: any) {
+      console.error('[TraceRoot] Failed to add log buffer transport:', error?.message || error);
+      this.bufferTransport = null;
+    }
+  }
+
+  private setupOtlpTransport(): void {
+    // OTLP export works in local mode too, e.g. against a local collector
+    try {
+      // Loaded on demand so the OpenTelemetry logs SDK is only required when used
+      const { OtlpLogTransport } = require('./transports/otlpLogTransport');
+      const otlpLogTransport: OtlpLogTransport = new OtlpLogTransport({
+        config: this.config,
+        loggerName: this.loggerName,
+        level: this.config.log_level,
+      });
+      this.logger.add(otlpLogTransport);
+      this.otlpLogTransport = otlpLogTransport;
+    } catch (error: any) {
+      console.error('[TraceRoot] Failed to add OTLP log transport:', error?.message || error);
+      this.otlpLogTransport = null;
+      this.setupLocalTransport();
+    }
+  }
+
+  private setupFileTransport(): void {
+    try {
+      const fileTransport = new RotatingFileTransport({
+        filename: this.config.log_file_path!,
+        maxSize: this.config.log_file_max_size ?? LOG_FILE_DEFAULTS.MAX_SIZE,
+        rotation: this.config.log_file_rotation ?? LOG_FILE_DEFAULTS.ROTATION,
+        maxFiles: this.config.log_file_max_files ?? LOG_FILE_DEFAULTS.MAX_FILES,
+        compress: this.config.log_file_compress ?? LOG_FILE_DEFAULTS.COMPRESS,
+        // The semicolon format matches the Python SDK and the CloudWatch messages
+        formatter:
+          (this.config.log_file_format ?? LOG_FILE_DEFAULTS.FORMAT) === 'semicolon'
+            ? (item: any) => this.formatCloudWatchMessage(item)
+            : undefined,
+        level: this.config.log_level,
+      });
+      this.logger.add(fileTransport);
+      this.fileTransport = fileTransport;
+    } catch (error: any) {
+      console.error('[TraceRoot] Failed to add log file transport:', error?.message || error);
+      this.fileTransport = null;
+    }
+  }
+
   private setupLocalTransport(): void {
     // For local mode or when cloud export is disabled, logs are handled by:
     // 1. Console output (if enable_log_console_export is true, handled in setupTransports)
@@ -854,11 +1084,26 @@ export class TraceRootLogger {
         silent: true, // Make it completely silent
       });
       this.logger.add(nullTransport);
+      this.localTransport = nullTransport;
     } catch (error: any) {
       console.error('[TraceRoot] Failed to add null transport:', error?.message || error);
     }
   }
 
+  /**
+   * Determine the effective log level based on config and export settings
+   */
+  private getEffectiveLogLevel(): string {
+    if (
+      !this.config.enable_log_console_export &&
+      !this.config.enable_log_cloud_export &&
+      !this.config.log_file_path
+    ) {
+      return 'silent';
+    }
+    return this.config.log_level;
+  }
+
   /**
    * Check if a log level should be processed based on the current configuration
    * Log level hierarchy: debug: 0, info: 1, warn: 2, error: 3, silent: 4
@@ -873,15 +1118,7 @@ export class TraceRootLogger {
       silent: 4,
     };
 
-    // Determine the effective log level based on config and export settings
-    let effectiveLevel: string;
-    if (!this.config.enable_log_console_export && !this.config.enable_log_cloud_export) {
-      effectiveLevel = 'silent';
-    } else {
-      effectiveLevel = this.config.log_level;
-    }
-
-    const currentLevelValue = logLevels[effectiveLevel] ?? 0;
+    const currentLevelValue = logLevels[this.getEffectiveLogLevel()] ?? 0;
     const requestedLevelValue = logLevels[logLevel] ?? 0;
 
     // Should process if the requested level is >= current level (and not silent)
@@ -916,10 +1153,12 @@ export class TraceRootLogger {
    * Only logs user-provided data from the original log arguments
    */
   private logToConsole(level: string, message: string, userMetadata: any): void {
-    if (this.consoleLogger) {
+    // Child loggers use the root's console logger, which updateConfig() may replace
+    const consoleLogger = this.getRootLogger().consoleLogger;
+    if (consoleLogger) {
       try {
         // Pass only the user-provided metadata (from processLogArgs)
-        (this.consoleLogger as any)[level](`${message}`, userMetadata || {});
+        (consoleLogger as any)[level](`${message}`, userMetadata || {});
       } catch (error: any) {
         console.error(`[TraceRoot] Console logger ${level} error:`, error?.message || error);
       }
@@ -983,7 +1222,18 @@ export class TraceRootLogger {
 
     // Merge child context with runtime metadata
     // Child context should not be overridable by runtime metadata (pino behavior)
-    const finalMetadata = { ...runtimeMetadata, ...this.childContext };
+    // Selected baggage entries have the lowest precedence
+    const baggageMetadata = getBaggageEntries(this.config.baggage_keys);
+    const finalMetadata = { ...baggageMetadata, ...runtimeMetadata, ...this.childContext };
+
+    // Redact before the record reaches any exporter, console or span
+    const redactor = getRedactor(this.config.redaction);
+    if (redactor) {
+      return {
+        message: redactor.redactString(message),
+        metadata: redactor.redactObject(finalMetadata),
+      };
+    }
 
     return { message, metadata: finalMetadata };
   }
@@ -1028,7 +1278,8 @@ export class TraceRootLogger {
 
     try {
       const span = otelTrace.getActiveSpan();
-      if (!span) return;
+      // Skip spans dropped by the sampler - their events would be discarded anyway
+      if (!span || !span.isRecording()) return;
 
       const spanContext = span.spanContext();
       if (
@@ -1068,20 +1319,9 @@ export class TraceRootLogger {
       if (meta) {
         Object.keys(meta).forEach(key => {
           const value = meta[key];
-          if (
-            typeof value === 'string' ||
-            typeof value === 'number' ||
-            typeof value === 'boolean'
-          ) {
-            attributes[`log.${key}`] = value;
-          } else if (value !== null && value !== undefined) {
-            // Convert complex types to JSON strings for proper serialization
-            try {
-              attributes[`log.${key}`] = JSON.stringify(value);
-            } catch {
-              // Fallback to String() if JSON.stringify fails (e.g., circular references)
-              attributes[`log.${key}`] = String(value);
-            }
+          // Primitives are kept, complex types become bounded JSON
+          if (value !== null && value !== undefined) {
+            setSerializedAttribute(attributes, `log.${key}`, value, this.config.serialization);
           }
         });
       }
@@ -1116,22 +1356,19 @@ export class TraceRootLogger {
       }
 
       // Filter and format metadata for span attributes
-      const spanAttributes: Record<string, any> = {};
+      const spanAttributes: Record<string, AttributeValue> = {};
 
       Object.keys(metadata).forEach(key => {
         const value = metadata[key];
-        // Only add primitive values as span attributes (strings, numbers, booleans)
-        if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        // Primitives are kept, complex types become bounded JSON (null/undefined are skipped)
+        if (value !== null && value !== undefined) {
           // Use a consistent prefix for log metadata attributes
-          spanAttributes[`log.metadata.${key}`] = value;
-        } else if (value !== null && value !== undefined) {
-          // Convert complex types to JSON strings for proper serialization
-          try {
-            spanAttributes[`log.metadata.${key}`] = JSON.stringify(value);
-          } catch {
-            // Fallback to String() if JSON.stringify fails (e.g., circular references)
-            spanAttributes[`log.metadata.${key}`] = String(value);
-          }
+          setSerializedAttribute(
+            spanAttributes,
+            `log.metadata.${key}`,
+            value,
+            this.config.serialization
+          );
         }
       });
 
@@ -1329,6 +1566,9 @@ export class TraceRootLogger {
       logger: this.getRootLogger().logger, // Share logger instance with root
       consoleLogger: this.getRootLogger().consoleLogger, // Share console logger
       cloudWatchTransport: null, // Child doesn't manage transports
+      otlpLogTransport: null,
+      fileTransport: null,
+      localTransport: null,
     });
 
     // Set up child context by merging parent context with new context
@@ -1359,6 +1599,16 @@ export class TraceRootLogger {
       return this.getRootLogger().flush();
     }
 
+    // File writes are synchronous; wait for rotated files still being compressed
+    if (this.fileTransport) {
+      await this.fileTransport.flush();
+    }
+
+    // OTLP log records are exported by the transport's own processor
+    if (this.otlpLogTransport) {
+      return this.otlpLogTransport.flush();
+    }
+
     // If cloud export is disabled or we're in local mode, there's nothing to flush
     if (this.config.local_mode || !this.config.enable_log_cloud_export) {
       return Promise.resolve();
@@ -1401,6 +1651,8 @@ export class TraceRootLogger {
 
 // Global configuration instance
 let _globalConfig: TraceRootConfigImpl | null = null;
+// Logs held by the buffer transports of all loggers while initAsync() fetches credentials
+let _logBuffer: BoundedBuffer<BufferedLogRecord> | null = null;
 
 /**
  * Set the global configuration for all loggers
@@ -1410,6 +1662,62 @@ export function setGlobalConfig(config: TraceRootConfigImpl): void {
   _globalConfig = config;
 }
 
+/**
+ * Apply a runtime config update to all registered loggers (see updateConfig).
+ * Loggers created with a log level override take the other changes but keep their level.
+ */
+export function reconfigureLoggers(): void {
+  if (!_globalConfig) {
+    return;
+  }
+
+  for (const logger of _loggerRegistry.values()) {
+    const config: TraceRootConfigImpl = (logger as any).config;
+    if (config !== _globalConfig) {
+      Object.assign(config, { ..._globalConfig, log_level: config.log_level });
+    }
+    try {
+      (logger as any).reconfigure();
+    } catch (error: any) {
+      console.error('[TraceRoot] Failed to reconfigure logger:', error?.message || error);
+    }
+  }
+}
+
+/**
+ * Set up the CloudWatch transports of all loggers once initAsync() has fetched credentials,
+ * replaying the logs buffered meanwhile
+ */
+export function connectBufferedLogTransports(): void {
+  for (const logger of _loggerRegistry.values()) {
+    try {
+      (logger as any).connectExportTransport();
+    } catch (error: any) {
+      console.error('[TraceRoot] Failed to connect log transport:', error?.message || error);
+    }
+  }
+}
+
+/**
+ * Usage of the log buffer initAsync() fills while fetching credentials
+ */
+export function getLogBufferStats(): BufferStats {
+  return (
+    _logBuffer?.getStats() ?? {
+      buffered: 0,
+      dropped: 0,
+      limit: ASYNC_INIT_BUFFER_CONFIG.MAX_LOG_RECORDS,
+    }
+  );
+}
+
+/**
+ * Check whether logs go to CloudWatch when cloud export is enabled (the default exporter)
+ */
+function usesCloudWatch(config: TraceRootConfigImpl): boolean {
+  return (config.log_exporter ?? 'cloudwatch') === 'cloudwatch';
+}
+
 // Logger registry for module-based instances
 const _loggerRegistry: Map<string, TraceRootLogger> = new Map();
 
@@ -1428,11 +1736,13 @@ async function checkAndRefreshGlobalCredentials(): Promise<AwsCredentials | null
     return null;
   }
 
-  // If we're in local mode or cloud export is disabled, no credentials needed
+  // If we're in local mode, cloud export is disabled or logs don't go to CloudWatch,
+  // no credentials needed
   if (
     _globalConfig.local_mode ||
     !_globalConfig.enable_span_cloud_export ||
-    !_globalConfig.enable_log_cloud_export
+    !_globalConfig.enable_log_cloud_export ||
+    !usesCloudWatch(_globalConfig)
   ) {
     return null;
   }
@@ -1441,13 +1751,17 @@ async function checkAndRefreshGlobalCredentials(): Promise<AwsCredentials | null
   let credentials: AwsCredentials | null = (_globalConfig as any)._awsCredentials || null;
 
   if (!credentials) {
-    return null;
+    // Fetched by initAsync() or retried by the background refresher, otherwise fetch them now
+    if ((_globalConfig as any)._awsCredentialsPending || isCredentialRefresherRunning()) {
+      return null;
+    }
+    return await refreshCredentials();
   }
 
   // Check if credentials are expired (30 minutes before actual expiration)
   const now = new Date();
   const expirationTime = credentials.expiration_utc;
-  const bufferTime = 30 * 60 * 1000; // 30 minutes in milliseconds
+  const bufferTime = CREDENTIAL_REFRESH_CONFIG.REFRESH_BEFORE_EXPIRY_MS;
 
   // If no expiration time, treat credentials as valid
   if (!expirationTime) {
@@ -1456,70 +1770,71 @@ async function checkAndRefreshGlobalCredentials(): Promise<AwsCredentials | null
 
   if (now.getTime() >= expirationTime.getTime() - bufferTime) {
     // AWS credentials expired or expiring soon, refreshing...
+    return await refreshCredentials();
+  }
 
-    // If there's already a refresh in progress, wait for it
-    if (_credentialsRefreshPromise) {
-      return await _credentialsRefreshPromise;
-    }
+  return credentials;
+}
 
-    // Start a new refresh
-    _credentialsRefreshPromise = refreshGlobalCredentials();
-    try {
-      const newCredentials = await _credentialsRefreshPromise;
-      return newCredentials;
-    } finally {
+/**
+ * Refresh the credentials now, or wait for the refresh already in progress
+ */
+export function refreshCredentials(): Promise<AwsCredentials | null> {
+  if (!_credentialsRefreshPromise) {
+    _credentialsRefreshPromise = refreshGlobalCredentials().finally(() => {
       _credentialsRefreshPromise = null;
-    }
+    });
   }
+  return _credentialsRefreshPromise;
+}
 
-  return credentials;
+/**
+ * Refresh the credentials in the background before they expire, see credentialRefresher
+ */
+export function startBackgroundCredentialRefresh(): void {
+  if (
+    _globalConfig &&
+    !_globalConfig.local_mode &&
+    _globalConfig.enable_span_cloud_export &&
+    // Started once initAsync() has fetched the credentials
+    !(_globalConfig as any)._awsCredentialsPending
+  ) {
+    startCredentialRefresher(refreshCredentials, (_globalConfig as any)._awsCredentials);
+  }
 }
 
 /**
  * Refresh AWS credentials globally - updates the global config so all loggers see new credentials
  */
 async function refreshGlobalCredentials(): Promise<AwsCredentials | null> {
-  if (!_globalConfig || !_globalConfig.token) {
-    // No token provided, cannot refresh credentials
+  if (!_globalConfig) {
     return null;
   }
 
   try {
-    const apiUrl = `${API_ENDPOINTS.VERIFY_CREDENTIALS}?token=${encodeURIComponent(_globalConfig.token)}`;
-
-    const response = await fetch(apiUrl, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      signal: AbortSignal.timeout(5000), // 5 second timeout
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    const credentialsData = await resolveCredentials(_globalConfig);
+    if (!credentialsData) {
+      // No provider returned credentials, e.g. no token configured
+      return null;
     }
 
-    const credentialsData = (await response.json()) as AwsCredentials;
-
-    // Ensure expiration_utc is properly parsed as UTC Date
-    if (credentialsData.expiration_utc) {
-      const expirationValue = credentialsData.expiration_utc as any;
-      const utcString =
-        typeof expirationValue === 'string'
-          ? expirationValue.endsWith('Z')
-            ? expirationValue
-            : expirationValue + 'Z'
-          : expirationValue;
-      credentialsData.expiration_utc = new Date(utcString) as any;
+    // Update global config with new credentials - all loggers will see this update.
+    // Like during initialization, the configured endpoint and log group are kept when the
+    // credentials carry none, e.g. from a provider returning only AWS keys
+    if (credentialsData.hash) {
+      (_globalConfig as any)._name = credentialsData.hash;
+    }
+    if (credentialsData.otlp_endpoint) {
+      (_globalConfig as any).otlp_endpoint = credentialsData.otlp_endpoint;
     }
-
-    // Update global config with new credentials - all loggers will see this update
-    (_globalConfig as any)._name = credentialsData.hash;
-    (_globalConfig as any).otlp_endpoint = credentialsData.otlp_endpoint;
     (_globalConfig as any)._awsCredentials = credentialsData;
+    storeCachedCredentials(_globalConfig, credentialsData);
 
-    // Recreate CloudWatch transports for ALL loggers with new credentials
+    // Recreate CloudWatch transports for ALL loggers sending logs there with new credentials
     for (const logger of _loggerRegistry.values()) {
+      if ((logger as any).getExportTransportType() !== 'cloudwatch') {
+        continue;
+      }
       try {
         (logger as any).recreateCloudWatchTransport(credentialsData);
       } catch (error: any) {
@@ -1530,10 +1845,22 @@ async function refreshGlobalCredentials(): Promise<AwsCredentials | null> {
       }
     }
 
+    // Point span export at the endpoint that came with the new credentials
+    const { _refreshCloudSpanExport } = require('./tracer');
+    _refreshCloudSpanExport();
+
     // Global credentials refreshed successfully
+    scheduleCredentialRefresh(credentialsData);
+    events.emit('credentials:refreshed', credentialsData);
     return credentialsData;
   } catch (error: any) {
     console.error('[TraceRoot] Failed to refresh AWS credentials:', error.message);
+    const { attempt, retryInMs } = scheduleCredentialRetry();
+    events.emit('credentials:failed', {
+      error: error instanceof Error ? error : new Error(String(error)),
+      attempt,
+      retryInMs,
+    });
     return null;
   }
 }
@@ -1638,6 +1965,8 @@ export function forceFlushLogger(): Promise<void> {
  * Works for both sync and async usage.
  */
 export async function shutdownLogger(): Promise<void> {
+  stopConfigWatcher();
+  stopCredentialRefresher();
   if (_loggerRegistry.size === 0) {
     return;
   }
@@ -1650,6 +1979,20 @@ export async function shutdownLogger(): Promise<void> {
     console.warn('[TraceRoot] Logger flush failed during shutdown (non-critical):', error);
   }
 
+  // Stop OTLP log exporters once their buffered records are sent
+  const otlpShutdowns: Promise<void>[] = [];
+  for (const logger of _loggerRegistry.values()) {
+    const otlpLogTransport: OtlpLogTransport | null = (logger as any).otlpLogTransport;
+    if (otlpLogTransport) {
+      otlpShutdowns.push(
+        otlpLogTransport.shutdown().catch(error => {
+          console.warn('[TraceRoot] OTLP log exporter shutdown failed (non-critical):', error);
+        })
+      );
+    }
+  }
+  await Promise.all(otlpShutdowns);
+
   // Then shutdown transports for all loggers
   for (const logger of _loggerRegistry.values()) {
     const transports = (logger as any).logger.transports;
@@ -1693,6 +2036,7 @@ export async function shutdownLogger(): Promise<void> {
 
   // Clear everything
   _globalConfig = null;
+  _logBuffer = null;
   _loggerRegistry.clear();
 }
 
@@ -1740,7 +2084,12 @@ export function forceFlushLoggerSync(): void {
     if (transports.some((t: any) => t.constructor.name === 'Console')) {
       hasConsoleTransport = true;
     }
-    if (transports.some((t: any) => t.constructor.name === 'WinstonCloudWatch')) {
+    if (
+      transports.some(
+        (t: any) =>
+          t.constructor.name === 'WinstonCloudWatch' || t.constructor.name === 'OtlpLogTransport'
+      )
+    ) {
       hasCloudWatchTransport = true;
     }
   }
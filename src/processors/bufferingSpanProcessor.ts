@@ -0,0 +1,139 @@
+/**
+ * Span processor standing in for the OTLP processor while initAsync() fetches credentials
+ *
+ * Ended spans are buffered (up to a limit, dropping the oldest) until connect() is called with
+ * the processor to export them; the buffered spans are replayed into it and later spans are
+ * forwarded to it. Spans are replayed in batches the target can queue, flushing in between.
+ * Flushing and shutting down wait a while for connect() so that short-lived processes don't lose
+ * the spans they buffered.
+ */
+
+import { Context } from '@opentelemetry/api';
+import { ReadableSpan, Span, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { ASYNC_INIT_BUFFER_CONFIG } from '../constants';
+import { BufferStats } from '../types';
+import { BoundedBuffer } from '../utils/boundedBuffer';
+
+export class BufferingSpanProcessor implements SpanProcessor {
+  private readonly buffer: BoundedBuffer<ReadableSpan>;
+  private target: SpanProcessor | null = null;
+  private connecting: boolean = false;
+  private connected: boolean = false;
+  private isShutdown: boolean = false;
+  private resolveConnected!: () => void;
+  private readonly whenConnected: Promise<void> = new Promise(resolve => {
+    this.resolveConnected = resolve;
+  });
+
+  /**
+   * @param maxSpans Spans buffered at most
+   * @param connectWaitMs How long forceFlush() and shutdown() wait for connect()
+   */
+  constructor(
+    maxSpans: number,
+    private readonly connectWaitMs: number = ASYNC_INIT_BUFFER_CONFIG.CONNECT_WAIT_MS
+  ) {
+    this.buffer = new BoundedBuffer(maxSpans, 'spans');
+  }
+
+  /**
+   * Replay the buffered spans into the target and forward later spans to it.
+   * Without a target the buffered spans are dropped.
+   *
+   * @param batchSize Spans replayed before flushing the target, at most its queue size
+   */
+  async connect(target: SpanProcessor | null, batchSize: number): Promise<void> {
+    if (this.connecting || this.connected) {
+      return;
+    }
+    this.connecting = true;
+
+    // Spans ending during the replay are buffered and replayed in the next round
+    while (target && !this.isShutdown) {
+      const spans = this.buffer.take();
+      if (spans.length === 0) {
+        break;
+      }
+      for (let i = 0; i < spans.length; i += batchSize) {
+        for (const span of spans.slice(i, i + batchSize)) {
+          target.onEnd(span);
+        }
+        // Export failures are reported by the exporter
+        await target.forceFlush().catch(() => {});
+      }
+    }
+
+    this.connected = true;
+    this.buffer.take();
+    this.resolveConnected();
+    if (this.isShutdown) {
+      // Replaced by updateConfig() while waiting, the target is not needed anymore
+      await target?.shutdown().catch(() => {});
+      return;
+    }
+    this.target = target;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getStats(): BufferStats {
+    return this.buffer.getStats();
+  }
+
+  onStart(span: Span, parentContext: Context): void {
+    this.target?.onStart(span, parentContext);
+  }
+
+  onEnd(span: ReadableSpan): void {
+    if (this.connected) {
+      this.target?.onEnd(span);
+    } else if (!this.isShutdown) {
+      this.buffer.push(span);
+    }
+  }
+
+  async forceFlush(): Promise<void> {
+    // Spans still buffered after waiting are kept for connect()
+    await this.waitForConnect();
+    await this.target?.forceFlush();
+  }
+
+  async shutdown(): Promise<void> {
+    const connected = await this.waitForConnect();
+    this.isShutdown = true;
+    const dropped = this.buffer.discard();
+    if (!connected && dropped > 0) {
+      console.warn(
+        `[TraceRoot] Dropped ${dropped} buffered spans: credentials did not arrive before shutdown`
+      );
+    }
+    await this.target?.shutdown();
+  }
+
+  /**
+   * Wait for connect() while spans are buffered, up to connectWaitMs
+   *
+   * @returns Whether connect() has finished
+   */
+  private async waitForConnect(): Promise<boolean> {
+    if (
+      this.connected ||
+      this.isShutdown ||
+      (!this.connecting && this.buffer.getStats().buffered === 0)
+    ) {
+      return this.connected;
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>(resolve => {
+      timer = setTimeout(resolve, this.connectWaitMs);
+    });
+    try {
+      await Promise.race([this.whenConnected, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+    return this.connected;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Span processor whose export processors can be replaced at runtime
+ *
+ * The tracer provider's processors are fixed once it is created, so TraceRoot registers
+ * this processor and swaps what it delegates to when updateConfig() changes span exports.
+ */
+
+import { Context } from '@opentelemetry/api';
+import { ReadableSpan, Span, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+
+export class ReconfigurableSpanProcessor implements SpanProcessor {
+  private delegates: SpanProcessor[];
+
+  constructor(delegates: SpanProcessor[]) {
+    this.delegates = delegates;
+  }
+
+  /**
+   * Replace the delegate processors. New spans go to the new processors right away;
+   * the previous processors are shut down, which exports the spans they still buffer.
+   * Spans started before the swap end on the new processors. Processors passed again are kept.
+   */
+  setDelegates(delegates: SpanProcessor[]): Promise<void> {
+    const previous = this.delegates.filter(delegate => !delegates.includes(delegate));
+    this.delegates = delegates;
+    return Promise.all(previous.map(delegate => delegate.shutdown())).then(() => {});
+  }
+
+  onStart(span: Span, parentContext: Context): void {
+    for (const delegate of this.delegates) {
+      delegate.onStart(span, parentContext);
+    }
+  }
+
+  onEnd(span: ReadableSpan): void {
+    for (const delegate of this.delegates) {
+      delegate.onEnd(span);
+    }
+  }
+
+  async forceFlush(): Promise<void> {
+    await Promise.all(this.delegates.map(delegate => delegate.forceFlush()));
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.all(this.delegates.map(delegate => delegate.shutdown()));
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Trace context and baggage propagation
+ *
+ * Reads the headers written by getTraceHeaders() on the calling side so spans
+ * created on the receiving side continue the same trace, and manages W3C Baggage
+ * entries (tenant ID, user ID, request ID...) that travel with the trace.
+ */
+
+import {
+  context as otelContext,
+  propagation as otelPropagation,
+  trace as otelTrace,
+  Context,
+  SpanContext,
+  TraceFlags,
+  createTraceState,
+  isSpanContextValid,
+} from '@opentelemetry/api';
+
+/**
+ * Incoming request headers, either a plain object (Node IncomingHttpHeaders style)
+ * or a fetch-style Headers instance
+ */
+export type IncomingHeaders =
+  | Record<string, string | string[] | undefined>
+  | { get(name: string): string | null };
+
+const TRACEPARENT_REGEX = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const TRACE_ID_REGEX = /^[0-9a-f]{32}$/;
+const SPAN_ID_REGEX = /^[0-9a-f]{16}$/;
+
+// W3C Baggage limits
+const MAX_BAGGAGE_ENTRIES = 180;
+const MAX_BAGGAGE_LENGTH = 8192;
+
+/**
+ * Extract the remote trace context from incoming headers.
+ * Supported formats, in order of precedence:
+ * 1. W3C `traceparent` / `tracestate`
+ * 2. Custom `x-trace-id` / `x-span-id`
+ * 3. AWS X-Ray `x-amzn-trace-id` (Parent or `x-span-id` provides the span ID)
+ *
+ * @returns The active context with the remote span context set as parent,
+ *          or the active context unchanged if no valid trace headers were found
+ */
+export function extractTraceContext(headers: IncomingHeaders): Context {
+  let extractedContext = otelContext.active();
+
+  // Carry incoming baggage entries along with the trace context
+  const baggageHeader = getHeader(headers, 'baggage');
+  if (baggageHeader) {
+    extractedContext = _mergeBaggage(extractedContext, parseBaggageHeader(baggageHeader));
+  }
+
+  const spanContext = extractSpanContext(headers);
+  if (!spanContext) {
+    return extractedContext;
+  }
+  return otelTrace.setSpanContext(extractedContext, spanContext);
+}
+
+/**
+ * Run a function with the trace context extracted from incoming headers.
+ * Spans started inside the callback (e.g. by traceFunction) become children of the remote parent.
+ */
+export function runWithTraceContext<T>(headers: IncomingHeaders, fn: () => T): T {
+  return otelContext.with(extractTraceContext(headers), fn);
+}
+
+/**
+ * Run a function with baggage entries added to the active context.
+ * Entries are propagated by getTraceHeaders() and, for keys listed in the
+ * `baggage_keys` config, copied into log metadata and span attributes.
+ */
+export function setBaggage<T>(entries: Record<string, string>, fn: () => T): T {
+  return otelContext.with(_mergeBaggage(otelContext.active(), entries), fn);
+}
+
+/**
+ * Get all baggage entries of the active context, or a single entry by key
+ */
+export function getBaggage(): Record<string, string>;
+export function getBaggage(key: string): string | undefined;
+export function getBaggage(key?: string): Record<string, string> | string | undefined {
+  const baggage = otelPropagation.getActiveBaggage();
+  if (key !== undefined) {
+    return baggage?.getEntry(key)?.value;
+  }
+
+  const entries: Record<string, string> = {};
+  for (const [entryKey, entry] of baggage?.getAllEntries() || []) {
+    entries[entryKey] = entry.value;
+  }
+  return entries;
+}
+
+/**
+ * Get the active baggage entries restricted to the given keys
+ */
+export function getBaggageEntries(keys: string[] | undefined): Record<string, string> {
+  if (!keys || keys.length === 0) {
+    return {};
+  }
+
+  const baggage = otelPropagation.getActiveBaggage();
+  const entries: Record<string, string> = {};
+  if (!baggage) {
+    return entries;
+  }
+  for (const key of keys) {
+    const entry = baggage.getEntry(key);
+    if (entry) {
+      entries[key] = entry.value;
+    }
+  }
+  return entries;
+}
+
+/**
+ * Serialize the active baggage as a W3C `baggage` header value
+ * Returns null when there is no baggage to propagate
+ */
+export function serializeBaggageHeader(): string | null {
+  const pairs: string[] = [];
+  let length = 0;
+
+  for (const [key, value] of Object.entries(getBaggage())) {
+    const pair = `${encodeURIComponent(key)}=${encodeURIComponent(value)}`;
+    // Drop entries that would exceed the W3C limits instead of sending an invalid header
+    if (pairs.length >= MAX_BAGGAGE_ENTRIES || length + pair.length + 1 > MAX_BAGGAGE_LENGTH) {
+      break;
+    }
+    pairs.push(pair);
+    length += pair.length + 1;
+  }
+
+  return pairs.length > 0 ? pairs.join(',') : null;
+}
+
+/**
+ * Parse a W3C `baggage` header value (entry metadata after `;` is ignored)
+ */
+export function parseBaggageHeader(header: string): Record<string, string> {
+  const entries: Record<string, string> = {};
+
+  for (const member of header.split(',')) {
+    const [pair] = member.split(';');
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex <= 0) {
+      continue;
+    }
+    try {
+      const key = decodeURIComponent(pair.substring(0, separatorIndex).trim());
+      const value = decodeURIComponent(pair.substring(separatorIndex + 1).trim());
+      if (key) {
+        entries[key] = value;
+      }
+    } catch {
+      // Skip entries with invalid percent-encoding
+    }
+  }
+
+  return entries;
+}
+
+function _mergeBaggage(baseContext: Context, entries: Record<string, string>): Context {
+  let baggage = otelPropagation.getBaggage(baseContext) || otelPropagation.createBaggage();
+  for (const [key, value] of Object.entries(entries)) {
+    baggage = baggage.setEntry(key, { value: String(value) });
+  }
+  return otelPropagation.setBaggage(baseContext, baggage);
+}
+
+/**
+ * Parse a remote span context from incoming headers
+ */
+export function extractSpanContext(headers: IncomingHeaders): SpanContext | null {
+  return (
+    _parseTraceparent(headers) || _parseCustomHeaders(headers) || _parseXRayHeader(headers) || null
+  );
+}
+
+function _parseTraceparent(headers: IncomingHeaders): SpanContext | null {
+  const traceparent = getHeader(headers, 'traceparent');
+  if (!traceparent) {
+    return null;
+  }
+
+  const match = traceparent.trim().toLowerCase().match(TRACEPARENT_REGEX);
+  // Version ff is invalid; version 00 must not carry extra fields
+  if (!match || match[1] === 'ff' || (match[1] === '00' && match[5])) {
+    return null;
+  }
+
+  const spanContext: SpanContext = {
+    traceId: match[2],
+    spanId: match[3],
+    traceFlags: parseInt(match[4], 16),
+    isRemote: true,
+  };
+
+  const tracestate = getHeader(headers, 'tracestate');
+  if (tracestate) {
+    spanContext.traceState = createTraceState(tracestate);
+  }
+
+  return isSpanContextValid(spanContext) ? spanContext : null;
+}
+
+function _parseCustomHeaders(headers: IncomingHeaders): SpanContext | null {
+  const traceId = getHeader(headers, 'x-trace-id')?.trim().toLowerCase();
+  const spanId = getHeader(headers, 'x-span-id')?.trim().toLowerCase();
+  if (!traceId || !spanId || !TRACE_ID_REGEX.test(traceId) || !SPAN_ID_REGEX.test(spanId)) {
+    return null;
+  }
+
+  const spanContext: SpanContext = {
+    traceId,
+    spanId,
+    traceFlags: TraceFlags.SAMPLED,
+    isRemote: true,
+  };
+  return isSpanContextValid(spanContext) ? spanContext : null;
+}
+
+function _parseXRayHeader(headers: IncomingHeaders): SpanContext | null {
+  const xrayHeader = getHeader(headers, 'x-amzn-trace-id');
+  if (!xrayHeader) {
+    return null;
+  }
+
+  // Format: Root=1-{8 hex}-{24 hex};Parent={16 hex};Sampled={0|1}
+  const fields: Record<string, string> = {};
+  for (const part of xrayHeader.split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) {
+      fields[key.trim().toLowerCase()] = value.trim().toLowerCase();
+    }
+  }
+
+  const rootMatch = fields['root']?.match(/^1-([0-9a-f]{8})-([0-9a-f]{24})$/);
+  if (!rootMatch) {
+    return null;
+  }
+
+  const spanId = fields['parent'] || getHeader(headers, 'x-span-id')?.trim().toLowerCase();
+  if (!spanId || !SPAN_ID_REGEX.test(spanId)) {
+    return null;
+  }
+
+  const spanContext: SpanContext = {
+    traceId: `${rootMatch[1]}${rootMatch[2]}`,
+    spanId,
+    traceFlags: fields['sampled'] === '0' ? TraceFlags.NONE : TraceFlags.SAMPLED,
+    isRemote: true,
+  };
+  return isSpanContextValid(spanContext) ? spanContext : null;
+}
+
+/**
+ * Case-insensitive header lookup; multi-value headers use the first value
+ */
+export function getHeader(headers: IncomingHeaders, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  if (typeof (headers as any).get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+  }
+
+  const record = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(record).find(headerName => headerName.toLowerCase() === name);
+  const value = key !== undefined ? record[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
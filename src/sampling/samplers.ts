@@ -0,0 +1,202 @@
+/**
+ * Head-based sampling strategies for TraceRoot
+ *
+ * Builds an OpenTelemetry Sampler from the `sampling` section of TraceRootConfig.
+ */
+
+import { Context, Link, SpanAttributes, SpanKind } from '@opentelemetry/api';
+import {
+  AlwaysOffSampler,
+  AlwaysOnSampler,
+  ParentBasedSampler,
+  Sampler,
+  SamplingDecision,
+  SamplingResult,
+  TraceIdRatioBasedSampler,
+} from '@opentelemetry/sdk-trace-base';
+import { SamplingConfig, SamplingRule } from '../config';
+import { matchesPattern } from '../utils/patterns';
+
+/**
+ * Sampler that allows at most `tracesPerSecond` new traces per second (token bucket)
+ */
+export class RateLimitingSampler implements Sampler {
+  private readonly tracesPerSecond: number;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(tracesPerSecond: number) {
+    this.tracesPerSecond = Math.max(0, tracesPerSecond);
+    this.tokens = this.tracesPerSecond;
+    this.lastRefill = Date.now();
+  }
+
+  shouldSample(): SamplingResult {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.lastRefill = now;
+
+    // Refill the bucket continuously, capped at one second worth of traces
+    this.tokens = Math.min(
+      this.tracesPerSecond,
+      this.tokens + elapsedSeconds * this.tracesPerSecond
+    );
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return { decision: SamplingDecision.RECORD_AND_SAMPLED };
+    }
+    return { decision: SamplingDecision.NOT_RECORD };
+  }
+
+  toString(): string {
+    return `RateLimitingSampler{${this.tracesPerSecond}}`;
+  }
+}
+
+/**
+ * Sampler that picks a ratio from the first rule matching the span name or start attributes
+ */
+export class RuleBasedSampler implements Sampler {
+  private readonly rules: Array<{ rule: SamplingRule; sampler: Sampler }>;
+  private readonly fallback: Sampler;
+
+  constructor(rules: SamplingRule[], defaultRatio: number = 1) {
+    this.rules = rules.map(rule => ({ rule, sampler: _createRatioSampler(rule.ratio) }));
+    this.fallback = _createRatioSampler(defaultRatio);
+  }
+
+  shouldSample(
+    context: Context,
+    traceId: string,
+    spanName: string,
+    spanKind: SpanKind,
+    attributes: SpanAttributes,
+    links: Link[]
+  ): SamplingResult {
+    for (const { rule, sampler } of this.rules) {
+      if (_matchesRule(rule, spanName, attributes)) {
+        return sampler.shouldSample(context, traceId, spanName, spanKind, attributes, links);
+      }
+    }
+    return this.fallback.shouldSample(context, traceId, spanName, spanKind, attributes, links);
+  }
+
+  toString(): string {
+    return `RuleBasedSampler{rules=${this.rules.length}, default=${this.fallback.toString()}}`;
+  }
+}
+
+/**
+ * Sampler delegating to a sampler that can be replaced at runtime by updateConfig().
+ * Defaults to the OpenTelemetry default: parent-based, always on for root spans.
+ */
+export class ReconfigurableSampler implements Sampler {
+  private delegate: Sampler;
+
+  constructor(delegate?: Sampler) {
+    this.delegate = delegate ?? _createDefaultSampler();
+  }
+
+  setDelegate(delegate?: Sampler): void {
+    this.delegate = delegate ?? _createDefaultSampler();
+  }
+
+  shouldSample(
+    context: Context,
+    traceId: string,
+    spanName: string,
+    spanKind: SpanKind,
+    attributes: SpanAttributes,
+    links: Link[]
+  ): SamplingResult {
+    return this.delegate.shouldSample(context, traceId, spanName, spanKind, attributes, links);
+  }
+
+  toString(): string {
+    return this.delegate.toString();
+  }
+}
+
+/**
+ * Create an OpenTelemetry sampler from the TraceRoot sampling configuration.
+ * Returns undefined when no sampling is configured, so the provider keeps its default.
+ * An unknown type, only reported as a warning by validation unless `strict_config` is set,
+ * is ignored the same way.
+ *
+ * Rate-limited and rule-based decisions are made on root spans only;
+ * child spans follow their parent so traces are never partially recorded.
+ */
+export function createSampler(sampling?: SamplingConfig): Sampler | undefined {
+  if (!sampling) {
+    return undefined;
+  }
+
+  switch (sampling.type) {
+    case 'always_on':
+      return new AlwaysOnSampler();
+    case 'always_off':
+      return new AlwaysOffSampler();
+    case 'ratio':
+      return _createRatioSampler(sampling.ratio ?? 1);
+    case 'parent_based':
+      return new ParentBasedSampler({
+        root: createSampler(sampling.root) ?? _createRatioSampler(sampling.ratio ?? 1),
+      });
+    case 'rate_limited':
+      return new ParentBasedSampler({
+        root: new RateLimitingSampler(sampling.traces_per_second ?? 1),
+      });
+    case 'rule_based':
+      return new ParentBasedSampler({
+        root: new RuleBasedSampler(sampling.rules || [], sampling.ratio ?? 1),
+      });
+    default: {
+      // Fails to compile when a sampling type is not handled above
+      const unknownType: never = sampling.type;
+      console.warn(`[TraceRoot] Unknown sampling type: ${unknownType}, using the default sampler`);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * The OpenTelemetry SDK default sampler: root spans are always sampled, children follow
+ */
+function _createDefaultSampler(): Sampler {
+  return new ParentBasedSampler({ root: new AlwaysOnSampler() });
+}
+
+/**
+ * Create a trace ID ratio sampler, clamping the ratio into [0, 1]
+ */
+function _createRatioSampler(ratio: number): Sampler {
+  const clamped = Math.min(1, Math.max(0, Number.isFinite(ratio) ? ratio : 1));
+  if (clamped >= 1) {
+    return new AlwaysOnSampler();
+  }
+  if (clamped <= 0) {
+    return new AlwaysOffSampler();
+  }
+  return new TraceIdRatioBasedSampler(clamped);
+}
+
+/**
+ * Check whether a rule matches the span being started.
+ * String span names support `*` wildcards; all listed attributes must be equal.
+ */
+function _matchesRule(rule: SamplingRule, spanName: string, attributes: SpanAttributes): boolean {
+  if (rule.span_name !== undefined && !matchesPattern(spanName, rule.span_name)) {
+    return false;
+  }
+
+  if (rule.attributes) {
+    for (const [key, expected] of Object.entries(rule.attributes)) {
+      if (attributes[key] !== expected) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,195 @@
+/**
+ * Tail-based sampling for TraceRoot
+ *
+ * Buffers finished spans per trace until the local root span ends, then decides
+ * whether the whole trace is forwarded to the export processors.
+ */
+
+import { Context, SpanStatusCode, trace as otelTrace } from '@opentelemetry/api';
+import { ReadableSpan, Span, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { TailSamplingConfig } from '../config';
+import { TAIL_SAMPLING_DEFAULTS } from '../constants';
+
+interface BufferedTrace {
+  spans: ReadableSpan[];
+  rootSpanIds: Set<string>;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Span processor that keeps error, slow and otherwise interesting traces,
+ * plus a configurable fraction of healthy ones.
+ */
+export class TailSamplingSpanProcessor implements SpanProcessor {
+  private readonly delegates: SpanProcessor[];
+  private readonly config: TailSamplingConfig;
+  private readonly traces: Map<string, BufferedTrace> = new Map();
+  // Decisions for traces already decided, so late spans follow their trace
+  private readonly decisions: Map<string, boolean> = new Map();
+
+  constructor(delegates: SpanProcessor[], config: TailSamplingConfig = {}) {
+    this.delegates = delegates;
+    this.config = config;
+  }
+
+  onStart(span: Span, parentContext: Context): void {
+    const traceId = span.spanContext().traceId;
+
+    if (!this.decisions.has(traceId)) {
+      const buffered = this.getOrCreateTrace(traceId);
+      const parentSpan = otelTrace.getSpan(parentContext);
+
+      // A span without a local parent is the root of this process's part of the trace
+      if (!parentSpan || parentSpan.spanContext().isRemote) {
+        buffered?.rootSpanIds.add(span.spanContext().spanId);
+      }
+    }
+
+    for (const delegate of this.delegates) {
+      delegate.onStart(span, parentContext);
+    }
+  }
+
+  onEnd(span: ReadableSpan): void {
+    const traceId = span.spanContext().traceId;
+
+    // Trace was already decided (late span or evicted trace)
+    const decision = this.decisions.get(traceId);
+    if (decision !== undefined) {
+      if (decision) {
+        this.forward([span]);
+      }
+      return;
+    }
+
+    const buffered = this.getOrCreateTrace(traceId);
+    if (!buffered) {
+      return;
+    }
+    buffered.spans.push(span);
+
+    const isRoot = buffered.rootSpanIds.has(span.spanContext().spanId) || !span.parentSpanId;
+    const maxSpans = this.config.max_spans_per_trace ?? TAIL_SAMPLING_DEFAULTS.MAX_SPANS_PER_TRACE;
+
+    if (isRoot || buffered.spans.length >= maxSpans) {
+      this.decide(traceId);
+    }
+  }
+
+  async forceFlush(): Promise<void> {
+    await Promise.all(this.delegates.map(delegate => delegate.forceFlush()));
+  }
+
+  async shutdown(): Promise<void> {
+    // Decide everything still buffered so nothing interesting is lost on exit
+    for (const traceId of Array.from(this.traces.keys())) {
+      this.decide(traceId);
+    }
+    await Promise.all(this.delegates.map(delegate => delegate.shutdown()));
+  }
+
+  /**
+   * Evaluate the tail sampling rules against all buffered spans of a trace
+   */
+  shouldKeep(spans: ReadableSpan[]): boolean {
+    const keepErrors = this.config.keep_errors ?? true;
+    const counterAttributes =
+      this.config.counter_attributes ?? TAIL_SAMPLING_DEFAULTS.COUNTER_ATTRIBUTES;
+
+    for (const span of spans) {
+      if (keepErrors && span.status.code === SpanStatusCode.ERROR) {
+        return true;
+      }
+
+      if (
+        this.config.latency_threshold_ms !== undefined &&
+        _durationMillis(span) >= this.config.latency_threshold_ms
+      ) {
+        return true;
+      }
+
+      if (counterAttributes.some(name => Number(span.attributes[name]) > 0)) {
+        return true;
+      }
+
+      // Local mode attaches error logs as span events instead of counters
+      if (
+        keepErrors &&
+        span.events.some(event => event.name === 'log.error' || event.name === 'log.critical')
+      ) {
+        return true;
+      }
+
+      if (
+        this.config.attribute_rules?.some(rule =>
+          Object.entries(rule).every(([key, expected]) => span.attributes[key] === expected)
+        )
+      ) {
+        return true;
+      }
+    }
+
+    return Math.random() < (this.config.sample_ratio ?? 0);
+  }
+
+  private getOrCreateTrace(traceId: string): BufferedTrace | null {
+    const existing = this.traces.get(traceId);
+    if (existing) {
+      return existing;
+    }
+
+    // Enforce the memory bound by deciding the oldest buffered trace early
+    const maxTraces = this.config.max_traces ?? TAIL_SAMPLING_DEFAULTS.MAX_TRACES;
+    if (maxTraces <= 0) {
+      return null;
+    }
+    while (this.traces.size >= maxTraces) {
+      const oldestTraceId = this.traces.keys().next().value as string;
+      this.decide(oldestTraceId);
+    }
+
+    const waitMillis = this.config.decision_wait_ms ?? TAIL_SAMPLING_DEFAULTS.DECISION_WAIT_MS;
+    const timer = setTimeout(() => this.decide(traceId), waitMillis);
+    // Don't keep the process alive just to wait for a root span
+    timer.unref();
+
+    const buffered: BufferedTrace = { spans: [], rootSpanIds: new Set(), timer };
+    this.traces.set(traceId, buffered);
+    return buffered;
+  }
+
+  private decide(traceId: string): void {
+    const buffered = this.traces.get(traceId);
+    if (!buffered) {
+      return;
+    }
+    clearTimeout(buffered.timer);
+    this.traces.delete(traceId);
+
+    const keep = this.shouldKeep(buffered.spans);
+    this.rememberDecision(traceId, keep);
+    if (keep) {
+      this.forward(buffered.spans);
+    }
+  }
+
+  private rememberDecision(traceId: string, keep: boolean): void {
+    const maxTraces = this.config.max_traces ?? TAIL_SAMPLING_DEFAULTS.MAX_TRACES;
+    this.decisions.set(traceId, keep);
+    while (this.decisions.size > maxTraces) {
+      this.decisions.delete(this.decisions.keys().next().value as string);
+    }
+  }
+
+  private forward(spans: ReadableSpan[]): void {
+    for (const span of spans) {
+      for (const delegate of this.delegates) {
+        delegate.onEnd(span);
+      }
+    }
+  }
+}
+
+function _durationMillis(span: ReadableSpan): number {
+  return span.duration[0] * 1000 + span.duration[1] / 1e6;
+}
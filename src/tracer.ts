@@ -1,15 +1,50 @@
-import { trace as otelTrace, SpanStatusCode, Span } from '@opentelemetry/api';
+import {
+  trace as otelTrace,
+  context as otelContext,
+  SpanStatusCode,
+  Span,
+  SpanStatus,
+  SpanContext,
+  AttributeValue,
+  Attributes,
+  INVALID_SPAN_CONTEXT,
+  Context,
+} from '@opentelemetry/api';
 import {
   NodeTracerProvider,
   BatchSpanProcessor,
   SimpleSpanProcessor,
   ConsoleSpanExporter,
   NoopSpanProcessor,
+  ReadableSpan,
+  SpanProcessor,
 } from '@opentelemetry/sdk-trace-node';
 import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
-import { Resource } from '@opentelemetry/resources';
-import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
-import { TraceRootConfig, TraceRootConfigImpl } from './config';
+import { SerializationConfig, TraceRootConfig, TraceRootConfigImpl } from './config';
+import { createSampler, ReconfigurableSampler } from './sampling/samplers';
+import { TailSamplingSpanProcessor } from './sampling/tailSampling';
+import { ReconfigurableSpanProcessor } from './processors/reconfigurableSpanProcessor';
+import { BufferingSpanProcessor } from './processors/bufferingSpanProcessor';
+import { getBaggageEntries, serializeBaggageHeader } from './propagation';
+import { isStreamingResult, wrapStreamingResult } from './utils/streams';
+import { matchesAnyPattern } from './utils/patterns';
+import { extractParams, paramsToDict } from './utils/params';
+import { getMaxDepth, isPlainObject, setSerializedAttribute } from './utils/serialization';
+import { getRedactor } from './utils/redaction';
+import { createServiceResource } from './utils/resource';
+import {
+  createProxyAgent,
+  getHttpAgentOptions,
+  useProxyAgentForOtlpExporter,
+} from './utils/network';
+import {
+  reportConfigDiagnostics,
+  validateConfig,
+  validateConfigUpdate,
+} from './utils/configValidator';
+import { FileSpanExporter } from './exporters/fileSpanExporter';
+import { stopConfigWatcher } from './utils/configWatcher';
+import { teardownIntegrations } from './integrations';
 
 // Helper functions for conditional logging
 function logVerbose(config: TraceRootConfigImpl, message: string, ...args: any[]): void {
@@ -23,12 +58,23 @@ function logVerboseError(config: TraceRootConfigImpl, message: string, ...args:
     console.error(`[TraceRoot] ${message}`, ...args);
   }
 }
-import { TraceOptions, AwsCredentials } from './types';
+import {
+  TraceOptions,
+  TraceClassOptions,
+  AwsCredentials,
+  StartSpanOptions,
+  BufferStats,
+} from './types';
 import { fetchAwsCredentialsSync } from './api/credential';
+import { getCredentialsWithCache, getCredentialsWithCacheSync } from './api/credentialCache';
+import { resolveCredentials } from './api/credentialProvider';
+import { stopCredentialRefresher } from './api/credentialRefresher';
 import {
   TELEMETRY_SDK_LANGUAGE,
   TELEMETRY_ATTRIBUTES,
   BATCH_SPAN_PROCESSOR_CONFIG,
+  ASYNC_INIT_BUFFER_CONFIG,
+  SPAN_FILE_DEFAULTS,
   TRACER_NAME,
 } from './constants';
 
@@ -36,12 +82,33 @@ import {
 let _tracerProvider: NodeTracerProvider | null = null;
 let _config: TraceRootConfigImpl | null = null;
 let _isShuttingDown: boolean = false;
+// Hold TraceRoot's span processors and sampler so updateConfig() can replace them
+let _spanProcessor: ReconfigurableSpanProcessor | null = null;
+let _sampler: ReconfigurableSampler | null = null;
+// Stands in for the OTLP processor while initAsync() fetches credentials
+let _spanBuffer: BufferingSpanProcessor | null = null;
+// Holds the OTLP processor so refreshed credentials can point it at a new endpoint
+let _cloudSpanProcessor: ReconfigurableSpanProcessor | null = null;
+
+// Options updateConfig() can change without restarting
+export const RUNTIME_CONFIG_KEYS: ReadonlyArray<keyof TraceRootConfig> = [
+  'log_level',
+  'enable_span_console_export',
+  'enable_log_console_export',
+  'enable_span_cloud_export',
+  'enable_log_cloud_export',
+  'sampling',
+  'tail_sampling',
+  'redaction',
+];
 
 export class TraceOptionsImpl implements TraceOptions {
   spanName?: string;
   spanNameSuffix?: string;
   traceParams: boolean | string[] = false;
+  paramNames?: string[];
   traceReturnValue: boolean = false;
+  serialization?: SerializationConfig;
   flattenAttributes: boolean = true;
 
   constructor(options: TraceOptions = {}) {
@@ -59,21 +126,99 @@ export class TraceOptionsImpl implements TraceOptions {
   }
 }
 
+/**
+ * Handle for a manually created span
+ * Ending the handle flushes pending log events into the span, like traced functions do
+ */
+export class SpanHandle {
+  private readonly span: Span;
+  private ended: boolean = false;
+
+  constructor(span: Span) {
+    this.span = span;
+  }
+
+  setAttribute(key: string, value: any): this {
+    if (this.span.isRecording()) {
+      _storeDictInSpan({ [key]: value }, this.span, false);
+    }
+    return this;
+  }
+
+  setAttributes(attributes: Record<string, any>): this {
+    if (this.span.isRecording()) {
+      _storeDictInSpan(attributes, this.span, false);
+    }
+    return this;
+  }
+
+  addEvent(name: string, attributes?: Attributes): this {
+    this.span.addEvent(name, attributes);
+    return this;
+  }
+
+  recordException(error: any): this {
+    this.span.recordException(error);
+    return this;
+  }
+
+  setStatus(status: SpanStatus): this {
+    this.span.setStatus(status);
+    return this;
+  }
+
+  /**
+   * End the span. Calling end() more than once has no effect.
+   */
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    _addPendingLogEvents(this.span);
+    this.span.end();
+  }
+
+  isRecording(): boolean {
+    return this.span.isRecording();
+  }
+
+  spanContext(): SpanContext {
+    return this.span.spanContext();
+  }
+
+  /**
+   * Get the underlying OpenTelemetry span
+   */
+  getSpan(): Span {
+    return this.span;
+  }
+}
+
 /**
  * Initialize TraceRoot tracing and logging (synchronous).
  *
  * This is the main entry point for setting up tracing and logging.
  * This will be called at least once at the start where TraceRoot is auto-initialized or manually initialized.
+ *
+ * @param deferCredentials Don't fetch credentials: spans for cloud export are buffered until
+ * _connectDeferredCloudExport() fetches them (used by initAsync)
  */
-export function _initializeTracing(kwargs: Partial<TraceRootConfig> = {}): NodeTracerProvider {
+export function _initializeTracing(
+  kwargs: Partial<TraceRootConfig> = {},
+  deferCredentials: boolean = false
+): NodeTracerProvider {
   // Check if already initialized
   if (_tracerProvider !== null) {
     return _tracerProvider;
   }
 
   // Prepare config first
-  const config = _prepareConfig(kwargs);
+  const config = _prepareConfig(kwargs, !deferCredentials);
   _config = config;
+  if ((config as any)._awsCredentialsPending) {
+    _spanBuffer = new BufferingSpanProcessor(ASYNC_INIT_BUFFER_CONFIG.MAX_SPANS);
+  }
 
   // Check if there's already a global tracer provider registered
   const existingProvider = _detectExistingProvider(config);
@@ -139,13 +284,21 @@ export function forceFlushTracerSync(): void {
  * Flushes pending spans AND shuts down the tracer completely.
  */
 export function shutdownTracer(): Promise<void> {
+  stopConfigWatcher();
+  stopCredentialRefresher();
   if (_tracerProvider !== null && !_isShuttingDown) {
     _isShuttingDown = true;
-    const shutdownPromise = _tracerProvider.shutdown();
+    const provider = _tracerProvider;
+    // Integrations are torn down first, they may still end spans
+    const shutdownPromise = teardownIntegrations().then(() => provider.shutdown());
     return shutdownPromise
       .then(() => {
         _tracerProvider = null;
         _config = null;
+        _spanProcessor = null;
+        _sampler = null;
+        _spanBuffer = null;
+        _cloudSpanProcessor = null;
         _isShuttingDown = false;
       })
       .catch((error: any) => {
@@ -153,6 +306,10 @@ export function shutdownTracer(): Promise<void> {
         console.error('[TraceRoot] Error during tracer shutdown:', error.message);
         _tracerProvider = null;
         _config = null;
+        _spanProcessor = null;
+        _sampler = null;
+        _spanBuffer = null;
+        _cloudSpanProcessor = null;
         _isShuttingDown = false;
         throw error;
       });
@@ -247,6 +404,88 @@ export function getConfig(): TraceRootConfigImpl | null {
   return _config;
 }
 
+/**
+ * Apply a runtime configuration update to the tracer.
+ * Span processors are rebuilt when span exports or tail sampling change, and the sampler
+ * is replaced when sampling changes. Redaction is read from the config on each use.
+ *
+ * @returns Promise resolved once the replaced span processors have exported their spans
+ * @throws When TraceRoot is not initialized or the update is invalid; nothing is applied then
+ */
+export function updateTracingConfig(update: Partial<TraceRootConfig>): Promise<void> {
+  if (_tracerProvider === null || _config === null) {
+    throw new Error('TraceRoot is not initialized. Call TraceRoot.init() first.');
+  }
+
+  // Invalid updates are never partially applied
+  reportConfigDiagnostics(validateConfigUpdate(update), true);
+  const unsupported = Object.keys(update).filter(
+    key => !RUNTIME_CONFIG_KEYS.includes(key as keyof TraceRootConfig)
+  );
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Cannot change ${unsupported.join(', ')} at runtime, only ${RUNTIME_CONFIG_KEYS.join(', ')}`
+    );
+  }
+
+  // Update the shared config object in place so the logger sees the changes.
+  // Options set to undefined go back to their defaults.
+  const config = _config;
+  const previous = { ...config };
+  const defaults = new TraceRootConfigImpl({} as TraceRootConfig);
+  for (const [key, value] of Object.entries(update)) {
+    (config as any)[key] =
+      value === undefined
+        ? (defaults as any)[key]
+        : key === 'log_level'
+          ? String(value).toLowerCase()
+          : value;
+  }
+
+  if (
+    config.enable_span_cloud_export !== previous.enable_span_cloud_export ||
+    config.enable_log_cloud_export !== previous.enable_log_cloud_export
+  ) {
+    // Credentials initAsync() is still fetching are applied once they arrive
+    _applyCloudCredentials(config, !(config as any)._awsCredentialsPending);
+  }
+
+  let processorsReplaced = Promise.resolve();
+  if (
+    _spanProcessor &&
+    (config.enable_span_cloud_export !== previous.enable_span_cloud_export ||
+      config.enable_span_console_export !== previous.enable_span_console_export ||
+      config.tail_sampling !== previous.tail_sampling)
+  ) {
+    const spanProcessors = _createTraceRootProcessors(config);
+    if (spanProcessors.length === 0) {
+      spanProcessors.push(new NoopSpanProcessor());
+    }
+    processorsReplaced = _spanProcessor.setDelegates(spanProcessors).catch((error: any) => {
+      console.error('[TraceRoot] Error shutting down replaced span processors:', error?.message);
+    });
+  }
+
+  if (config.sampling !== previous.sampling) {
+    if (_sampler) {
+      _sampler.setDelegate(createSampler(config.sampling));
+      logVerbose(config, `Using sampler: ${_sampler.toString()}`);
+    } else {
+      console.warn(
+        '[TraceRoot] Sampling cannot be changed on an existing provider enhanced by TraceRoot; configure its sampler instead'
+      );
+    }
+  }
+
+  logVerbose(config, `Configuration updated: ${Object.keys(update).join(', ')}`);
+  return processorsReplaced;
+}
+
+// Marks wrapper functions so methods are never traced twice
+const TRACED_FUNCTION = Symbol('traceroot.traced');
+
+const DEFAULT_SPAN_NAME_TEMPLATE = '{className}.{methodName}';
+
 /**
  * Decorator for tracing function execution.
  */
@@ -254,9 +493,9 @@ export function trace(options: TraceOptions = {}) {
   return function (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor) {
     const originalMethod = descriptor.value;
     const traceOptions = new TraceOptionsImpl(options);
-    descriptor.value = function (...args: any[]) {
+    descriptor.value = _markTraced(function (this: any, ...args: any[]) {
       return _traceFunction(originalMethod, traceOptions, this, args);
-    };
+    });
     return descriptor;
   };
 }
@@ -269,15 +508,172 @@ export function traceFunction<T extends (...args: any[]) => any>(
   options: TraceOptions = {}
 ): T {
   const traceOptions = new TraceOptionsImpl(options);
-  return ((...args: any[]) => {
+  return _markTraced((...args: any[]) => {
     return _traceFunction(fn, traceOptions, null, args);
   }) as T;
 }
 
+/**
+ * Class decorator tracing the methods declared on the class.
+ * Inherited methods are not wrapped; decorate the subclass and base class separately.
+ * Methods already decorated with @trace() keep their own options.
+ */
+export function traceClass(options: TraceClassOptions = {}) {
+  return function <T extends Function>(constructor: T): T {
+    _traceClassMembers(constructor.prototype, constructor.name, options);
+    if (options.traceStatic) {
+      _traceClassMembers(constructor, constructor.name, options);
+    }
+    return constructor;
+  };
+}
+
+/**
+ * Wrap the eligible methods (and optionally getters) of a prototype or constructor
+ */
+function _traceClassMembers(target: any, className: string, options: TraceClassOptions): void {
+  const {
+    include,
+    exclude,
+    methods,
+    spanNameTemplate,
+    traceGetters,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    traceStatic,
+    tracePrivate,
+    ...defaultOptions
+  } = options;
+
+  for (const methodName of Object.getOwnPropertyNames(target)) {
+    if (methodName === 'constructor') continue;
+    if (!tracePrivate && methodName.startsWith('_')) continue;
+    if (include && !matchesAnyPattern(methodName, include)) continue;
+    if (exclude && matchesAnyPattern(methodName, exclude)) continue;
+
+    const override = methods?.[methodName];
+    if (override === false) continue;
+
+    const descriptor = Object.getOwnPropertyDescriptor(target, methodName);
+    if (!descriptor || !descriptor.configurable) continue;
+
+    const traceOptions = new TraceOptionsImpl({
+      ...defaultOptions,
+      spanName: (spanNameTemplate || DEFAULT_SPAN_NAME_TEMPLATE)
+        .replace(/\{className\}/g, className)
+        .replace(/\{methodName\}/g, methodName),
+      ...override,
+    });
+
+    if (typeof descriptor.value === 'function') {
+      const originalMethod = descriptor.value;
+      if (originalMethod[TRACED_FUNCTION]) continue;
+      descriptor.value = _markTraced(function (this: any, ...args: any[]) {
+        return _traceFunction(originalMethod, traceOptions, this, args);
+      });
+    } else if (traceGetters && descriptor.get) {
+      const originalGetter = descriptor.get;
+      if ((originalGetter as any)[TRACED_FUNCTION]) continue;
+      descriptor.get = _markTraced(function (this: any) {
+        return _traceFunction(originalGetter, traceOptions, this, []);
+      });
+    } else {
+      continue;
+    }
+
+    Object.defineProperty(target, methodName, descriptor);
+  }
+}
+
+function _markTraced<T extends Function>(fn: T): T {
+  Object.defineProperty(fn, TRACED_FUNCTION, { value: true });
+  return fn;
+}
+
+/**
+ * Start a span manually. The caller is responsible for calling end() on the returned handle.
+ * The span is not made active; use withSpan() to run code with the span as the active span.
+ */
+export function startSpan(name: string, options: StartSpanOptions = {}): SpanHandle {
+  return new SpanHandle(_startSpan(name, options));
+}
+
+/**
+ * Run a function inside a new active span (sync or async).
+ * The span is ended when the function returns or its promise settles,
+ * with an error status if it throws or rejects. On success the status is set to OK
+ * unless the function already set one.
+ */
+export function withSpan<T>(
+  name: string,
+  fn: (span: SpanHandle) => T,
+  options: StartSpanOptions = {}
+): T {
+  const span = _startSpan(name, options);
+  const handle = new SpanHandle(span);
+
+  return otelContext.with(otelTrace.setSpan(otelContext.active(), span), () => {
+    // handle.end() adds the pending log events before ending the span
+    const finalizeSuccess = (value: any) => {
+      // Non-recording spans have no status
+      const status = (span as Partial<ReadableSpan>).status;
+      if (status?.code === SpanStatusCode.UNSET) {
+        span.setStatus({ code: SpanStatusCode.OK });
+      }
+      handle.end();
+      return value;
+    };
+    const finalizeError = (error: any) => {
+      span.recordException(error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error?.message });
+      handle.end();
+    };
+
+    try {
+      const result: any = fn(handle);
+      if (result && typeof result.then === 'function') {
+        return result.then(finalizeSuccess, (error: any) => {
+          finalizeError(error);
+          throw error;
+        });
+      }
+      return finalizeSuccess(result);
+    } catch (error: any) {
+      finalizeError(error);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Start an OpenTelemetry span with the TraceRoot base attributes
+ * Returns a non-recording span when tracing is not initialized
+ */
+function _startSpan(name: string, options: StartSpanOptions): Span {
+  if (!isInitialized() || !_config) {
+    return otelTrace.wrapSpanContext(INVALID_SPAN_CONTEXT);
+  }
+
+  const tracer = otelTrace.getTracer(TRACER_NAME);
+  return tracer.startSpan(name, {
+    kind: options.kind,
+    root: options.root,
+    // Start attributes are visible to sampling rules
+    attributes: {
+      ..._getBaseSpanAttributes(_config),
+      ..._serializeDict(options.attributes || {}, false),
+    },
+  });
+}
+
 /**
  * Prepare and validate TraceRoot configuration
+ *
+ * @param fetchCredentials Fetch the credentials for cloud export, otherwise mark them pending
  */
-function _prepareConfig(kwargs: Partial<TraceRootConfig> = {}): TraceRootConfigImpl {
+function _prepareConfig(
+  kwargs: Partial<TraceRootConfig> = {},
+  fetchCredentials: boolean = true
+): TraceRootConfigImpl {
   // Merge file config with kwargs (kwargs take precedence)
   let configParams: Partial<TraceRootConfig> = kwargs;
 
@@ -285,6 +681,9 @@ function _prepareConfig(kwargs: Partial<TraceRootConfig> = {}): TraceRootConfigI
     throw new Error('No configuration provided for TraceRoot initialization');
   }
 
+  // Report unknown options, invalid values and conflicting settings
+  reportConfigDiagnostics(validateConfig(configParams), configParams.strict_config);
+
   // Fill in missing fields with some default values if not provided
   if (!configParams.service_name) {
     configParams.service_name = 'default-service';
@@ -300,38 +699,111 @@ function _prepareConfig(kwargs: Partial<TraceRootConfig> = {}): TraceRootConfigI
   }
 
   const config = new TraceRootConfigImpl(configParams as TraceRootConfig);
+  _applyCloudCredentials(config, fetchCredentials);
+  return config;
+}
 
+/**
+ * Fetch AWS credentials when span cloud export is enabled and store them in the config
+ *
+ * @param fetchCredentials Fetch them now, otherwise mark them pending for
+ * _connectDeferredCloudExport()
+ */
+function _applyCloudCredentials(config: TraceRootConfigImpl, fetchCredentials = true): void {
   // If not in local mode and cloud export is enabled, fetch AWS credentials
   if (!config.local_mode && config.enable_span_cloud_export) {
-    const credentials: AwsCredentials | null = fetchAwsCredentialsSync(config);
-    if (credentials) {
-      logVerbose(
+    if (fetchCredentials) {
+      _storeCloudCredentials(
         config,
-        `Credentials fetched successfully for token: ${config.token?.substring(0, 20)}... → ${credentials.otlp_endpoint}`
+        getCredentialsWithCacheSync(config, () => fetchAwsCredentialsSync(config))
       );
+    } else {
+      (config as any)._awsCredentialsPending = true;
+    }
+  } else if (
+    !config.enable_span_cloud_export &&
+    (config.log_exporter ?? 'cloudwatch') === 'cloudwatch'
+  ) {
+    // If span cloud export is disabled, also disable CloudWatch log export (shared credentials)
+    config.enable_log_cloud_export = false;
+  }
+}
 
-      // Update config with fetched credentials
-      if (credentials.hash) {
-        config._name = credentials.hash;
-      }
+/**
+ * Store fetched credentials and the endpoint and log group they come with in the config
+ */
+function _storeCloudCredentials(
+  config: TraceRootConfigImpl,
+  credentials: AwsCredentials | null
+): void {
+  if (!credentials) {
+    return;
+  }
+  logVerbose(
+    config,
+    `Credentials fetched successfully for token: ${config.token?.substring(0, 20)}... → ${credentials.otlp_endpoint}`
+  );
 
-      if (credentials.otlp_endpoint) {
-        config.otlp_endpoint = credentials.otlp_endpoint;
-      } else {
-        logVerbose(config, `No endpoint in credentials, keeping default: ${config.otlp_endpoint}`);
-      }
+  // Update config with fetched credentials
+  if (credentials.hash) {
+    config._name = credentials.hash;
+  }
 
-      // Store credentials in config for logger to use later (only if cloud logging is enabled)
-      if (config.enable_log_cloud_export) {
-        (config as any)._awsCredentials = credentials;
-      }
-    }
-  } else if (!config.enable_span_cloud_export) {
-    // If span cloud export is disabled, also disable log cloud export
-    config.enable_log_cloud_export = false;
+  if (credentials.otlp_endpoint) {
+    config.otlp_endpoint = credentials.otlp_endpoint;
+  } else {
+    logVerbose(config, `No endpoint in credentials, keeping default: ${config.otlp_endpoint}`);
   }
 
-  return config;
+  // Store credentials in config for the logger (CloudWatch) and the background refresh
+  (config as any)._awsCredentials = credentials;
+}
+
+/**
+ * Fetch the credentials initAsync() deferred, then connect the OTLP exporter and replay the
+ * spans buffered meanwhile. Without credentials the exporter uses the configured endpoint,
+ * like init() does.
+ */
+export async function _connectDeferredCloudExport(): Promise<void> {
+  const config = _config;
+  const spanBuffer = _spanBuffer;
+  if (!config || !(config as any)._awsCredentialsPending) {
+    return;
+  }
+
+  let credentials: AwsCredentials | null = null;
+  try {
+    credentials = await getCredentialsWithCache(config, () => resolveCredentials(config));
+  } catch (error: any) {
+    console.error('[TraceRoot] Failed to fetch AWS credentials:', error?.message || error);
+  }
+  if (_config !== config) {
+    // Shut down while fetching
+    return;
+  }
+
+  delete (config as any)._awsCredentialsPending;
+  if (config.enable_span_cloud_export) {
+    _storeCloudCredentials(config, credentials);
+  }
+  await spanBuffer?.connect(
+    config.enable_span_cloud_export ? _createCloudSpanProcessor(config) : null,
+    BATCH_SPAN_PROCESSOR_CONFIG.MAX_QUEUE_SIZE
+  );
+  logVerbose(config, 'Cloud export connected after async initialization');
+}
+
+/**
+ * Usage of the span buffer initAsync() fills while fetching credentials
+ */
+export function getSpanBufferStats(): BufferStats {
+  return (
+    _spanBuffer?.getStats() ?? {
+      buffered: 0,
+      dropped: 0,
+      limit: ASYNC_INIT_BUFFER_CONFIG.MAX_SPANS,
+    }
+  );
 }
 
 /**
@@ -373,8 +845,9 @@ function _enhanceExistingProvider(
   existingProvider: NodeTracerProvider,
   config: TraceRootConfigImpl
 ): NodeTracerProvider {
-  // Create TraceRoot's processors
+  // Create TraceRoot's processors, added behind one processor so updateConfig() can rebuild them
   const traceRootProcessors = _createTraceRootProcessors(config);
+  const spanProcessor = new ReconfigurableSpanProcessor(traceRootProcessors);
   logVerbose(
     config,
     `Enhancing ${existingProvider.constructor.name} with ${traceRootProcessors.length} TraceRoot processors`
@@ -391,10 +864,7 @@ function _enhanceExistingProvider(
     if (typeof (existingProvider as any).addSpanProcessor === 'function') {
       logVerbose(config, `ProxyTracerProvider has addSpanProcessor method, using it directly`);
 
-      for (const processor of traceRootProcessors) {
-        (existingProvider as any).addSpanProcessor(processor);
-      }
-
+      (existingProvider as any).addSpanProcessor(spanProcessor);
       _tracerProvider = existingProvider;
     } else {
       // Fallback: access delegate if proxy doesn't support addSpanProcessor
@@ -412,9 +882,7 @@ function _enhanceExistingProvider(
       }
 
       if (actualProvider) {
-        for (const processor of traceRootProcessors) {
-          actualProvider.addSpanProcessor(processor);
-        }
+        actualProvider.addSpanProcessor(spanProcessor);
         logVerbose(config, `Added ${traceRootProcessors.length} processors to delegate provider`);
         _tracerProvider = actualProvider;
       } else {
@@ -427,9 +895,7 @@ function _enhanceExistingProvider(
     }
   } else {
     // For real NodeTracerProvider, add processors directly
-    for (const processor of traceRootProcessors) {
-      existingProvider.addSpanProcessor(processor);
-    }
+    existingProvider.addSpanProcessor(spanProcessor);
     logVerbose(
       config,
       `Added ${traceRootProcessors.length} processors to ${existingProvider.constructor.name}`
@@ -437,7 +903,14 @@ function _enhanceExistingProvider(
     _tracerProvider = existingProvider;
   }
 
+  _spanProcessor = spanProcessor;
   setupProcessExitHandlers();
+  if (config.sampling) {
+    logVerbose(
+      config,
+      'Sampling config is ignored when enhancing an existing provider; configure its sampler instead'
+    );
+  }
   logVerbose(config, 'Tracer initialized (enhanced existing provider with TraceRoot processors)');
   return _tracerProvider;
 }
@@ -446,44 +919,30 @@ function _enhanceExistingProvider(
  * Create a new NodeTracerProvider with TraceRoot configuration
  */
 function _createNewProvider(config: TraceRootConfigImpl): NodeTracerProvider {
-  // If both span exports are disabled, create minimal no-op tracer
-  if (!config.enable_span_cloud_export && !config.enable_span_console_export) {
-    _tracerProvider = new NodeTracerProvider({
-      resource: Resource.default(),
-      spanProcessors: [new NoopSpanProcessor()],
-    });
-
-    // Register the no-op tracer provider globally
-    _tracerProvider.register();
-
-    setupProcessExitHandlers();
-    return _tracerProvider;
-  }
-
-  // Create resource with service information using new semantic conventions
-  const resource = Resource.default().merge(
-    new Resource({
-      [ATTR_SERVICE_NAME]: config.service_name,
-      [ATTR_SERVICE_VERSION]: config.github_commit_hash,
-      'service.github_owner': config.github_owner,
-      'service.github_repo_name': config.github_repo_name,
-      'service.environment': config.environment,
-      [TELEMETRY_ATTRIBUTES.SDK_LANGUAGE]: TELEMETRY_SDK_LANGUAGE,
-    })
-  );
+  // If all span exports are disabled, use a no-op processor until updateConfig() enables one
+  const exportsDisabled =
+    !config.enable_span_cloud_export && !config.enable_span_console_export && !config.span_file_dir;
 
   // Create span processors using the helper function
-  const spanProcessors = _createTraceRootProcessors(config);
+  const spanProcessors = exportsDisabled ? [] : _createTraceRootProcessors(config);
 
   // If no processors created (all exports disabled), add NoopSpanProcessor
   if (spanProcessors.length === 0) {
     spanProcessors.push(new NoopSpanProcessor());
   }
+  _spanProcessor = new ReconfigurableSpanProcessor(spanProcessors);
+
+  // Create the sampler from config (undefined keeps the default parent-based always-on sampler)
+  _sampler = new ReconfigurableSampler(createSampler(config.sampling));
+  if (config.sampling) {
+    logVerbose(config, `Using sampler: ${_sampler.toString()}`);
+  }
 
-  // Create and configure the tracer provider with span processors
+  // Create and configure the tracer provider, with a resource describing the service
   _tracerProvider = new NodeTracerProvider({
-    resource: resource,
-    spanProcessors: spanProcessors,
+    resource: createServiceResource(config),
+    spanProcessors: [_spanProcessor],
+    sampler: _sampler,
   });
 
   // Register the tracer provider globally
@@ -492,53 +951,89 @@ function _createNewProvider(config: TraceRootConfigImpl): NodeTracerProvider {
   // Set up automatic cleanup on process exit
   setupProcessExitHandlers();
 
-  logVerbose(config, 'Tracer initialized through new provider');
+  if (!exportsDisabled) {
+    logVerbose(config, 'Tracer initialized through new provider');
+  }
   return _tracerProvider;
 }
 
 /**
- * Helper function to create TraceRoot span processors
+ * Create the span processor exporting to the OTLP endpoint, replaced by
+ * _refreshCloudSpanExport() when credentials are refreshed
  */
-function _createTraceRootProcessors(config: TraceRootConfigImpl): any[] {
-  const spanProcessors = [];
-
-  // Create main span processor based on cloud export configuration
-  if (config.enable_span_cloud_export) {
-    logVerbose(config, `Creating OTLP exporter for: ${config.otlp_endpoint}`);
+function _createCloudSpanProcessor(config: TraceRootConfigImpl): SpanProcessor {
+  _cloudSpanProcessor = new ReconfigurableSpanProcessor([_createOtlpSpanProcessor(config)]);
+  return _cloudSpanProcessor;
+}
 
-    // Create trace exporter for cloud export
-    const traceExporter = new OTLPTraceExporter({
-      url: config.otlp_endpoint,
+/**
+ * Recreate the OTLP exporter with the endpoint from refreshed credentials. Spans it still
+ * buffers are exported to the previous endpoint first.
+ */
+export function _refreshCloudSpanExport(): Promise<void> {
+  if (!_config || !_cloudSpanProcessor || !_config.enable_span_cloud_export) {
+    return Promise.resolve();
+  }
+  logVerbose(_config, `Reconnecting OTLP exporter to: ${_config.otlp_endpoint}`);
+  return _cloudSpanProcessor
+    .setDelegates([_createOtlpSpanProcessor(_config)])
+    .catch((error: any) => {
+      console.error('[TraceRoot] Error shutting down replaced OTLP exporter:', error?.message);
     });
+}
 
-    // Wrap the export method to add error logging with source identification
-    const originalExport = traceExporter.export.bind(traceExporter);
-    traceExporter.export = function (spans, resultCallback) {
-      const wrappedCallback = (result: any) => {
-        if (result.code !== 0) {
-          logVerboseError(config, `Export failed:`, {
-            code: result.code,
-            error: result.error?.message || result.error,
-            endpoint: config.otlp_endpoint,
-          });
-        }
-        resultCallback(result);
-      };
+function _createOtlpSpanProcessor(config: TraceRootConfigImpl): SpanProcessor {
+  logVerbose(config, `Creating OTLP exporter for: ${config.otlp_endpoint}`);
 
-      return originalExport(spans, wrappedCallback);
+  // Create trace exporter for cloud export
+  const traceExporter = new OTLPTraceExporter({
+    url: config.otlp_endpoint,
+    httpAgentOptions: getHttpAgentOptions(config),
+  });
+  useProxyAgentForOtlpExporter(traceExporter, createProxyAgent(config.otlp_endpoint, config));
+
+  // Wrap the export method to add error logging with source identification
+  const originalExport = traceExporter.export.bind(traceExporter);
+  traceExporter.export = function (spans, resultCallback) {
+    const wrappedCallback = (result: any) => {
+      if (result.code !== 0) {
+        logVerboseError(config, `Export failed:`, {
+          code: result.code,
+          error: result.error?.message || result.error,
+          endpoint: config.otlp_endpoint,
+        });
+      }
+      resultCallback(result);
     };
 
-    // Create span processor
-    const spanProcessor = config.local_mode
-      ? new SimpleSpanProcessor(traceExporter)
-      : new BatchSpanProcessor(traceExporter, {
-          maxExportBatchSize: BATCH_SPAN_PROCESSOR_CONFIG.MAX_EXPORT_BATCH_SIZE,
-          exportTimeoutMillis: BATCH_SPAN_PROCESSOR_CONFIG.EXPORT_TIMEOUT_MILLIS,
-          scheduledDelayMillis: BATCH_SPAN_PROCESSOR_CONFIG.SCHEDULED_DELAY_MILLIS,
-          maxQueueSize: BATCH_SPAN_PROCESSOR_CONFIG.MAX_QUEUE_SIZE,
-        });
+    return originalExport(spans, wrappedCallback);
+  };
+
+  // Create span processor
+  const spanProcessor = config.local_mode
+    ? new SimpleSpanProcessor(traceExporter)
+    : new BatchSpanProcessor(traceExporter, {
+        maxExportBatchSize: BATCH_SPAN_PROCESSOR_CONFIG.MAX_EXPORT_BATCH_SIZE,
+        exportTimeoutMillis: BATCH_SPAN_PROCESSOR_CONFIG.EXPORT_TIMEOUT_MILLIS,
+        scheduledDelayMillis: BATCH_SPAN_PROCESSOR_CONFIG.SCHEDULED_DELAY_MILLIS,
+        maxQueueSize: BATCH_SPAN_PROCESSOR_CONFIG.MAX_QUEUE_SIZE,
+      });
+
+  return spanProcessor;
+}
 
-    spanProcessors.push(spanProcessor);
+/**
+ * Helper function to create TraceRoot span processors
+ */
+function _createTraceRootProcessors(config: TraceRootConfigImpl): any[] {
+  const spanProcessors = [];
+
+  // Create main span processor based on cloud export configuration, buffering spans
+  // while initAsync() fetches credentials
+  if (config.enable_span_cloud_export) {
+    spanProcessors.push(
+      _spanBuffer && !_spanBuffer.isConnected() ? _spanBuffer : _createCloudSpanProcessor(config)
+    );
   } else {
     logVerbose(config, `Cloud export disabled - no OTLP processor created`);
   }
@@ -557,10 +1052,33 @@ function _createTraceRootProcessors(config: TraceRootConfigImpl): any[] {
     spanProcessors.push(consoleProcessor);
   }
 
+  // If a local span directory is set, also record spans to files for offline debugging
+  if (config.span_file_dir) {
+    const fileExporter = new FileSpanExporter(
+      config.span_file_dir,
+      config.span_file_format ?? SPAN_FILE_DEFAULTS.FORMAT
+    );
+    const fileProcessor = config.local_mode
+      ? new SimpleSpanProcessor(fileExporter)
+      : new BatchSpanProcessor(fileExporter, {
+          maxExportBatchSize: BATCH_SPAN_PROCESSOR_CONFIG.MAX_EXPORT_BATCH_SIZE,
+          exportTimeoutMillis: BATCH_SPAN_PROCESSOR_CONFIG.EXPORT_TIMEOUT_MILLIS,
+          scheduledDelayMillis: BATCH_SPAN_PROCESSOR_CONFIG.SCHEDULED_DELAY_MILLIS,
+          maxQueueSize: BATCH_SPAN_PROCESSOR_CONFIG.MAX_QUEUE_SIZE,
+        });
+    spanProcessors.push(fileProcessor);
+  }
+
   logVerbose(
     config,
-    `Created ${spanProcessors.length} span processors (OTLP: ${config.enable_span_cloud_export}, Console: ${config.enable_span_console_export})`
+    `Created ${spanProcessors.length} span processors (OTLP: ${config.enable_span_cloud_export}, Console: ${config.enable_span_console_export}, File: ${!!config.span_file_dir})`
   );
+
+  // Buffer spans per trace and only forward the traces kept by tail sampling
+  if (config.tail_sampling && spanProcessors.length > 0) {
+    logVerbose(config, 'Tail sampling enabled, wrapping span processors');
+    return [new TailSamplingSpanProcessor(spanProcessors, config.tail_sampling)];
+  }
   return spanProcessors;
 }
 
@@ -568,7 +1086,8 @@ function _createTraceRootProcessors(config: TraceRootConfigImpl): any[] {
  * Helper function to add pending log events to span
  */
 function _addPendingLogEvents(span: Span): void {
-  if ((span as any)._pendingLogEvents) {
+  // Unsampled spans drop events anyway, skip the work
+  if ((span as any)._pendingLogEvents && span.isRecording()) {
     for (const event of (span as any)._pendingLogEvents) {
       span.addEvent(event.name, event.attributes, event.timestamp);
     }
@@ -580,7 +1099,12 @@ function _addPendingLogEvents(span: Span): void {
  */
 function _finalizeSpanSuccess(span: Span, returnValue: any, options: TraceOptionsImpl): any {
   if (options.traceReturnValue) {
-    _storeDictInSpan({ return: returnValue }, span, options.flattenAttributes);
+    _storeDictInSpan(
+      { return: returnValue },
+      span,
+      options.flattenAttributes,
+      options.serialization
+    );
   }
   _addPendingLogEvents(span);
   span.setStatus({ code: SpanStatusCode.OK });
@@ -598,6 +1122,62 @@ function _finalizeSpanError(span: Span, error: any): void {
   span.end();
 }
 
+/**
+ * Keep the span open until a generator or stream result is fully consumed or fails,
+ * recording the number of items and the time to the first item
+ */
+function _traceStreamingResult<T>(span: Span, result: T, spanContext: Context): T {
+  const startTime = Date.now();
+  let itemCount = 0;
+  let timeToFirstItem: number | undefined;
+
+  const recordStreamAttributes = () => {
+    span.setAttribute('stream.item_count', itemCount);
+    if (timeToFirstItem !== undefined) {
+      span.setAttribute('stream.time_to_first_item_ms', timeToFirstItem);
+    }
+  };
+
+  return wrapStreamingResult(result, spanContext, {
+    onItem: () => {
+      if (itemCount === 0) {
+        timeToFirstItem = Date.now() - startTime;
+      }
+      itemCount++;
+    },
+    onComplete: () => {
+      recordStreamAttributes();
+      _addPendingLogEvents(span);
+      span.setStatus({ code: SpanStatusCode.OK });
+      span.end();
+    },
+    onError: (error: any) => {
+      recordStreamAttributes();
+      _finalizeSpanError(span, error);
+    },
+  });
+}
+
+/**
+ * Build the attributes TraceRoot sets on every span it creates
+ */
+function _getBaseSpanAttributes(config: TraceRootConfigImpl): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  // Set AWS X-Ray annotations as individual attributes
+  if (!config.local_mode && config._name) {
+    attributes['hash'] = config._name;
+  }
+  attributes['service_name'] = config.service_name;
+  attributes['service_environment'] = config.environment;
+  attributes[TELEMETRY_ATTRIBUTES.SDK_LANGUAGE_UNDERSCORE] = TELEMETRY_SDK_LANGUAGE;
+
+  // Copy selected baggage entries (tenant ID, user ID...) for cross-service correlation
+  Object.assign(attributes, getBaggageEntries(config.baggage_keys));
+
+  return attributes;
+}
+
 /**
  * Internal function for tracing execution
  */
@@ -612,20 +1192,17 @@ function _traceFunction(fn: Function, options: TraceOptionsImpl, thisArg: any, a
 
   return tracer.startActiveSpan(spanName, (span: Span) => {
     try {
-      // Set AWS X-Ray annotations as individual attributes
-      if (!_config!.local_mode && _config!._name) {
-        span.setAttribute('hash', _config!._name);
-      }
-      span.setAttribute('service_name', _config!.service_name);
-      span.setAttribute('service_environment', _config!.environment);
-      span.setAttribute(TELEMETRY_ATTRIBUTES.SDK_LANGUAGE_UNDERSCORE, TELEMETRY_SDK_LANGUAGE);
-
-      // Add parameter attributes if requested
-      if (options.traceParams) {
-        const parameterValues = _paramsToDict(fn, options.traceParams, args);
-        _storeDictInSpan(parameterValues, span, options.flattenAttributes);
+      span.setAttributes(_getBaseSpanAttributes(_config!));
+
+      // Add parameter attributes if requested (skipped for spans dropped by the sampler)
+      if (options.traceParams && span.isRecording()) {
+        const parameterValues = _paramsToDict(fn, options, args);
+        _storeDictInSpan(parameterValues, span, options.flattenAttributes, options.serialization);
       }
 
+      // Context with this span active, used to run lazily produced stream items
+      const spanContext = otelContext.active();
+
       // Execute the function
       let result: any;
       if (fn.constructor.name === 'AsyncFunction') {
@@ -634,6 +1211,9 @@ function _traceFunction(fn: Function, options: TraceOptionsImpl, thisArg: any, a
         if (result && typeof result.then === 'function') {
           return result
             .then((value: any) => {
+              if (isStreamingResult(value)) {
+                return _traceStreamingResult(span, value, spanContext);
+              }
               return _finalizeSpanSuccess(span, value, options);
             })
             .catch((error: any) => {
@@ -646,6 +1226,11 @@ function _traceFunction(fn: Function, options: TraceOptionsImpl, thisArg: any, a
         result = fn.apply(thisArg, args);
       }
 
+      // Generators and streams keep the span open until they are consumed
+      if (isStreamingResult(result)) {
+        return _traceStreamingResult(span, result, spanContext);
+      }
+
       return _finalizeSpanSuccess(span, result, options);
     } catch (error: any) {
       _finalizeSpanError(span, error);
@@ -671,6 +1256,12 @@ export function writeAttributesToCurrentSpan(attributes: Record<string, any>): v
 export function getTraceHeaders(): Record<string, string> {
   const headers: Record<string, string> = {};
 
+  // W3C Baggage travels independently of the active span
+  const baggageHeader = serializeBaggageHeader();
+  if (baggageHeader) {
+    headers['baggage'] = baggageHeader;
+  }
+
   const span = otelTrace.getActiveSpan();
   if (!span) {
     return headers;
@@ -718,35 +1309,17 @@ export function getTraceHeaders(): Record<string, string> {
  */
 function _paramsToDict(
   func: Function,
-  paramsToTrack: boolean | string[],
+  options: TraceOptionsImpl,
   args: any[]
 ): Record<string, any> {
-  try {
-    const result: Record<string, any> = {};
-
-    // Get parameter names from function string (basic approach)
-    const funcStr = func.toString();
-    const match = funcStr.match(/\(([^)]*)\)/);
-    if (!match) return result;
-
-    const paramNames = match[1]
-      .split(',')
-      .map(param => param.trim().split(/[=\s]/)[0])
-      .filter(name => name && name !== 'this');
-
-    const shouldTrackKey = (key: string): boolean => {
-      if (key === 'this') return false;
-      if (typeof paramsToTrack === 'boolean') return paramsToTrack;
-      return paramsToTrack.includes(key);
-    };
-
-    paramNames.forEach((name, index) => {
-      if (shouldTrackKey(name) && index < args.length) {
-        result[`params.${name}`] = args[index];
-      }
-    });
+  const paramsToTrack = options.traceParams;
+  const shouldTrackKey = (key: string): boolean => {
+    if (typeof paramsToTrack === 'boolean') return paramsToTrack;
+    return paramsToTrack.includes(key);
+  };
 
-    return result;
+  try {
+    return paramsToDict(extractParams(func, options.paramNames), args, shouldTrackKey);
   } catch {
     return {};
   }
@@ -755,34 +1328,64 @@ function _paramsToDict(
 /**
  * Store a dictionary in a span as attributes, optionally flattening it
  */
-function _storeDictInSpan(data: Record<string, any>, span: Span, flatten: boolean = true): void {
-  let processedData = data;
+function _storeDictInSpan(
+  data: Record<string, any>,
+  span: Span,
+  flatten: boolean = true,
+  serialization?: SerializationConfig
+): void {
+  span.setAttributes(_serializeDict(data, flatten, serialization));
+}
+
+/**
+ * Convert a dictionary into span attribute values, optionally flattening it.
+ * Redaction rules run first; values are serialized with the configured policy,
+ * overridden per call if given.
+ */
+function _serializeDict(
+  data: Record<string, any>,
+  flatten: boolean = true,
+  serialization?: SerializationConfig
+): Record<string, AttributeValue> {
+  const policy = { ..._config?.serialization, ...serialization };
+  const redactor = getRedactor(_config?.redaction);
+  let processedData = redactor ? redactor.redactObject(data) : data;
 
   if (flatten) {
-    processedData = _flattenDict(data);
+    processedData = _flattenDict(processedData, '_', getMaxDepth(policy));
   }
 
-  // Convert all values to strings and handle null/undefined
-  const serializedData: Record<string, string> = {};
+  // Null/undefined are recorded as 'null' so the key stays visible
+  const serializedData: Record<string, AttributeValue> = {};
   for (const [key, value] of Object.entries(processedData)) {
-    serializedData[key] = value !== null && value !== undefined ? String(value) : 'null';
+    setSerializedAttribute(
+      serializedData,
+      key,
+      value !== null && value !== undefined ? value : 'null',
+      policy
+    );
   }
 
-  span.setAttributes(serializedData);
+  return serializedData;
 }
 
 /**
- * Flatten a dictionary, joining parent/child keys with separator
+ * Flatten plain objects, joining parent/child keys with separator.
+ * Objects nested deeper than maxDepth are left for JSON serialization.
  */
-function _flattenDict(data: Record<string, any>, sep: string = '_'): Record<string, any> {
+function _flattenDict(
+  data: Record<string, any>,
+  sep: string = '_',
+  maxDepth: number = Infinity
+): Record<string, any> {
   const result: Record<string, any> = {};
 
-  function flatten(obj: any, prefix: string = '') {
+  function flatten(obj: any, prefix: string = '', depth: number = 0) {
     for (const [key, value] of Object.entries(obj)) {
       const newKey = prefix ? `${prefix}${sep}${key}` : key;
 
-      if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-        flatten(value, newKey);
+      if (isPlainObject(value) && depth + 1 < maxDepth) {
+        flatten(value, newKey, depth + 1);
       } else {
         result[newKey] = value;
       }
@@ -0,0 +1,48 @@
+/**
+ * Winston transport standing in for the CloudWatch transport while initAsync() fetches
+ * credentials
+ *
+ * Log records are kept in a buffer shared by all loggers (up to a limit, dropping the oldest)
+ * and replayed into the CloudWatch transport once it is set up.
+ */
+
+import TransportStream from 'winston-transport';
+import { BoundedBuffer } from '../utils/boundedBuffer';
+
+export interface BufferedLogRecord {
+  transport: BufferingLogTransport;
+  info: any;
+}
+
+export class BufferingLogTransport extends TransportStream {
+  private readonly buffer: BoundedBuffer<BufferedLogRecord>;
+
+  constructor(
+    buffer: BoundedBuffer<BufferedLogRecord>,
+    options?: TransportStream.TransportStreamOptions
+  ) {
+    super(options);
+    this.buffer = buffer;
+  }
+
+  log(info: any, next: () => void): void {
+    setImmediate(() => this.emit('logged', info));
+    this.buffer.push({ transport: this, info });
+    next();
+  }
+
+  /**
+   * Replay the records this transport buffered into the target, or drop them without one
+   *
+   * @returns Number of records taken from the buffer
+   */
+  replayTo(target: TransportStream | null): number {
+    const records = this.buffer.take(record => record.transport === this);
+    if (target?.log) {
+      for (const { info } of records) {
+        target.log(info, () => {});
+      }
+    }
+    return records.length;
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Winston transport exporting log records over OTLP/HTTP
+ *
+ * Lets TraceRootLogger send logs to any OpenTelemetry backend (collector, Grafana, Honeycomb...)
+ * instead of CloudWatch, correlated with the active trace and span.
+ */
+
+import TransportStream from 'winston-transport';
+import { Context, AttributeValue } from '@opentelemetry/api';
+import {
+  BatchLogRecordProcessor,
+  LogRecordProcessor,
+  LoggerProvider,
+  SimpleLogRecordProcessor,
+} from '@opentelemetry/sdk-logs';
+import { OTLPLogExporter } from '@opentelemetry/exporter-logs-otlp-http';
+import { TraceRootConfigImpl } from '../config';
+import { BATCH_SPAN_PROCESSOR_CONFIG, LOG_CONTEXT } from '../constants';
+import {
+  createProxyAgent,
+  getHttpAgentOptions,
+  useProxyAgentForOtlpExporter,
+} from '../utils/network';
+import { createServiceResource } from '../utils/resource';
+import { setSerializedAttribute } from '../utils/serialization';
+
+// OpenTelemetry severity numbers (see SeverityNumber in @opentelemetry/api-logs)
+const SEVERITY_NUMBERS: Record<string, number> = {
+  debug: 5,
+  info: 9,
+  warn: 13,
+  error: 17,
+  critical: 21,
+};
+
+// Winston and TraceRoot properties that are not user metadata
+const RESERVED_PROPERTIES = new Set([
+  'level',
+  'message',
+  'timestamp',
+  'trace_id',
+  'span_id',
+  'stack_trace',
+  'service_name',
+  'github_commit_hash',
+  'github_owner',
+  'github_repo_name',
+  'environment',
+  'stack',
+  'meta',
+]);
+
+export interface OtlpLogTransportOptions extends TransportStream.TransportStreamOptions {
+  config: TraceRootConfigImpl;
+  loggerName: string;
+}
+
+/**
+ * Get the OTLP logs endpoint: `otlp_logs_endpoint`, or the traces endpoint with
+ * `/v1/traces` replaced by `/v1/logs`
+ */
+export function resolveOtlpLogsEndpoint(config: TraceRootConfigImpl): string {
+  if (config.otlp_logs_endpoint) {
+    return config.otlp_logs_endpoint;
+  }
+  const tracesEndpoint = config.otlp_endpoint || 'http://localhost:4318/v1/traces';
+  if (/\/v1\/traces\/?$/.test(tracesEndpoint)) {
+    return tracesEndpoint.replace(/\/v1\/traces\/?$/, '/v1/logs');
+  }
+  return `${tracesEndpoint.replace(/\/+$/, '')}/v1/logs`;
+}
+
+export class OtlpLogTransport extends TransportStream {
+  private readonly config: TraceRootConfigImpl;
+  private readonly loggerName: string;
+  private readonly exporter: OTLPLogExporter;
+  private readonly loggerProvider: LoggerProvider;
+  private readonly otelLogger: ReturnType<LoggerProvider['getLogger']>;
+
+  constructor(options: OtlpLogTransportOptions) {
+    const { config, loggerName, ...transportOptions } = options;
+    super(transportOptions);
+    this.config = config;
+    this.loggerName = loggerName;
+
+    const endpoint = resolveOtlpLogsEndpoint(config);
+    const exporter = new OTLPLogExporter({
+      url: endpoint,
+      httpAgentOptions: getHttpAgentOptions(config),
+    });
+    useProxyAgentForOtlpExporter(exporter, createProxyAgent(endpoint, config));
+    this.exporter = exporter;
+
+    // Wrap the export method to add error logging with source identification
+    const originalExport = exporter.export.bind(exporter);
+    exporter.export = (logs, resultCallback) => {
+      originalExport(logs, result => {
+        if (result.code !== 0 && config.tracer_verbose) {
+          console.error('[TraceRoot] Log export failed:', {
+            code: result.code,
+            error: result.error?.message || result.error,
+            endpoint,
+          });
+        }
+        resultCallback(result);
+      });
+    };
+
+    // Same batching as the span pipeline: immediate export in local mode, batched otherwise
+    const processor: LogRecordProcessor = config.local_mode
+      ? new SimpleLogRecordProcessor(exporter)
+      : new BatchLogRecordProcessor(exporter, {
+          maxExportBatchSize: BATCH_SPAN_PROCESSOR_CONFIG.MAX_EXPORT_BATCH_SIZE,
+          exportTimeoutMillis: BATCH_SPAN_PROCESSOR_CONFIG.EXPORT_TIMEOUT_MILLIS,
+          scheduledDelayMillis: BATCH_SPAN_PROCESSOR_CONFIG.SCHEDULED_DELAY_MILLIS,
+          maxQueueSize: BATCH_SPAN_PROCESSOR_CONFIG.MAX_QUEUE_SIZE,
+        });
+
+    this.loggerProvider = new LoggerProvider({ resource: createServiceResource(config) });
+    this.loggerProvider.addLogRecordProcessor(processor);
+    this.otelLogger = this.loggerProvider.getLogger(loggerName);
+  }
+
+  log(info: any, next: () => void): void {
+    setImmediate(() => this.emit('logged', info));
+
+    try {
+      const level = String(info.level);
+      this.otelLogger.emit({
+        severityNumber: SEVERITY_NUMBERS[level] ?? SEVERITY_NUMBERS.info,
+        severityText: level.toUpperCase(),
+        body: String(info.message),
+        attributes: this.buildAttributes(info),
+        context: info[LOG_CONTEXT] as Context | undefined,
+      });
+    } catch (error: any) {
+      console.error('[TraceRoot] Failed to emit OTLP log record:', error?.message || error);
+    }
+
+    next();
+  }
+
+  /**
+   * Export all buffered log records and wait for requests in flight
+   */
+  async flush(): Promise<void> {
+    await this.loggerProvider.forceFlush();
+    // The simple processor doesn't wait for exports it already started
+    await this.exporter.forceFlush();
+  }
+
+  /**
+   * Flush buffered log records and stop the exporter
+   */
+  shutdown(): Promise<void> {
+    return this.loggerProvider.shutdown();
+  }
+
+  close(): void {
+    this.shutdown().catch((error: any) => {
+      console.error('[TraceRoot] Failed to shut down OTLP log exporter:', error?.message || error);
+    });
+  }
+
+  private buildAttributes(info: any): Record<string, AttributeValue> {
+    const attributes: Record<string, AttributeValue> = {
+      'log.logger': this.loggerName,
+    };
+    if (info.stack_trace) {
+      attributes['log.stack_trace'] = String(info.stack_trace);
+    }
+    if (info.stack && info.level === 'error') {
+      attributes['log.exception'] = String(info.stack);
+    }
+
+    // User metadata (already redacted by the logger) keeps its own keys
+    for (const key of Object.keys(info)) {
+      const value = info[key];
+      if (!RESERVED_PROPERTIES.has(key) && value !== null && value !== undefined) {
+        setSerializedAttribute(attributes, key, value, this.config.serialization);
+      }
+    }
+    return attributes;
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Winston transport writing logs to a local file with rotation
+ *
+ * For deployments without CloudWatch access: the active file is rotated when it reaches
+ * the size limit or when the UTC hour/day changes, rotated files are gzipped, and only the
+ * most recent ones are kept.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+import TransportStream from 'winston-transport';
+import { LOG_FILE_DEFAULTS } from '../constants';
+
+// Key of the formatted message set by winston formats (MESSAGE in triple-beam)
+const MESSAGE = Symbol.for('message');
+
+export interface RotatingFileOptions {
+  filename: string;
+  // Rotate when the file would grow past this many bytes (0 disables size rotation)
+  maxSize: number;
+  rotation: 'hourly' | 'daily' | 'none';
+  // Number of rotated files kept (0 keeps all)
+  maxFiles: number;
+  compress: boolean;
+}
+
+export interface RotatingFileTransportOptions
+  extends RotatingFileOptions,
+    TransportStream.TransportStreamOptions {
+  // Formats a log entry as one line; defaults to the JSON produced by the logger format
+  formatter?: (info: any) => string;
+}
+
+/**
+ * Active log file with its rotation state.
+ * Writes are synchronous so that entries survive a crash or container restart.
+ */
+class RotatingFileWriter {
+  private readonly options: RotatingFileOptions;
+  private readonly directory: string;
+  private readonly baseName: string;
+  private readonly extension: string;
+  // Names rotatedPath() produces, e.g. app.20240115-235959-1.log.gz
+  private readonly rotatedNamePattern: RegExp;
+  private fd: number | null = null;
+  private size = 0;
+  private period = '';
+  private lastWrite = new Date();
+  private pendingCompressions: Set<Promise<void>> = new Set();
+
+  constructor(options: RotatingFileOptions) {
+    this.options = options;
+    this.directory = path.dirname(options.filename);
+    this.extension = path.extname(options.filename);
+    this.baseName = path.basename(options.filename, this.extension);
+    this.rotatedNamePattern = new RegExp(
+      `^${escapeRegExp(this.baseName)}\\.\\d{8}-\\d{6}(?:-\\d+)?${escapeRegExp(this.extension)}(?:\\.gz)?$`
+    );
+  }
+
+  write(line: string): void {
+    const now = new Date();
+    if (this.fd === null) {
+      this.open(now);
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.shouldRotate(bytes, now)) {
+      this.rotate(now);
+    }
+
+    fs.writeSync(this.fd!, line);
+    this.size += bytes;
+    this.lastWrite = now;
+  }
+
+  /**
+   * Wait until rotated files have been compressed
+   */
+  async flush(): Promise<void> {
+    while (this.pendingCompressions.size > 0) {
+      await Promise.all(Array.from(this.pendingCompressions));
+    }
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private open(now: Date): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.fd = fs.openSync(this.options.filename, 'a');
+    // An existing file keeps counting towards its size limit and its original period
+    const stats = fs.fstatSync(this.fd);
+    this.size = stats.size;
+    this.lastWrite = stats.size > 0 ? stats.mtime : now;
+    this.period = this.periodOf(this.lastWrite);
+  }
+
+  private shouldRotate(bytes: number, now: Date): boolean {
+    if (this.size === 0) {
+      return false;
+    }
+    const maxSize = this.options.maxSize;
+    return (maxSize > 0 && this.size + bytes > maxSize) || this.periodOf(now) !== this.period;
+  }
+
+  private rotate(now: Date): void {
+    this.close();
+    const rotatedPath = this.rotatedPath();
+    fs.renameSync(this.options.filename, rotatedPath);
+    this.open(now);
+
+    if (this.options.compress) {
+      this.compress(rotatedPath);
+    } else {
+      this.applyRetention();
+    }
+  }
+
+  private compress(rotatedPath: string): void {
+    const compression = pipeline(
+      fs.createReadStream(rotatedPath),
+      zlib.createGzip(),
+      fs.createWriteStream(`${rotatedPath}.gz`)
+    )
+      .then(() => fs.promises.unlink(rotatedPath))
+      .catch((error: any) => {
+        console.error('[TraceRoot] Failed to compress rotated log file:', error?.message || error);
+      })
+      .finally(() => {
+        this.pendingCompressions.delete(compression);
+        this.applyRetention();
+      });
+    this.pendingCompressions.add(compression);
+  }
+
+  /**
+   * Name rotated files after the time of their last entry, e.g. app.20240115-235959.log
+   */
+  private rotatedPath(): string {
+    const stamp = this.lastWrite
+      .toISOString()
+      .replace(/\.\d+Z$/, '')
+      .replace(/[-:]/g, '')
+      .replace('T', '-');
+    let candidate = path.join(this.directory, `${this.baseName}.${stamp}${this.extension}`);
+    for (let i = 1; fs.existsSync(candidate) || fs.existsSync(`${candidate}.gz`); i++) {
+      candidate = path.join(this.directory, `${this.baseName}.${stamp}-${i}${this.extension}`);
+    }
+    return candidate;
+  }
+
+  /**
+   * Delete the oldest rotated files beyond the retention count
+   */
+  private applyRetention(): void {
+    if (this.options.maxFiles <= 0 || this.pendingCompressions.size > 0) {
+      return;
+    }
+    try {
+      const rotatedFiles = fs
+        .readdirSync(this.directory)
+        .filter(name => this.rotatedNamePattern.test(name))
+        .map(name => {
+          const filePath = path.join(this.directory, name);
+          return { filePath, mtime: fs.statSync(filePath).mtimeMs };
+        })
+        .sort((a, b) => b.mtime - a.mtime || b.filePath.localeCompare(a.filePath));
+
+      for (const { filePath } of rotatedFiles.slice(this.options.maxFiles)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (error: any) {
+      console.error('[TraceRoot] Failed to remove old log files:', error?.message || error);
+    }
+  }
+
+  private periodOf(date: Date): string {
+    switch (this.options.rotation) {
+      case 'hourly':
+        return date.toISOString().substring(0, 13);
+      case 'daily':
+        return date.toISOString().substring(0, 10);
+      default:
+        return '';
+    }
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Use the default for a size or count that is not a finite number
+ */
+function finiteOr(value: number, fallback: number): number {
+  return Number.isFinite(value) ? value : fallback;
+}
+
+// Writers shared by every logger exporting to the same file, so rotation happens once
+const _writers: Map<string, { writer: RotatingFileWriter; references: number }> = new Map();
+
+export class RotatingFileTransport extends TransportStream {
+  private readonly filePath: string;
+  private readonly writer: RotatingFileWriter;
+  private readonly formatter?: (info: any) => string;
+  private released = false;
+
+  constructor(options: RotatingFileTransportOptions) {
+    const { filename, maxSize, rotation, maxFiles, compress, formatter, ...transportOptions } =
+      options;
+    super(transportOptions);
+    this.formatter = formatter;
+    this.filePath = path.resolve(filename);
+
+    const shared = _writers.get(this.filePath);
+    if (shared) {
+      shared.references++;
+      this.writer = shared.writer;
+    } else {
+      this.writer = new RotatingFileWriter({
+        filename: this.filePath,
+        maxSize: finiteOr(maxSize, LOG_FILE_DEFAULTS.MAX_SIZE),
+        rotation,
+        maxFiles: finiteOr(maxFiles, LOG_FILE_DEFAULTS.MAX_FILES),
+        compress,
+      });
+      _writers.set(this.filePath, { writer: this.writer, references: 1 });
+    }
+  }
+
+  log(info: any, next: () => void): void {
+    setImmediate(() => this.emit('logged', info));
+
+    try {
+      const line = this.formatter ? this.formatter(info) : (info[MESSAGE] ?? JSON.stringify(info));
+      this.writer.write(`${line}\n`);
+    } catch (error: any) {
+      console.error('[TraceRoot] Failed to write log file:', error?.message || error);
+    }
+
+    next();
+  }
+
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  close(): void {
+    if (this.released) {
+      return;
+    }
+    this.released = true;
+
+    const shared = _writers.get(this.filePath);
+    if (shared && shared.writer === this.writer && --shared.references === 0) {
+      _writers.delete(this.filePath);
+      try {
+        this.writer.close();
+      } catch (error: any) {
+        console.error('[TraceRoot] Failed to close log file:', error?.message || error);
+      }
+    }
+  }
+}
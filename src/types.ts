@@ -2,6 +2,11 @@
  * Shared type definitions for the TraceRoot SDK
  */
 
+import { SpanKind } from '@opentelemetry/api';
+import type { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import type { SerializationConfig, TraceRootConfigImpl } from './config';
+import type { TraceRootLogger } from './logger';
+
 /**
  * Configuration options for tracing functions and methods
  */
@@ -10,12 +15,52 @@ export interface TraceOptions {
   spanName?: string;
   /** Suffix to append to the function name for span naming */
   spanNameSuffix?: string;
-  /** Whether to trace function parameters (true for all, array for specific params) */
+  /**
+   * Whether to trace function parameters (true for all, array for specific params).
+   * Destructured parameters are recorded by position, e.g. `params.arg0_userId`
+   */
   traceParams?: boolean | string[];
+  /** Explicit parameter names by position, for minified code (prefix the last with `...` for rest parameters) */
+  paramNames?: string[];
   /** Whether to trace the return value */
   traceReturnValue?: boolean;
   /** Whether to flatten nested objects in attributes */
   flattenAttributes?: boolean;
+  /** Serialization limits for this function's attributes, overriding the config */
+  serialization?: SerializationConfig;
+}
+
+/**
+ * Configuration options for tracing all methods of a class with traceClass()
+ * The TraceOptions fields are defaults applied to every traced method.
+ */
+export interface TraceClassOptions extends Omit<TraceOptions, 'spanName'> {
+  /** Only trace methods matching one of these names (`*` wildcards or RegExp) */
+  include?: (string | RegExp)[];
+  /** Skip methods matching one of these names (`*` wildcards or RegExp) */
+  exclude?: (string | RegExp)[];
+  /** Per-method options overriding the class defaults; `false` skips the method */
+  methods?: Record<string, TraceOptions | false>;
+  /** Span name template with {className} and {methodName} placeholders (default: '{className}.{methodName}') */
+  spanNameTemplate?: string;
+  /** Whether to trace getters (default: false) */
+  traceGetters?: boolean;
+  /** Whether to trace static methods (default: false) */
+  traceStatic?: boolean;
+  /** Whether to trace `_`-prefixed methods (default: false) */
+  tracePrivate?: boolean;
+}
+
+/**
+ * Configuration options for manually created spans (startSpan / withSpan)
+ */
+export interface StartSpanOptions {
+  /** Attributes set when the span starts (visible to sampling rules) */
+  attributes?: Record<string, any>;
+  /** OpenTelemetry span kind (default: INTERNAL) */
+  kind?: SpanKind;
+  /** Start a new trace instead of using the active span as parent */
+  root?: boolean;
 }
 
 /**
@@ -37,3 +82,59 @@ export interface AwsCredentials {
   /** OTLP endpoint URL */
   otlp_endpoint: string;
 }
+
+/**
+ * Source of the AWS credentials used for cloud export, registered with
+ * registerCredentialProvider() or the `credential_providers` config file option
+ */
+export interface CredentialProvider {
+  /** Name shown in error messages */
+  name: string;
+  /** Fetch credentials, or resolve to null to let the next provider try */
+  getCredentials(config: TraceRootConfigImpl): Promise<AwsCredentials | null>;
+  /** Synchronous variant used during initialization; providers without it are skipped there */
+  getCredentialsSync?(config: TraceRootConfigImpl): AwsCredentials | null;
+}
+
+/**
+ * Usage of a buffer holding telemetry while initAsync() fetches credentials
+ */
+export interface BufferStats {
+  /** Entries waiting to be exported */
+  buffered: number;
+  /** Entries dropped because the buffer was full */
+  dropped: number;
+  /** Maximum number of entries the buffer holds */
+  limit: number;
+}
+
+/**
+ * Buffers used by initAsync(), see getInitBufferStats()
+ */
+export interface InitBufferStats {
+  spans: BufferStats;
+  logs: BufferStats;
+}
+
+/**
+ * What TraceRoot passes to integrations when setting them up
+ */
+export interface IntegrationContext {
+  /** Tracer provider TraceRoot initialized or enhanced */
+  tracerProvider: NodeTracerProvider;
+  /** Get a TraceRoot logger, like the exported getLogger() */
+  getLogger: (name?: string) => TraceRootLogger;
+}
+
+/**
+ * Instrumentation or middleware plugged in through the `integrations` config file option
+ * (or init() parameter). Set up after initialization and torn down by shutdownTracer().
+ */
+export interface TraceRootIntegration {
+  /** Unique name; an integration is set up once even when listed again */
+  name: string;
+  /** Called once TraceRoot is initialized */
+  setup(config: TraceRootConfigImpl, context: IntegrationContext): void | Promise<void>;
+  /** Called on shutdown, in reverse setup order */
+  teardown?(): void | Promise<void>;
+}
@@ -0,0 +1,70 @@
+/**
+ * Fixed-size buffer dropping its oldest entries when full
+ */
+
+import { BufferStats } from '../types';
+
+export class BoundedBuffer<T> {
+  private items: T[] = [];
+  private dropped: number = 0;
+
+  /**
+   * @param limit Maximum number of entries kept
+   * @param name Plural name of the entries, used in the warning shown on the first drop
+   */
+  constructor(
+    private readonly limit: number,
+    private readonly name: string
+  ) {}
+
+  push(item: T): void {
+    if (this.limit <= 0) {
+      this.recordDrop();
+      return;
+    }
+    if (this.items.length >= this.limit) {
+      this.items.shift();
+      this.recordDrop();
+    }
+    this.items.push(item);
+  }
+
+  /**
+   * Remove and return the entries matching the predicate, or all entries
+   */
+  take(predicate?: (item: T) => boolean): T[] {
+    if (!predicate) {
+      const items = this.items;
+      this.items = [];
+      return items;
+    }
+    const taken = this.items.filter(predicate);
+    this.items = this.items.filter(item => !predicate(item));
+    return taken;
+  }
+
+  /**
+   * Remove all entries, counting them as dropped
+   *
+   * @returns Number of entries removed
+   */
+  discard(): number {
+    const count = this.items.length;
+    this.items = [];
+    this.dropped += count;
+    return count;
+  }
+
+  getStats(): BufferStats {
+    return { buffered: this.items.length, dropped: this.dropped, limit: this.limit };
+  }
+
+  private recordDrop(): void {
+    if (this.dropped === 0) {
+      console.warn(
+        `[TraceRoot] Buffer of ${this.limit} ${this.name} waiting for credentials is full, dropping the oldest ${this.name}`
+      );
+    }
+    this.dropped++;
+  }
+}
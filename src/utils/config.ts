@@ -4,6 +4,7 @@ import {
   loadTypescriptConfig,
   loadTypescriptConfigSync,
 } from './configLoader';
+import { reportConfigDiagnostics, validateConfigFile } from './configValidator';
 
 /**
  * Find and load configuration from TypeScript config file.
@@ -13,30 +14,20 @@ import {
 export async function findAndLoadConfig(): Promise<{
   config: Partial<TraceRootConfig>;
   configFile?: TraceRootConfigFile;
+  configPath: string;
   source: 'typescript';
 } | null> {
   // Try to find a TypeScript config file
   const tsConfigPath = findTypescriptConfig();
   if (tsConfigPath) {
+    let configFile: TraceRootConfigFile | null = null;
     try {
-      const configFile = await loadTypescriptConfig(tsConfigPath);
-      if (configFile) {
-        // Apply environment-specific overrides if present
-        const finalConfigFile = applyEnvironmentConfig(configFile);
-
-        // Extract the base config (excluding TypeScript-specific properties)
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { init, autoInit, integrations, environments, ...baseConfig } = finalConfigFile;
-
-        return {
-          config: baseConfig,
-          configFile: finalConfigFile,
-          source: 'typescript',
-        };
-      }
-    } catch (_error) {
-      void _error;
-      // Failed to load TypeScript config
+      configFile = await loadTypescriptConfig(tsConfigPath);
+    } catch (error: any) {
+      console.warn('[TraceRoot] Failed to load config file:', error?.message || error);
+    }
+    if (configFile) {
+      return resolveConfigFile(configFile, tsConfigPath);
     }
   }
   return null;
@@ -50,41 +41,67 @@ export async function findAndLoadConfig(): Promise<{
 export function findAndLoadConfigSync(): {
   config: Partial<TraceRootConfig>;
   configFile?: TraceRootConfigFile;
+  configPath: string;
   source: 'typescript';
 } | null {
   // Try to find a TypeScript config file
   const tsConfigPath = findTypescriptConfig();
   if (tsConfigPath) {
+    let configFile: TraceRootConfigFile | null = null;
     try {
-      const configFile = loadTypescriptConfigSync(tsConfigPath);
-      if (configFile) {
-        // Apply environment-specific overrides if present
-        const finalConfigFile = applyEnvironmentConfig(configFile);
-
-        // Extract the base config (excluding TypeScript-specific properties)
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { init, autoInit, integrations, environments, ...baseConfig } = finalConfigFile;
-
-        return {
-          config: baseConfig,
-          configFile: finalConfigFile,
-          source: 'typescript',
-        };
-      }
-    } catch (_error) {
-      void _error;
-      // Failed to load TypeScript config
+      configFile = loadTypescriptConfigSync(tsConfigPath);
+    } catch (error: any) {
+      console.warn('[TraceRoot] Failed to load config file:', error?.message || error);
+    }
+    if (configFile) {
+      return resolveConfigFile(configFile, tsConfigPath);
     }
   }
   return null;
 }
 
+/**
+ * Validate a loaded config file and apply its environment overrides.
+ * Throws when the file enables strict_config and has invalid settings.
+ */
+export function resolveConfigFile(
+  configFile: TraceRootConfigFile,
+  configPath: string
+): {
+  config: Partial<TraceRootConfig>;
+  configFile: TraceRootConfigFile;
+  configPath: string;
+  source: 'typescript';
+} {
+  // Apply environment-specific overrides if present
+  const finalConfigFile = applyEnvironmentConfig(configFile);
+
+  // Base options are validated at initialization
+  reportConfigDiagnostics(
+    validateConfigFile(configFile),
+    finalConfigFile.strict_config,
+    configPath
+  );
+
+  // Extract the base config (excluding TypeScript-specific properties)
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { init, autoInit, integrations, credential_providers, environments, watch, ...baseConfig } =
+    finalConfigFile;
+
+  return {
+    config: baseConfig,
+    configFile: finalConfigFile,
+    configPath,
+    source: 'typescript',
+  };
+}
+
 /**
  * Applies environment-specific configuration overrides
  * Automatically detects environment from NODE_ENV or TRACEROOT_ENV
  */
 function applyEnvironmentConfig(config: TraceRootConfigFile): TraceRootConfigFile {
-  const environment = process.env.NODE_ENV || process.env.TRACEROOT_ENV;
+  const environment = getConfigEnvironment();
 
   if (!config.environments || !environment) {
     return config;
@@ -103,5 +120,13 @@ function applyEnvironmentConfig(config: TraceRootConfigFile): TraceRootConfigFil
     environments: config.environments,
     init: config.init,
     autoInit: config.autoInit,
+    watch: config.watch,
   };
 }
+
+/**
+ * Name of the `environments` entry applied to config files (NODE_ENV or TRACEROOT_ENV)
+ */
+export function getConfigEnvironment(): string | undefined {
+  return process.env.NODE_ENV || process.env.TRACEROOT_ENV;
+}
@@ -1,6 +1,7 @@
-import { join } from 'path';
+import { basename, join } from 'path';
 import { pathToFileURL } from 'url';
-import { TraceRootConfigFile } from '../config';
+import { SamplingConfig, TraceRootConfig, TraceRootConfigFile } from '../config';
+import { getConfigFieldType } from './configValidator';
 
 // Edge Runtime detection
 function isEdgeRuntime(): boolean {
@@ -10,6 +11,50 @@ function isEdgeRuntime(): boolean {
   );
 }
 
+// Config files loaded without executing code
+const DECLARATIVE_CONFIG_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+// ${VAR} or ${VAR:-default}
+const ENV_VAR_PLACEHOLDER = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+// Environment variable read by loadConfigFromEnv for each config field
+export const CONFIG_ENV_VARS: Partial<Record<keyof TraceRootConfig, string>> = {
+  service_name: 'TRACEROOT_SERVICE_NAME',
+  github_owner: 'TRACEROOT_GITHUB_OWNER',
+  github_repo_name: 'TRACEROOT_GITHUB_REPO_NAME',
+  github_commit_hash: 'TRACEROOT_GITHUB_COMMIT_HASH',
+  token: 'TRACEROOT_TOKEN',
+  log_level: 'TRACEROOT_LOG_LEVEL',
+  name: 'TRACEROOT_NAME',
+  aws_region: 'TRACEROOT_AWS_REGION',
+  otlp_endpoint: 'TRACEROOT_OTLP_ENDPOINT',
+  otlp_logs_endpoint: 'TRACEROOT_OTLP_LOGS_ENDPOINT',
+  environment: 'TRACEROOT_ENVIRONMENT',
+  enable_span_console_export: 'TRACEROOT_ENABLE_SPAN_CONSOLE_EXPORT',
+  enable_log_console_export: 'TRACEROOT_ENABLE_LOG_CONSOLE_EXPORT',
+  enable_span_cloud_export: 'TRACEROOT_ENABLE_SPAN_CLOUD_EXPORT',
+  enable_log_cloud_export: 'TRACEROOT_ENABLE_LOG_CLOUD_EXPORT',
+  log_exporter: 'TRACEROOT_LOG_EXPORTER',
+  log_file_path: 'TRACEROOT_LOG_FILE_PATH',
+  log_file_format: 'TRACEROOT_LOG_FILE_FORMAT',
+  log_file_max_size: 'TRACEROOT_LOG_FILE_MAX_SIZE',
+  log_file_rotation: 'TRACEROOT_LOG_FILE_ROTATION',
+  log_file_max_files: 'TRACEROOT_LOG_FILE_MAX_FILES',
+  log_file_compress: 'TRACEROOT_LOG_FILE_COMPRESS',
+  span_file_dir: 'TRACEROOT_SPAN_FILE_DIR',
+  span_file_format: 'TRACEROOT_SPAN_FILE_FORMAT',
+  local_mode: 'TRACEROOT_LOCAL_MODE',
+  credential_cache: 'TRACEROOT_CREDENTIAL_CACHE',
+  credential_cache_dir: 'TRACEROOT_CREDENTIAL_CACHE_DIR',
+  proxy_url: 'TRACEROOT_PROXY_URL',
+  ca_bundle_path: 'TRACEROOT_CA_BUNDLE_PATH',
+  tls_insecure: 'TRACEROOT_TLS_INSECURE',
+  tracer_verbose: 'TRACEROOT_TRACER_VERBOSE',
+  strict_config: 'TRACEROOT_STRICT_CONFIG',
+  baggage_keys: 'TRACEROOT_BAGGAGE_KEYS',
+  sampling: 'TRACEROOT_SAMPLING_TYPE',
+};
+
 // Load config from environment variables for Edge Runtime
 export function loadConfigFromEnv(): TraceRootConfigFile {
   const config: Partial<TraceRootConfigFile> = {
@@ -42,6 +87,9 @@ export function loadConfigFromEnv(): TraceRootConfigFile {
   if (process.env.TRACEROOT_OTLP_ENDPOINT) {
     config.otlp_endpoint = process.env.TRACEROOT_OTLP_ENDPOINT;
   }
+  if (process.env.TRACEROOT_OTLP_LOGS_ENDPOINT) {
+    config.otlp_logs_endpoint = process.env.TRACEROOT_OTLP_LOGS_ENDPOINT;
+  }
   if (process.env.TRACEROOT_ENVIRONMENT) {
     config.environment = process.env.TRACEROOT_ENVIRONMENT;
   }
@@ -57,16 +105,122 @@ export function loadConfigFromEnv(): TraceRootConfigFile {
   if (process.env.TRACEROOT_ENABLE_LOG_CLOUD_EXPORT !== undefined) {
     config.enable_log_cloud_export = process.env.TRACEROOT_ENABLE_LOG_CLOUD_EXPORT === 'true';
   }
+  if (process.env.TRACEROOT_LOG_EXPORTER) {
+    config.log_exporter =
+      process.env.TRACEROOT_LOG_EXPORTER.toLowerCase() as TraceRootConfig['log_exporter'];
+  }
+  if (process.env.TRACEROOT_LOG_FILE_PATH) {
+    config.log_file_path = process.env.TRACEROOT_LOG_FILE_PATH;
+  }
+  if (process.env.TRACEROOT_LOG_FILE_FORMAT) {
+    config.log_file_format =
+      process.env.TRACEROOT_LOG_FILE_FORMAT.toLowerCase() as TraceRootConfig['log_file_format'];
+  }
+  const logFileMaxSize = parseIntegerEnv('TRACEROOT_LOG_FILE_MAX_SIZE');
+  if (logFileMaxSize !== undefined) {
+    config.log_file_max_size = logFileMaxSize;
+  }
+  if (process.env.TRACEROOT_LOG_FILE_ROTATION) {
+    config.log_file_rotation =
+      process.env.TRACEROOT_LOG_FILE_ROTATION.toLowerCase() as TraceRootConfig['log_file_rotation'];
+  }
+  const logFileMaxFiles = parseIntegerEnv('TRACEROOT_LOG_FILE_MAX_FILES');
+  if (logFileMaxFiles !== undefined) {
+    config.log_file_max_files = logFileMaxFiles;
+  }
+  if (process.env.TRACEROOT_LOG_FILE_COMPRESS !== undefined) {
+    config.log_file_compress = process.env.TRACEROOT_LOG_FILE_COMPRESS === 'true';
+  }
+  if (process.env.TRACEROOT_SPAN_FILE_DIR) {
+    config.span_file_dir = process.env.TRACEROOT_SPAN_FILE_DIR;
+  }
+  if (process.env.TRACEROOT_SPAN_FILE_FORMAT) {
+    config.span_file_format =
+      process.env.TRACEROOT_SPAN_FILE_FORMAT.toLowerCase() as TraceRootConfig['span_file_format'];
+  }
   if (process.env.TRACEROOT_LOCAL_MODE !== undefined) {
     config.local_mode = process.env.TRACEROOT_LOCAL_MODE === 'true';
   }
+  if (process.env.TRACEROOT_CREDENTIAL_CACHE !== undefined) {
+    config.credential_cache = process.env.TRACEROOT_CREDENTIAL_CACHE === 'true';
+  }
+  if (process.env.TRACEROOT_CREDENTIAL_CACHE_DIR) {
+    config.credential_cache_dir = process.env.TRACEROOT_CREDENTIAL_CACHE_DIR;
+  }
+  if (process.env.TRACEROOT_PROXY_URL) {
+    config.proxy_url = process.env.TRACEROOT_PROXY_URL;
+  }
+  if (process.env.TRACEROOT_CA_BUNDLE_PATH) {
+    config.ca_bundle_path = process.env.TRACEROOT_CA_BUNDLE_PATH;
+  }
+  if (process.env.TRACEROOT_TLS_INSECURE !== undefined) {
+    config.tls_insecure = process.env.TRACEROOT_TLS_INSECURE === 'true';
+  }
   if (process.env.TRACEROOT_TRACER_VERBOSE !== undefined) {
     config.tracer_verbose = process.env.TRACEROOT_TRACER_VERBOSE === 'true';
   }
+  if (process.env.TRACEROOT_STRICT_CONFIG !== undefined) {
+    config.strict_config = process.env.TRACEROOT_STRICT_CONFIG === 'true';
+  }
+
+  if (process.env.TRACEROOT_BAGGAGE_KEYS) {
+    config.baggage_keys = process.env.TRACEROOT_BAGGAGE_KEYS.split(',')
+      .map(key => key.trim())
+      .filter(key => key.length > 0);
+  }
+
+  const sampling = loadSamplingConfigFromEnv();
+  if (sampling) {
+    config.sampling = sampling;
+  }
 
   return config;
 }
 
+/**
+ * Parse an integer environment variable
+ *
+ * @returns The value, or undefined when the variable is not set or not a number (with a warning)
+ */
+function parseIntegerEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined) {
+    return undefined;
+  }
+  const value = parseInt(raw, 10);
+  if (!Number.isFinite(value)) {
+    console.warn(`[TraceRoot] Ignoring ${name}: expected a number, got "${raw}"`);
+    return undefined;
+  }
+  return value;
+}
+
+// Load sampling config from TRACEROOT_SAMPLING_* environment variables
+function loadSamplingConfigFromEnv(): SamplingConfig | undefined {
+  const type = process.env.TRACEROOT_SAMPLING_TYPE;
+  if (!type) {
+    return undefined;
+  }
+
+  const sampling: SamplingConfig = { type: type.toLowerCase() as SamplingConfig['type'] };
+  if (process.env.TRACEROOT_SAMPLING_RATIO !== undefined) {
+    sampling.ratio = parseFloat(process.env.TRACEROOT_SAMPLING_RATIO);
+  }
+  if (process.env.TRACEROOT_SAMPLING_TRACES_PER_SECOND !== undefined) {
+    sampling.traces_per_second = parseFloat(process.env.TRACEROOT_SAMPLING_TRACES_PER_SECOND);
+  }
+  if (process.env.TRACEROOT_SAMPLING_RULES) {
+    // Rules are provided as a JSON array, e.g. [{"span_name":"health*","ratio":0}]
+    try {
+      sampling.rules = JSON.parse(process.env.TRACEROOT_SAMPLING_RULES);
+    } catch (error) {
+      console.error('[ConfigLoader] Invalid TRACEROOT_SAMPLING_RULES, ignoring:', error);
+    }
+  }
+
+  return sampling;
+}
+
 // Edge Runtime compatible fs functions
 function existsSync(path: string): boolean {
   if (isEdgeRuntime()) {
@@ -131,6 +285,14 @@ export async function loadTypescriptConfig(
     return null;
   }
 
+  if (isDeclarativeConfig(configPath)) {
+    try {
+      return loadDeclarativeConfig(configPath);
+    } catch (error) {
+      throw new Error(`Error loading config file ${configPath}: ${error}`);
+    }
+  }
+
   try {
     let configModule: Record<string, unknown>;
 
@@ -173,7 +335,8 @@ export async function loadTypescriptConfig(
 
 /**
  * Finds a configuration file in the project root
- * Tries TypeScript first, then falls back to JavaScript alternatives
+ * Tries TypeScript first, then JavaScript alternatives, then YAML/JSON files,
+ * and finally the `traceroot` key of package.json
  * Uses multiple strategies to handle different environments (including Turbopack)
  * In Edge Runtime, returns null to trigger env var loading
  */
@@ -188,6 +351,9 @@ export function findTypescriptConfig(): string | null {
     'traceroot.config.js',
     'traceroot.config.mjs',
     'traceroot.config.cjs',
+    'traceroot.config.yaml',
+    'traceroot.config.yml',
+    'traceroot.config.json',
   ];
 
   // Strategy 1: Try environment variables if available
@@ -220,16 +386,120 @@ export function findTypescriptConfig(): string | null {
     void error;
   }
 
+  // Strategy 3: Fall back to the `traceroot` key of package.json
+  try {
+    const packageJsonPath = join(process.cwd(), 'package.json');
+    if (existsSync(packageJsonPath)) {
+      const fs = require('fs');
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+      if (packageJson && typeof packageJson.traceroot === 'object') {
+        return packageJsonPath;
+      }
+    }
+  } catch (error) {
+    // An unreadable package.json is not a config source
+    void error;
+  }
+
   return null;
 }
 
+/**
+ * Check if a config file is declarative (YAML, JSON or package.json) rather than code
+ */
+function isDeclarativeConfig(configPath: string): boolean {
+  return DECLARATIVE_CONFIG_EXTENSIONS.some(extension => configPath.endsWith(extension));
+}
+
+/**
+ * Loads a YAML or JSON config file, or the `traceroot` key of a package.json, without
+ * executing any code. `${VAR}` and `${VAR:-default}` placeholders in string values are
+ * replaced with environment variables.
+ */
+export function loadDeclarativeConfig(configPath: string): TraceRootConfigFile | null {
+  const fs = require('fs');
+  const content = fs.readFileSync(configPath, 'utf8');
+  let parsed = configPath.endsWith('.json') ? JSON.parse(content) : require('yaml').parse(content);
+
+  if (basename(configPath) === 'package.json') {
+    parsed = parsed?.traceroot;
+  }
+  // An empty file has no configuration
+  if (parsed === null || parsed === undefined) {
+    return null;
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Config file ${configPath} must contain an object`);
+  }
+  return interpolateEnvVars(parsed) as TraceRootConfigFile;
+}
+
+/**
+ * Replace `${VAR}` and `${VAR:-default}` placeholders in all string values.
+ * The default is used when the variable is unset or empty. A value made of a single
+ * placeholder becomes a boolean or number when the option at its path is one and the
+ * result is `true`, `false` or numeric; other options keep the string.
+ *
+ * @param path Path of the value in the config file, used to look up the option type
+ */
+export function interpolateEnvVars<T>(
+  value: T,
+  env: NodeJS.ProcessEnv = process.env,
+  path: string[] = []
+): T {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnvVars(item, env, [...path, String(index)])) as T;
+  }
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = interpolateEnvVars(entry, env, [...path, key]);
+    }
+    return result as T;
+  }
+  if (typeof value !== 'string' || !value.includes('${')) {
+    return value;
+  }
+
+  const interpolated = value.replace(
+    ENV_VAR_PLACEHOLDER,
+    (_match: string, name: string, defaultValue?: string) => {
+      const envValue = env[name];
+      if (envValue !== undefined && envValue !== '') {
+        return envValue;
+      }
+      if (defaultValue === undefined) {
+        console.warn(`[TraceRoot] Environment variable ${name} is not set, using an empty string`);
+      }
+      return defaultValue ?? '';
+    }
+  );
+
+  if (new RegExp(`^${ENV_VAR_PLACEHOLDER.source}$`).test(value)) {
+    const fieldType = getConfigFieldType(path);
+    if (fieldType === 'boolean' && (interpolated === 'true' || interpolated === 'false')) {
+      return (interpolated === 'true') as T;
+    }
+    if (fieldType === 'number' && /^-?\d+(\.\d+)?$/.test(interpolated)) {
+      return Number(interpolated) as T;
+    }
+  }
+  return interpolated as T;
+}
+
 /**
  * Loads and executes a configuration file (synchronous)
  * Tries TypeScript first, falls back to JavaScript if TypeScript fails
  * In Edge Runtime, loads from environment variables
  * Falls back to environment variables when file loading fails in any environment
+ *
+ * @param fallback Fall back to other config sources when the file fails to load; when false,
+ *   the error is thrown instead (used when reloading a watched config file)
  */
-export function loadTypescriptConfigSync(configPath: string | null): TraceRootConfigFile | null {
+export function loadTypescriptConfigSync(
+  configPath: string | null,
+  fallback: boolean = true
+): TraceRootConfigFile | null {
   // In Edge Runtime, load from environment variables immediately
   if (isEdgeRuntime()) {
     return loadConfigFromEnv();
@@ -240,6 +510,22 @@ export function loadTypescriptConfigSync(configPath: string | null): TraceRootCo
     return tryJavaScriptFallback(); // This will eventually fallback to env vars
   }
 
+  // YAML and JSON files are parsed, not executed
+  if (isDeclarativeConfig(configPath)) {
+    try {
+      return loadDeclarativeConfig(configPath);
+    } catch (error: any) {
+      if (!fallback) {
+        throw error;
+      }
+      console.warn(
+        `[TraceRoot] Failed to load config file ${configPath}:`,
+        error?.message || error
+      );
+      return tryJavaScriptFallback();
+    }
+  }
+
   const isTypeScript = configPath.endsWith('.ts');
 
   try {
@@ -253,7 +539,9 @@ export function loadTypescriptConfigSync(configPath: string | null): TraceRootCo
         void _error;
         // Try manual TypeScript compilation if TypeScript compiler is available
         if (isTypeScriptAvailable()) {
-          return loadTypeScriptManually(configPath);
+          return loadTypeScriptManually(configPath, fallback);
+        } else if (!fallback) {
+          throw new Error('Loading TypeScript config files requires ts-node or typescript');
         } else {
           return tryJavaScriptFallback();
         }
@@ -293,19 +581,25 @@ export function loadTypescriptConfigSync(configPath: string | null): TraceRootCo
     }
 
     return config as TraceRootConfigFile;
-  } catch (_error) {
-    void _error;
+  } catch (error: any) {
     // If this was a TypeScript file and it failed, try manual compilation or fallback
     if (isTypeScript) {
       // Try manual TypeScript compilation if available
       if (isTypeScriptAvailable()) {
-        return loadTypeScriptManually(configPath);
+        return loadTypeScriptManually(configPath, fallback);
+      } else if (!fallback) {
+        throw error;
       } else {
         return tryJavaScriptFallback();
       }
     }
 
+    if (!fallback) {
+      throw error;
+    }
+
     // For JavaScript files that failed to load, also try fallback
+    console.warn(`[TraceRoot] Failed to load config file ${configPath}:`, error?.message || error);
     return tryJavaScriptFallback();
   }
 }
@@ -313,7 +607,10 @@ export function loadTypescriptConfigSync(configPath: string | null): TraceRootCo
 /**
  * Load TypeScript config manually by compiling it first
  */
-function loadTypeScriptManually(configPath: string): TraceRootConfigFile | null {
+function loadTypeScriptManually(
+  configPath: string,
+  fallback: boolean = true
+): TraceRootConfigFile | null {
   try {
     const fs = require('fs');
     const path = require('path');
@@ -343,8 +640,11 @@ function loadTypeScriptManually(configPath: string): TraceRootConfigFile | null
     }
 
     return config as TraceRootConfigFile;
-  } catch (error) {
-    void error;
+  } catch (error: any) {
+    if (!fallback) {
+      throw error;
+    }
+    console.warn(`[TraceRoot] Failed to load config file ${configPath}:`, error?.message || error);
     return tryJavaScriptFallback();
   }
 }
@@ -437,9 +737,8 @@ function loadJavaScriptConfig(configPath: string): TraceRootConfigFile | null {
     }
 
     return config as TraceRootConfigFile;
-  } catch (_error) {
-    void _error;
-    // Failed to load JavaScript config
+  } catch (error: any) {
+    console.warn(`[TraceRoot] Failed to load config file ${configPath}:`, error?.message || error);
     return null;
   }
 }
@@ -0,0 +1,589 @@
+/**
+ * Configuration validation
+ *
+ * Checks config objects, config files (including `environments` overrides) and TRACEROOT_*
+ * environment variables against the TraceRootConfig schema, and reports unknown keys
+ * (with did-you-mean suggestions), invalid values and conflicting settings.
+ */
+
+import { TraceRootConfig, TraceRootConfigFile } from '../config';
+import { CONFIG_ENV_VARS } from './configLoader';
+import { BUILTIN_REDACTION_PATTERNS } from './redaction';
+
+/**
+ * A problem found in a configuration
+ */
+export interface ConfigDiagnostic {
+  // Dotted path of the option (e.g. `sampling.ratio`) or environment variable name
+  path: string;
+  message: string;
+  // Closest known option name for unknown keys
+  suggestion?: string;
+}
+
+type FieldSchema =
+  | { type: 'any' | 'string' | 'boolean' | 'function' | 'regexp' | 'primitive' }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'enum'; values: readonly string[]; caseInsensitive?: boolean }
+  | { type: 'array'; items: FieldSchema }
+  | { type: 'object'; fields: ObjectSchema }
+  | { type: 'record'; values: FieldSchema }
+  | { type: 'union'; options: FieldSchema[] };
+
+type ObjectSchema = Record<string, FieldSchema>;
+
+const STRING: FieldSchema = { type: 'string' };
+const BOOLEAN: FieldSchema = { type: 'boolean' };
+const RATIO: FieldSchema = { type: 'number', min: 0, max: 1 };
+const NON_NEGATIVE: FieldSchema = { type: 'number', min: 0 };
+const COUNT: FieldSchema = { type: 'number', min: 0, integer: true };
+const STRING_OR_REGEXP: FieldSchema = { type: 'union', options: [STRING, { type: 'regexp' }] };
+
+const SAMPLING_SCHEMA: ObjectSchema = {
+  type: {
+    type: 'enum',
+    values: ['always_on', 'always_off', 'ratio', 'parent_based', 'rate_limited', 'rule_based'],
+  },
+  ratio: RATIO,
+  traces_per_second: NON_NEGATIVE,
+  rules: {
+    type: 'array',
+    items: {
+      type: 'object',
+      fields: {
+        span_name: STRING_OR_REGEXP,
+        attributes: { type: 'record', values: { type: 'primitive' } },
+        ratio: RATIO,
+      },
+    },
+  },
+};
+SAMPLING_SCHEMA.root = { type: 'object', fields: SAMPLING_SCHEMA };
+
+const CONFIG_SCHEMA: ObjectSchema = {
+  service_name: STRING,
+  github_owner: STRING,
+  github_repo_name: STRING,
+  github_commit_hash: STRING,
+  token: STRING,
+  name: STRING,
+  aws_region: STRING,
+  otlp_endpoint: STRING,
+  otlp_logs_endpoint: STRING,
+  environment: STRING,
+  enable_span_console_export: BOOLEAN,
+  enable_log_console_export: BOOLEAN,
+  enable_span_cloud_export: BOOLEAN,
+  enable_log_cloud_export: BOOLEAN,
+  log_exporter: { type: 'enum', values: ['cloudwatch', 'otlp', 'none'] },
+  log_file_path: STRING,
+  log_file_format: { type: 'enum', values: ['json', 'semicolon'] },
+  log_file_max_size: COUNT,
+  log_file_rotation: { type: 'enum', values: ['hourly', 'daily', 'none'] },
+  log_file_max_files: COUNT,
+  log_file_compress: BOOLEAN,
+  span_file_dir: STRING,
+  span_file_format: { type: 'enum', values: ['jsonl', 'otlp-json'] },
+  local_mode: BOOLEAN,
+  credential_cache: BOOLEAN,
+  credential_cache_dir: STRING,
+  proxy_url: STRING,
+  ca_bundle_path: STRING,
+  tls_insecure: BOOLEAN,
+  log_level: {
+    type: 'enum',
+    values: ['debug', 'info', 'warn', 'error', 'silent'],
+    caseInsensitive: true,
+  },
+  tracer_verbose: BOOLEAN,
+  strict_config: BOOLEAN,
+  sampling: { type: 'object', fields: SAMPLING_SCHEMA },
+  tail_sampling: {
+    type: 'object',
+    fields: {
+      keep_errors: BOOLEAN,
+      latency_threshold_ms: NON_NEGATIVE,
+      attribute_rules: { type: 'array', items: { type: 'record', values: { type: 'primitive' } } },
+      counter_attributes: { type: 'array', items: STRING },
+      sample_ratio: RATIO,
+      max_traces: COUNT,
+      max_spans_per_trace: COUNT,
+      decision_wait_ms: NON_NEGATIVE,
+    },
+  },
+  baggage_keys: { type: 'array', items: STRING },
+  serialization: {
+    type: 'object',
+    fields: {
+      max_string_length: COUNT,
+      max_depth: COUNT,
+      max_keys: COUNT,
+    },
+  },
+  redaction: {
+    type: 'object',
+    fields: {
+      rules: {
+        type: 'array',
+        items: {
+          type: 'object',
+          fields: {
+            key: STRING_OR_REGEXP,
+            pattern: {
+              type: 'union',
+              options: [
+                { type: 'regexp' },
+                { type: 'enum', values: Object.keys(BUILTIN_REDACTION_PATTERNS) },
+              ],
+            },
+            mode: { type: 'enum', values: ['mask', 'hash', 'drop'] },
+          },
+        },
+      },
+      mask: STRING,
+    },
+  },
+  _name: STRING,
+  _sub_name: STRING,
+};
+
+// Properties only allowed in config files
+const CONFIG_FILE_SCHEMA: ObjectSchema = {
+  init: { type: 'function' },
+  autoInit: BOOLEAN,
+  integrations: { type: 'array', items: { type: 'any' } },
+  credential_providers: { type: 'array', items: { type: 'any' } },
+  watch: BOOLEAN,
+  environments: { type: 'record', values: { type: 'object', fields: CONFIG_SCHEMA } },
+};
+
+// TRACEROOT_* variables that are not mapped to a config field
+const OTHER_ENV_VARS: Record<string, FieldSchema> = {
+  TRACEROOT_SAMPLING_RATIO: RATIO,
+  TRACEROOT_SAMPLING_TRACES_PER_SECOND: NON_NEGATIVE,
+  TRACEROOT_SAMPLING_RULES: STRING,
+  TRACEROOT_CONFIG_PATH: STRING,
+  TRACEROOT_ENV: STRING,
+  TRACEROOT_API_BASE_URL: STRING,
+  TRACEROOT_DISABLE_AUTO_INIT: BOOLEAN,
+};
+
+/**
+ * Type of the option at a config file path, e.g. `['sampling', 'ratio']`. Array indices and
+ * `environments` names are path segments too.
+ *
+ * @returns The type, or undefined for unknown options
+ */
+export function getConfigFieldType(path: readonly string[]): FieldSchema['type'] | undefined {
+  let schema: FieldSchema | undefined = {
+    type: 'object',
+    fields: { ...CONFIG_SCHEMA, ...CONFIG_FILE_SCHEMA },
+  };
+  for (const key of path) {
+    switch (schema?.type) {
+      case 'object':
+        schema = Object.prototype.hasOwnProperty.call(schema.fields, key)
+          ? schema.fields[key]
+          : undefined;
+        break;
+      case 'record':
+        schema = schema.values;
+        break;
+      case 'array':
+        schema = schema.items;
+        break;
+      default:
+        return undefined;
+    }
+  }
+  return schema?.type;
+}
+
+/**
+ * Validate a configuration object: unknown keys, invalid values and conflicting settings
+ */
+export function validateConfig(config: Partial<TraceRootConfig>): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  validateObject(config, CONFIG_SCHEMA, '', diagnostics);
+  validateCombinations(config, diagnostics);
+  return diagnostics;
+}
+
+/**
+ * Validate the values of a runtime config update. Combinations are not checked since
+ * the update only changes some options of an already validated configuration.
+ */
+export function validateConfigUpdate(update: Partial<TraceRootConfig>): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  validateObject(update, CONFIG_SCHEMA, '', diagnostics);
+  return diagnostics;
+}
+
+/**
+ * Validate the config-file-only properties (`init`, `autoInit`, `integrations`,
+ * `credential_providers`, `watch`) and every entry of `environments`. The base options are checked by validateConfig at initialization.
+ */
+export function validateConfigFile(configFile: TraceRootConfigFile): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  for (const [key, schema] of Object.entries(CONFIG_FILE_SCHEMA)) {
+    const value = (configFile as Record<string, unknown>)[key];
+    if (value !== undefined) {
+      validateValue(value, schema, key, diagnostics);
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Validate TRACEROOT_* environment variables: unknown names and values that can't be parsed
+ */
+export function validateEnvironmentVariables(
+  env: NodeJS.ProcessEnv = process.env
+): ConfigDiagnostic[] {
+  const schemas: Record<string, FieldSchema> = { ...OTHER_ENV_VARS };
+  for (const [field, envVar] of Object.entries(CONFIG_ENV_VARS)) {
+    schemas[envVar] =
+      field === 'sampling' ? SAMPLING_SCHEMA.type : (CONFIG_SCHEMA[field] as FieldSchema);
+  }
+
+  const diagnostics: ConfigDiagnostic[] = [];
+  for (const name of Object.keys(env).filter(name => name.startsWith('TRACEROOT_'))) {
+    const schema = schemas[name];
+    if (!schema) {
+      diagnostics.push(unknownKey(name, name, Object.keys(schemas)));
+      continue;
+    }
+
+    const raw = env[name] as string;
+    let valid = true;
+    switch (schema.type) {
+      case 'boolean':
+        valid = raw === 'true' || raw === 'false';
+        break;
+      case 'number':
+        valid = raw.trim() !== '' && isValidNumber(Number(raw), schema);
+        break;
+      case 'enum':
+        valid = schema.values.includes(raw.toLowerCase());
+        break;
+    }
+    if (!valid) {
+      diagnostics.push({
+        path: name,
+        message: `expected ${describeSchema(schema)}, got ${JSON.stringify(raw)}`,
+      });
+    }
+  }
+
+  if (env.TRACEROOT_SAMPLING_RULES) {
+    try {
+      if (!Array.isArray(JSON.parse(env.TRACEROOT_SAMPLING_RULES))) {
+        throw new Error('not an array');
+      }
+    } catch {
+      diagnostics.push({
+        path: 'TRACEROOT_SAMPLING_RULES',
+        message: 'expected a JSON array of sampling rules',
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Format a diagnostic as `path: message (did you mean "suggestion"?)`
+ */
+export function formatConfigDiagnostic(diagnostic: ConfigDiagnostic): string {
+  const suggestion = diagnostic.suggestion ? ` (did you mean "${diagnostic.suggestion}"?)` : '';
+  return `${diagnostic.path}: ${diagnostic.message}${suggestion}`;
+}
+
+/**
+ * Warn about configuration problems, or throw when strict validation is enabled
+ *
+ * @param source Where the configuration came from, e.g. the config file path
+ */
+export function reportConfigDiagnostics(
+  diagnostics: ConfigDiagnostic[],
+  strict: boolean = false,
+  source?: string
+): void {
+  if (diagnostics.length === 0) {
+    return;
+  }
+  const message = `Invalid TraceRoot configuration${source ? ` in ${source}` : ''}:\n${diagnostics
+    .map(diagnostic => `  - ${formatConfigDiagnostic(diagnostic)}`)
+    .join('\n')}`;
+  if (strict) {
+    throw new Error(message);
+  }
+  console.warn(`[TraceRoot] ${message}`);
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: ObjectSchema,
+  prefix: string,
+  diagnostics: ConfigDiagnostic[]
+): void {
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const path = `${prefix}${key}`;
+    const fieldSchema = schema[key];
+    if (!fieldSchema) {
+      diagnostics.push(unknownKey(key, path, Object.keys(schema)));
+    } else if (fieldValue !== undefined) {
+      validateValue(fieldValue, fieldSchema, path, diagnostics);
+    }
+  }
+}
+
+function validateValue(
+  value: unknown,
+  schema: FieldSchema,
+  path: string,
+  diagnostics: ConfigDiagnostic[]
+): void {
+  switch (schema.type) {
+    case 'object':
+      if (isPlainObject(value)) {
+        validateObject(value, schema.fields, `${path}.`, diagnostics);
+        return;
+      }
+      break;
+    case 'record':
+      if (isPlainObject(value)) {
+        for (const [key, entry] of Object.entries(value)) {
+          validateValue(entry, schema.values, `${path}.${key}`, diagnostics);
+        }
+        return;
+      }
+      break;
+    case 'array':
+      if (Array.isArray(value)) {
+        value.forEach((item, index) =>
+          validateValue(item, schema.items, `${path}[${index}]`, diagnostics)
+        );
+        return;
+      }
+      break;
+    default:
+      if (matchesSchema(value, schema)) {
+        return;
+      }
+  }
+  diagnostics.push({
+    path,
+    message: `expected ${describeSchema(schema)}, got ${describeValue(value)}`,
+  });
+}
+
+function matchesSchema(value: unknown, schema: FieldSchema): boolean {
+  switch (schema.type) {
+    case 'any':
+      return true;
+    case 'string':
+    case 'boolean':
+    case 'function':
+      return typeof value === schema.type;
+    case 'regexp':
+      return value instanceof RegExp;
+    case 'primitive':
+      return ['string', 'number', 'boolean'].includes(typeof value);
+    case 'number':
+      return typeof value === 'number' && isValidNumber(value, schema);
+    case 'enum':
+      return (
+        typeof value === 'string' &&
+        schema.values.includes(schema.caseInsensitive ? value.toLowerCase() : value)
+      );
+    case 'union':
+      return schema.options.some(option => matchesSchema(value, option));
+    case 'object':
+    case 'record':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+  }
+}
+
+function isValidNumber(
+  value: number,
+  schema: { min?: number; max?: number; integer?: boolean }
+): boolean {
+  return (
+    !isNaN(value) &&
+    (schema.min === undefined || value >= schema.min) &&
+    (schema.max === undefined || value <= schema.max) &&
+    (!schema.integer || Number.isInteger(value))
+  );
+}
+
+/**
+ * Settings that are individually valid but don't work together
+ */
+function validateCombinations(
+  config: Partial<TraceRootConfig>,
+  diagnostics: ConfigDiagnostic[]
+): void {
+  const logExporter = config.log_exporter ?? 'cloudwatch';
+
+  if (config.enable_log_cloud_export && !config.enable_span_cloud_export) {
+    if (logExporter === 'cloudwatch') {
+      diagnostics.push({
+        path: 'enable_log_cloud_export',
+        message:
+          'CloudWatch log export requires enable_span_cloud_export (logs will not be exported)',
+      });
+    }
+  }
+
+  if (config.enable_span_cloud_export && !config.local_mode && !config.token) {
+    diagnostics.push({
+      path: 'enable_span_cloud_export',
+      message: 'cloud export requires a token (or local_mode: true)',
+    });
+  }
+
+  if (
+    config.log_exporter &&
+    config.log_exporter !== 'cloudwatch' &&
+    !config.enable_log_cloud_export
+  ) {
+    diagnostics.push({
+      path: 'log_exporter',
+      message: 'has no effect unless enable_log_cloud_export is true',
+    });
+  }
+
+  if (!config.log_file_path) {
+    for (const key of [
+      'log_file_format',
+      'log_file_max_size',
+      'log_file_rotation',
+      'log_file_max_files',
+      'log_file_compress',
+    ] as const) {
+      if (config[key] !== undefined) {
+        diagnostics.push({ path: key, message: 'has no effect without log_file_path' });
+      }
+    }
+  }
+
+  if (!config.span_file_dir && config.span_file_format !== undefined) {
+    diagnostics.push({ path: 'span_file_format', message: 'has no effect without span_file_dir' });
+  }
+
+  if (typeof config.proxy_url === 'string' && !isHttpUrl(config.proxy_url)) {
+    diagnostics.push({ path: 'proxy_url', message: 'expected an http:// or https:// URL' });
+  }
+
+  if (!config.credential_cache && config.credential_cache_dir !== undefined) {
+    diagnostics.push({
+      path: 'credential_cache_dir',
+      message: 'has no effect unless credential_cache is true',
+    });
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function unknownKey(key: string, path: string, knownKeys: string[]): ConfigDiagnostic {
+  const diagnostic: ConfigDiagnostic = { path, message: 'unknown option' };
+  const suggestion = closestMatch(key, knownKeys);
+  if (suggestion) {
+    diagnostic.suggestion = suggestion;
+  }
+  return diagnostic;
+}
+
+/**
+ * Find the known key with the smallest edit distance, if it is close enough to be a typo
+ */
+function closestMatch(key: string, knownKeys: string[]): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(key.length / 4));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of knownKeys) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= maxDistance ? best : undefined;
+}
+
+/**
+ * Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function describeSchema(schema: FieldSchema): string {
+  switch (schema.type) {
+    case 'any':
+      return 'any value';
+    case 'string':
+      return 'a string';
+    case 'boolean':
+      return 'a boolean';
+    case 'function':
+      return 'a function';
+    case 'regexp':
+      return 'a RegExp';
+    case 'primitive':
+      return 'a string, number or boolean';
+    case 'number': {
+      const kind = schema.integer ? 'an integer' : 'a number';
+      if (schema.min !== undefined && schema.max !== undefined) {
+        return `${kind} between ${schema.min} and ${schema.max}`;
+      }
+      return schema.min !== undefined ? `${kind} >= ${schema.min}` : kind;
+    }
+    case 'enum':
+      return `one of ${schema.values.map(value => `'${value}'`).join(', ')}`;
+    case 'union':
+      return schema.options.map(describeSchema).join(' or ');
+    case 'object':
+    case 'record':
+      return 'an object';
+    case 'array':
+      return 'an array';
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  return typeof value === 'object' ? 'an object' : String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,170 @@
+/**
+ * Config file hot-reload
+ *
+ * When the config file sets `watch: true`, changes to the file are applied to the running
+ * tracer and loggers for the options updateConfig() supports. Other changes need a restart
+ * and are reported as warnings.
+ */
+
+import { TraceRootConfig } from '../config';
+import { CONFIG_WATCH_DEFAULTS } from '../constants';
+import { resolveConfigFile } from './config';
+import { loadTypescriptConfigSync } from './configLoader';
+
+let _watcher: { close(): void } | null = null;
+let _debounceTimer: NodeJS.Timeout | null = null;
+// Options last loaded from the watched file, to find what a change touched
+let _fileConfig: Partial<TraceRootConfig> = {};
+
+/**
+ * Start watching a config file. Replaces any previous watcher.
+ *
+ * @param configPath Config file to watch
+ * @param config Options currently loaded from the file
+ */
+export function watchConfigFile(configPath: string, config: Partial<TraceRootConfig>): void {
+  stopConfigWatcher();
+  _fileConfig = config;
+
+  try {
+    const fs = require('fs');
+    const path = require('path');
+    const fileName = path.basename(configPath);
+
+    // Watch the directory so editors that save by replacing the file are picked up too
+    const watcher = fs.watch(
+      path.dirname(configPath),
+      { persistent: false },
+      (_event: string, changedFile: string | null) => {
+        if (changedFile && changedFile.toString() !== fileName) {
+          return;
+        }
+        if (_debounceTimer) {
+          clearTimeout(_debounceTimer);
+        }
+        _debounceTimer = setTimeout(() => {
+          _debounceTimer = null;
+          reloadConfigFile(configPath);
+        }, CONFIG_WATCH_DEFAULTS.DEBOUNCE_MS);
+        _debounceTimer.unref();
+      }
+    );
+    watcher.on('error', (error: any) => {
+      console.warn(`[TraceRoot] Stopped watching config file ${configPath}:`, error?.message);
+      stopConfigWatcher();
+    });
+    _watcher = watcher;
+  } catch (error: any) {
+    console.warn(`[TraceRoot] Failed to watch config file ${configPath}:`, error?.message || error);
+  }
+}
+
+/**
+ * Stop watching the config file, dropping any pending reload
+ */
+export function stopConfigWatcher(): void {
+  if (_debounceTimer) {
+    clearTimeout(_debounceTimer);
+    _debounceTimer = null;
+  }
+  if (_watcher) {
+    _watcher.close();
+    _watcher = null;
+  }
+}
+
+/**
+ * Reload the watched file and apply the options that changed since it was last loaded
+ */
+function reloadConfigFile(configPath: string): void {
+  let config: Partial<TraceRootConfig>;
+  try {
+    // Throw instead of falling back to environment variables while the file is being edited
+    const configFile = loadTypescriptConfigSync(configPath, false);
+    if (!configFile) {
+      return;
+    }
+    config = resolveConfigFile(configFile, configPath).config;
+  } catch (error: any) {
+    console.warn(
+      `[TraceRoot] Failed to reload config file ${configPath}, keeping the current configuration:`,
+      error?.message || error
+    );
+    return;
+  }
+
+  const { RUNTIME_CONFIG_KEYS, getConfig, updateTracingConfig } = require('../tracer');
+  const { reconfigureLoggers } = require('../logger');
+  if (!getConfig()) {
+    return;
+  }
+
+  const update: Record<string, unknown> = {};
+  const restartRequired: string[] = [];
+  const keys = new Set([...Object.keys(_fileConfig), ...Object.keys(config)]);
+  for (const key of keys) {
+    const previous = (_fileConfig as Record<string, unknown>)[key];
+    const current = (config as Record<string, unknown>)[key];
+    if (isSameValue(previous, current)) {
+      continue;
+    }
+    if (RUNTIME_CONFIG_KEYS.includes(key)) {
+      update[key] = current;
+    } else {
+      restartRequired.push(key);
+    }
+  }
+
+  if (restartRequired.length > 0) {
+    console.warn(
+      `[TraceRoot] Config file changes to ${restartRequired.join(', ')} require a restart and were not applied`
+    );
+  }
+  // Changes not applied stay pending, so they are applied or reported again on the next reload
+  const previousFileConfig = _fileConfig;
+  _fileConfig = withPreviousValues(config, previousFileConfig, restartRequired);
+  if (Object.keys(update).length === 0) {
+    return;
+  }
+
+  try {
+    updateTracingConfig(update);
+    reconfigureLoggers();
+    if (getConfig()?.tracer_verbose) {
+      console.log(`[TraceRoot] Applied config file changes: ${Object.keys(update).join(', ')}`);
+    }
+  } catch (error: any) {
+    _fileConfig = withPreviousValues(_fileConfig, previousFileConfig, Object.keys(update));
+    console.warn('[TraceRoot] Failed to apply config file changes:', error?.message || error);
+  }
+}
+
+/**
+ * Copy of `config` with the given keys set back to their values in `previous`
+ */
+function withPreviousValues(
+  config: Partial<TraceRootConfig>,
+  previous: Partial<TraceRootConfig>,
+  keys: string[]
+): Partial<TraceRootConfig> {
+  const result: Record<string, unknown> = { ...config };
+  for (const key of keys) {
+    if (key in previous) {
+      result[key] = (previous as Record<string, unknown>)[key];
+    } else {
+      delete result[key];
+    }
+  }
+  return result as Partial<TraceRootConfig>;
+}
+
+/**
+ * Compare option values by content; regular expressions are compared by their source
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  const serialize = (value: unknown) =>
+    JSON.stringify(value, (_key, nested) =>
+      nested instanceof RegExp ? nested.toString() : nested
+    );
+  return serialize(a) === serialize(b);
+}
@@ -0,0 +1,286 @@
+/**
+ * Outbound network settings
+ *
+ * Credential requests, the OTLP exporters and the CloudWatch client connect through
+ * `proxy_url` (or HTTPS_PROXY / HTTP_PROXY, except for hosts listed in NO_PROXY), trust the
+ * certificates in `ca_bundle_path` in addition to the default ones, and skip certificate
+ * verification with `tls_insecure`.
+ */
+
+import type { Agent, IncomingMessage } from 'http';
+import type { AgentOptions } from 'https';
+import { TraceRootConfig } from '../config';
+
+/**
+ * TLS options applied to connections to TraceRoot, the collector and AWS, and to HTTPS proxies
+ */
+export interface TlsOptions {
+  ca?: string[];
+  rejectUnauthorized?: boolean;
+}
+
+/**
+ * Options the network settings come from. Passed as JSON to requests made outside the SDK
+ * process, e.g. by the synchronous credential fetch.
+ */
+export type NetworkConfig = Pick<TraceRootConfig, 'proxy_url' | 'ca_bundle_path' | 'tls_insecure'>;
+
+/**
+ * Get the proxy to connect to a URL through: `proxy_url`, otherwise HTTPS_PROXY for https
+ * URLs and HTTP_PROXY for http URLs. NO_PROXY applies to both.
+ *
+ * @returns The proxy URL, or undefined to connect directly
+ */
+export function getProxyUrl(targetUrl: string, config: NetworkConfig): string | undefined {
+  const target = new URL(targetUrl);
+  const proxyUrl =
+    config.proxy_url ||
+    (target.protocol === 'https:'
+      ? process.env.HTTPS_PROXY || process.env.https_proxy
+      : process.env.HTTP_PROXY || process.env.http_proxy);
+  if (!proxyUrl || isNoProxyHost(target)) {
+    return undefined;
+  }
+  return proxyUrl;
+}
+
+/**
+ * Match a URL against NO_PROXY: `*`, or comma/space separated host names (matching the host and
+ * its subdomains, with or without a leading `.` or `*.`), optionally with a port
+ */
+function isNoProxyHost(target: URL): boolean {
+  const noProxy = process.env.NO_PROXY ?? process.env.no_proxy;
+  if (!noProxy) {
+    return false;
+  }
+
+  const hostname = target.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(entry => entry.length > 0)
+    .some(entry => {
+      if (entry === '*') {
+        return true;
+      }
+      const match = /^(.+?)(?::(\d+))?$/.exec(entry.toLowerCase().replace(/^\[|\]$/g, ''))!;
+      const [, host, entryPort] = match;
+      if (entryPort && entryPort !== port) {
+        return false;
+      }
+      const domain = host.replace(/^\*?\./, '');
+      return hostname === domain || hostname.endsWith(`.${domain}`);
+    });
+}
+
+/**
+ * Get the TLS options from `ca_bundle_path` and `tls_insecure`
+ *
+ * @returns The options, or undefined when neither is set
+ */
+export function getTlsOptions(config: NetworkConfig): TlsOptions | undefined {
+  if (!config.ca_bundle_path && !config.tls_insecure) {
+    return undefined;
+  }
+
+  const options: TlsOptions = {};
+  if (config.ca_bundle_path) {
+    try {
+      const bundle = require('fs').readFileSync(config.ca_bundle_path, 'utf8');
+      // Setting `ca` replaces the default root certificates, so keep them
+      options.ca = [...require('tls').rootCertificates, bundle];
+    } catch (error: any) {
+      console.warn(
+        `[TraceRoot] Failed to read CA bundle ${config.ca_bundle_path}:`,
+        error?.message || error
+      );
+    }
+  }
+  if (config.tls_insecure) {
+    options.rejectUnauthorized = false;
+  }
+  return options;
+}
+
+/**
+ * Get the options a child process needs to reach URLs like the SDK does
+ */
+export function getNetworkConfig(config: NetworkConfig): NetworkConfig {
+  return {
+    proxy_url: config.proxy_url,
+    ca_bundle_path: config.ca_bundle_path,
+    tls_insecure: config.tls_insecure,
+  };
+}
+
+/**
+ * Get the options of agents connecting directly, with the TLS settings. Passed to the OTLP
+ * exporters as `httpAgentOptions`.
+ *
+ * @returns The options, or undefined when no TLS setting applies
+ */
+export function getHttpAgentOptions(config: NetworkConfig): AgentOptions | undefined {
+  const tlsOptions = getTlsOptions(config);
+  return tlsOptions && { keepAlive: true, ...tlsOptions };
+}
+
+/**
+ * Create the agent to connect to a URL with the proxy and TLS settings
+ *
+ * @returns The agent, or undefined when no setting applies and the default agent can be used
+ */
+export function createHttpAgent(targetUrl: string, config: NetworkConfig): Agent | undefined {
+  const proxyAgent = createProxyAgent(targetUrl, config);
+  if (proxyAgent) {
+    return proxyAgent;
+  }
+  const agentOptions = getHttpAgentOptions(config);
+  if (agentOptions && URL.canParse(targetUrl) && new URL(targetUrl).protocol === 'https:') {
+    const https = require('https');
+    return new https.Agent(agentOptions);
+  }
+  return undefined;
+}
+
+/**
+ * Create the agent tunneling connections to a URL through the proxy, with the TLS settings
+ *
+ * @returns The agent, or undefined when the URL is reached without a proxy
+ */
+export function createProxyAgent(targetUrl: string, config: NetworkConfig): Agent | undefined {
+  if (!URL.canParse(targetUrl)) {
+    // Reported by the exporter using the URL
+    return undefined;
+  }
+  const proxyUrl = getProxyUrl(targetUrl, config);
+  if (!proxyUrl) {
+    return undefined;
+  }
+  const ProxyTunnelAgent = getProxyTunnelAgentClass();
+  const secure = new URL(targetUrl).protocol === 'https:';
+  return new ProxyTunnelAgent(new URL(proxyUrl), secure, getTlsOptions(config) ?? {});
+}
+
+/**
+ * Make an OTLP exporter send through a proxy agent. Exporters of the OpenTelemetry version in use
+ * only take options for the agent they create on the first export, so the agent of their HTTP
+ * transport is replaced.
+ */
+export function useProxyAgentForOtlpExporter(exporter: object, agent: Agent | undefined): void {
+  if (!agent) {
+    return;
+  }
+  const transport = (exporter as any)._transport?._transport;
+  if (!transport || !('_agent' in transport)) {
+    console.warn('[TraceRoot] Unable to apply proxy settings to the OTLP exporter');
+    return;
+  }
+  Object.defineProperty(transport, '_agent', {
+    get: () => agent,
+    // Ignore the agent the transport creates on the first export
+    set: () => {},
+  });
+}
+
+/**
+ * GET a JSON document through an agent, or a new connection with `agent: false`
+ */
+export function getJson(url: string, agent: Agent | false, timeoutMs: number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const request = require(url.startsWith('https:') ? 'https' : 'http').get(
+      url,
+      { agent, headers: { 'Content-Type': 'application/json' }, timeout: timeoutMs },
+      (response: IncomingMessage) => {
+        let body = '';
+        response.setEncoding('utf8');
+        response.on('data', chunk => (body += chunk));
+        response.on('end', () => {
+          const status = response.statusCode ?? 0;
+          if (status < 200 || status >= 300) {
+            reject(new Error(`HTTP ${status}: ${response.statusMessage}`));
+            return;
+          }
+          try {
+            resolve(JSON.parse(body));
+          } catch (error) {
+            reject(error);
+          }
+        });
+      }
+    );
+    request.on('timeout', () => request.destroy(new Error('Request timed out')));
+    request.on('error', reject);
+  });
+}
+
+let _ProxyTunnelAgent: ReturnType<typeof defineProxyTunnelAgent> | null = null;
+
+// Defined on first use so that http is required after instrumentations wrap it
+function getProxyTunnelAgentClass(): ReturnType<typeof defineProxyTunnelAgent> {
+  _ProxyTunnelAgent ??= defineProxyTunnelAgent();
+  return _ProxyTunnelAgent;
+}
+
+function defineProxyTunnelAgent() {
+  const http = require('http') as typeof import('http');
+
+  /**
+   * Agent tunneling connections through an HTTP(S) proxy with CONNECT, then starting TLS to
+   * the target for https URLs
+   */
+  class ProxyTunnelAgent extends http.Agent {
+    constructor(
+      private readonly proxy: URL,
+      private readonly secure: boolean,
+      private readonly tlsOptions: TlsOptions
+    ) {
+      super({ keepAlive: true });
+      // Checked by https.request() against the protocol of the URL
+      (this as any).protocol = secure ? 'https:' : 'http:';
+      (this as any).defaultPort = secure ? 443 : 80;
+    }
+
+    // Connects asynchronously: returns nothing and passes the socket to the callback
+    createConnection(options: any, callback: (error: Error | null, socket?: any) => void): any {
+      const host = options.hostname || options.host;
+      const authority = `${host.includes(':') ? `[${host}]` : host}:${options.port}`;
+      const headers: Record<string, string> = { Host: authority };
+      if (this.proxy.username) {
+        const credentials = `${decodeURIComponent(this.proxy.username)}:${decodeURIComponent(this.proxy.password)}`;
+        headers['Proxy-Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+      }
+
+      const proxySecure = this.proxy.protocol === 'https:';
+      const request = require(proxySecure ? 'https' : 'http').request({
+        host: this.proxy.hostname,
+        port: this.proxy.port || (proxySecure ? 443 : 80),
+        method: 'CONNECT',
+        path: authority,
+        headers,
+        agent: false,
+        ...(proxySecure ? this.tlsOptions : {}),
+      });
+      request.once('connect', (response: any, socket: any) => {
+        if (response.statusCode !== 200) {
+          socket.destroy();
+          callback(new Error(`Proxy responded to CONNECT with HTTP ${response.statusCode}`));
+          return;
+        }
+        if (!this.secure) {
+          callback(null, socket);
+          return;
+        }
+        const tlsSocket = require('tls').connect({
+          ...this.tlsOptions,
+          socket,
+          servername: options.servername || (require('net').isIP(host) ? undefined : host),
+        });
+        callback(null, tlsSocket);
+      });
+      request.once('error', (error: Error) => callback(error));
+      request.end();
+    }
+  }
+
+  return ProxyTunnelAgent;
+}
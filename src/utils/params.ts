@@ -0,0 +1,318 @@
+/**
+ * Parameter name extraction for traceParams
+ *
+ * Parses the parameter list from a function's source text, handling default values,
+ * rest parameters, destructuring patterns and arrow functions without parentheses.
+ */
+
+/**
+ * A parameter of a traced function
+ */
+export interface ParamInfo {
+  /** Parameter name; undefined for destructuring patterns, recorded as `arg<position>` */
+  name?: string;
+  /** Rest parameter (`...args`), receives all remaining arguments */
+  rest?: boolean;
+  /** Names bound by an object destructuring pattern (property name → binding) */
+  objectKeys?: string[];
+  /** Binding name of an object rest element (`{ a, ...others }`) */
+  objectRest?: string;
+  /** Names bound by an array destructuring pattern, by position */
+  arrayNames?: (string | undefined)[];
+}
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/;
+const ARROW_WITHOUT_PARENS_REGEX = /^(?:async\s+)?([A-Za-z_$][\w$]*)\s*=>/;
+
+// Functions are parsed once; parsing runs on every traced call otherwise
+const _paramCache: WeakMap<Function, ParamInfo[]> = new WeakMap();
+
+/**
+ * Extract the parameters of a function, or build them from explicit names.
+ * Explicit names are used as-is (a `...` prefix marks a rest parameter), which
+ * keeps parameter tracing working for minified code.
+ */
+export function extractParams(fn: Function, paramNames?: string[]): ParamInfo[] {
+  if (paramNames) {
+    return paramNames.map(name =>
+      name.startsWith('...') ? { name: name.substring(3), rest: true } : { name }
+    );
+  }
+
+  const cached = _paramCache.get(fn);
+  if (cached) {
+    return cached;
+  }
+
+  let params: ParamInfo[] = [];
+  try {
+    // Unrecognized parameters keep their position but are not traced
+    params = _parseParamList(_getParamListSource(fn)).map(source => _parseParam(source) || {});
+  } catch {
+    // Unparseable source (e.g. native code); trace no parameters
+  }
+  _paramCache.set(fn, params);
+  return params;
+}
+
+/**
+ * Map call arguments to `params.*` attribute entries.
+ *
+ * Destructuring patterns have no parameter name, so they are recorded by position as nested
+ * objects of the names they bind (`params.arg0` → `{ userId, options }`), flattened into
+ * attributes like any other object parameter. With a list of traced parameters, a pattern is
+ * recorded whole when `arg<position>` is listed, otherwise only the listed names it binds are.
+ */
+export function paramsToDict(
+  params: ParamInfo[],
+  args: any[],
+  shouldTrack: (name: string) => boolean
+): Record<string, any> {
+  const result: Record<string, any> = {};
+  const track = (name: string | undefined, value: any) => {
+    if (name && name !== 'this' && shouldTrack(name)) {
+      result[`params.${name}`] = value;
+    }
+  };
+
+  params.forEach((param, index) => {
+    if (param.rest) {
+      if (index < args.length) {
+        track(param.name, args.slice(index));
+      }
+      return;
+    }
+    if (index >= args.length) {
+      return;
+    }
+
+    const value = args[index];
+    if (!param.objectKeys && !param.arrayNames) {
+      track(param.name, value);
+      return;
+    }
+
+    const positionName = `arg${index}`;
+    const trackAll = shouldTrack(positionName);
+    const bound: Record<string, any> = {};
+    const bind = (name: string | undefined, entry: any) => {
+      if (name && (trackAll || shouldTrack(name))) {
+        bound[name] = entry;
+      }
+    };
+
+    if (param.objectKeys) {
+      if (value === null || typeof value !== 'object') {
+        return;
+      }
+      for (const key of param.objectKeys) {
+        if (key in value) {
+          bind(key, value[key]);
+        }
+      }
+      if (param.objectRest) {
+        const others: Record<string, any> = {};
+        for (const [key, entry] of Object.entries(value)) {
+          if (!param.objectKeys.includes(key)) {
+            others[key] = entry;
+          }
+        }
+        bind(param.objectRest, others);
+      }
+    } else if (param.arrayNames) {
+      if (!Array.isArray(value)) {
+        return;
+      }
+      param.arrayNames.forEach((name, position) => {
+        if (position < value.length) {
+          bind(name, value[position]);
+        }
+      });
+    }
+
+    if (Object.keys(bound).length > 0) {
+      result[`params.${positionName}`] = bound;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Get the source text between the parentheses of the parameter list
+ */
+function _getParamListSource(fn: Function): string {
+  const source = _stripComments(Function.prototype.toString.call(fn)).trim();
+
+  const arrowMatch = source.match(ARROW_WITHOUT_PARENS_REGEX);
+  if (arrowMatch) {
+    return arrowMatch[1];
+  }
+
+  // Skip a computed method name such as [Symbol.iterator](...)
+  let start = 0;
+  const bracketIndex = source.indexOf('[');
+  const parenIndex = source.indexOf('(');
+  if (bracketIndex !== -1 && bracketIndex < parenIndex) {
+    start = _findClosing(source, bracketIndex) + 1;
+  }
+
+  const open = source.indexOf('(', start);
+  if (open === -1) {
+    return '';
+  }
+  return source.substring(open + 1, _findClosing(source, open));
+}
+
+/**
+ * Find the index of the bracket closing the one at `open`, skipping strings and nested brackets
+ */
+function _findClosing(source: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = _skipString(source, i);
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  throw new Error('Unbalanced brackets in function source');
+}
+
+/**
+ * Return the index of the quote closing the string starting at `start`
+ */
+function _skipString(source: string, start: number): number {
+  const quote = source[start];
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === quote) {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Remove line and block comments outside of string literals
+ */
+function _stripComments(source: string): string {
+  let result = '';
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === '`') {
+      const end = _skipString(source, i);
+      result += source.substring(i, end + 1);
+      i = end;
+    } else if (char === '/' && source[i + 1] === '/') {
+      const end = source.indexOf('\n', i);
+      i = end === -1 ? source.length : end - 1;
+    } else if (char === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      i = end === -1 ? source.length : end + 1;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Split a list on commas that are not nested in brackets or strings
+ */
+function _parseParamList(source: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === '`') {
+      const end = _skipString(source, i);
+      current += source.substring(i, end + 1);
+      i = end;
+      continue;
+    }
+    if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+/**
+ * Remove a top-level default value (`name = value`)
+ */
+function _stripDefault(source: string): string {
+  let depth = 0;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = _skipString(source, i);
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+    } else if (char === '=' && depth === 0) {
+      return source.substring(0, i).trim();
+    }
+  }
+  return source.trim();
+}
+
+function _parseParam(source: string): ParamInfo | null {
+  const param = _stripDefault(source);
+
+  if (param.startsWith('...')) {
+    const name = param.substring(3).trim();
+    return IDENTIFIER_REGEX.test(name) ? { name, rest: true } : null;
+  }
+
+  if (param.startsWith('{')) {
+    const objectKeys: string[] = [];
+    let objectRest: string | undefined;
+    for (const entry of _parseParamList(param.substring(1, _findClosing(param, 0)))) {
+      if (entry.startsWith('...')) {
+        objectRest = entry.substring(3).trim();
+        continue;
+      }
+      // `key: alias = default` is read from the argument by its property name
+      const key = _stripDefault(entry)
+        .split(':')[0]
+        .trim()
+        .replace(/^['"]|['"]$/g, '');
+      if (key && !key.startsWith('[')) {
+        objectKeys.push(key);
+      }
+    }
+    return { objectKeys, objectRest };
+  }
+
+  if (param.startsWith('[')) {
+    const arrayNames = _parseParamList(param.substring(1, _findClosing(param, 0))).map(entry => {
+      const name = _stripDefault(entry);
+      return IDENTIFIER_REGEX.test(name) ? name : undefined;
+    });
+    return { arrayNames };
+  }
+
+  return IDENTIFIER_REGEX.test(param) ? { name: param } : null;
+}
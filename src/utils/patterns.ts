@@ -0,0 +1,29 @@
+/**
+ * Name matching helpers shared by sampling rules and class tracing
+ */
+
+/**
+ * Check whether a name matches a pattern.
+ * String patterns match the whole name and support `*` wildcards.
+ */
+export function matchesPattern(name: string, pattern: string | RegExp): boolean {
+  return toRegExp(pattern).test(name);
+}
+
+/**
+ * Check whether a name matches any of the given patterns
+ */
+export function matchesAnyPattern(name: string, patterns: (string | RegExp)[]): boolean {
+  return patterns.some(pattern => matchesPattern(name, pattern));
+}
+
+/**
+ * Convert a pattern into a RegExp; string patterns become anchored wildcard expressions
+ */
+export function toRegExp(pattern: string | RegExp, ignoreCase: boolean = false): RegExp {
+  if (pattern instanceof RegExp) {
+    return pattern;
+  }
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, ignoreCase ? 'i' : '');
+}
@@ -0,0 +1,245 @@
+/**
+ * PII redaction for span attributes and log records
+ *
+ * Applies the `redaction` rules from TraceRootConfig to traced parameters, return values,
+ * custom span attributes and log messages/metadata before they leave the process.
+ */
+
+import { createHash } from 'crypto';
+import { RedactionConfig } from '../config';
+import { toRegExp } from './patterns';
+import { isPlainObject } from './serialization';
+
+const DEFAULT_MASK = '[REDACTED]';
+const MAX_REDACTION_DEPTH = 20;
+
+/**
+ * Built-in value patterns that can be referenced by name in redaction rules
+ */
+export const BUILTIN_REDACTION_PATTERNS = {
+  credit_card: /\b\d(?:[ -]?\d){12,18}\b/g,
+  jwt: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+};
+
+interface CompiledKeyRule {
+  regExp: RegExp;
+  mode: 'mask' | 'hash' | 'drop';
+}
+
+interface CompiledValueRule {
+  regExp: RegExp;
+  mode: 'mask' | 'hash' | 'drop';
+  // Credit card matches are checked with the Luhn algorithm to avoid masking plain numbers
+  luhn: boolean;
+}
+
+// Marker for values removed by a `drop` rule
+const DROPPED = Symbol('traceroot.redaction.dropped');
+
+/**
+ * Redaction engine compiled from a RedactionConfig
+ */
+export class Redactor {
+  private readonly keyRules: CompiledKeyRule[];
+  private readonly valueRules: CompiledValueRule[];
+  private readonly mask: string;
+
+  constructor(config: RedactionConfig) {
+    this.mask = config.mask ?? DEFAULT_MASK;
+    this.keyRules = [];
+    this.valueRules = [];
+
+    for (const rule of config.rules || []) {
+      const mode = rule.mode || 'mask';
+      // String key patterns are case-insensitive (`Password` matches `password`)
+      if (rule.key !== undefined) {
+        const keyRegExp = toRegExp(rule.key, true);
+        // Drop the global/sticky flags so test() doesn't keep state between keys
+        this.keyRules.push({
+          regExp: new RegExp(keyRegExp.source, keyRegExp.flags.replace(/[gy]/g, '')),
+          mode,
+        });
+      }
+      if (rule.pattern === undefined) {
+        continue;
+      }
+      if (rule.pattern instanceof RegExp) {
+        // Always replace every occurrence
+        const flags = rule.pattern.flags.includes('g')
+          ? rule.pattern.flags
+          : `${rule.pattern.flags}g`;
+        this.valueRules.push({ regExp: new RegExp(rule.pattern.source, flags), mode, luhn: false });
+      } else if (rule.pattern in BUILTIN_REDACTION_PATTERNS) {
+        this.valueRules.push({
+          regExp: BUILTIN_REDACTION_PATTERNS[rule.pattern],
+          mode,
+          luhn: rule.pattern === 'credit_card',
+        });
+      } else {
+        console.error(`[TraceRoot] Unknown redaction pattern ignored: ${rule.pattern}`);
+      }
+    }
+  }
+
+  /**
+   * Return a redacted copy of a dictionary; keys matched by `drop` rules are removed
+   */
+  redactObject(data: Record<string, any>): Record<string, any> {
+    const result = this.redactNested(data, 0, new Set());
+    return result === DROPPED ? {} : result;
+  }
+
+  /**
+   * Redact sensitive values inside a string (e.g. a log message).
+   * A string matched by a `drop` rule is replaced by the mask, since it can't be removed.
+   */
+  redactString(text: string): string {
+    const redacted = this.redactText(text);
+    return redacted === DROPPED ? this.mask : redacted;
+  }
+
+  private redactNested(value: any, depth: number, ancestors: Set<object>): any {
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (value === null || typeof value !== 'object' || depth >= MAX_REDACTION_DEPTH) {
+      return value;
+    }
+    if (ancestors.has(value)) {
+      return '[Circular]';
+    }
+    ancestors.add(value);
+    try {
+      // Converted like serialization does, so their content survives the copy
+      if (value instanceof Map) {
+        return this.redactEntries(Object.fromEntries(value), depth, ancestors);
+      }
+      if (value instanceof Set) {
+        return this.redactNested(Array.from(value), depth, ancestors);
+      }
+      if (value instanceof Error) {
+        const { name, message, stack } = value;
+        return this.redactEntries({ ...value, name, message, stack }, depth, ancestors);
+      }
+      if (Array.isArray(value)) {
+        return value
+          .map(item => this.redactNested(item, depth + 1, ancestors))
+          .filter(item => item !== DROPPED);
+      }
+      // Other class instances (dates, buffers, ...) are passed through as they are
+      return isPlainObject(value) ? this.redactEntries(value, depth, ancestors) : value;
+    } finally {
+      ancestors.delete(value);
+    }
+  }
+
+  private redactEntries(value: object, depth: number, ancestors: Set<object>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const keyRule = this.findKeyRule(key);
+      let redacted: any;
+      if (keyRule) {
+        redacted = this.apply(keyRule.mode, entry);
+      } else {
+        redacted = this.redactNested(entry, depth + 1, ancestors);
+      }
+      if (redacted !== DROPPED) {
+        result[key] = redacted;
+      }
+    }
+    return result;
+  }
+
+  private redactText(text: string): string | typeof DROPPED {
+    let result = text;
+    for (const rule of this.valueRules) {
+      let dropped = false;
+      result = result.replace(rule.regExp, match => {
+        if (rule.luhn && !_passesLuhn(match)) {
+          return match;
+        }
+        if (rule.mode === 'drop') {
+          dropped = true;
+          return match;
+        }
+        return this.apply(rule.mode, match);
+      });
+      if (dropped) {
+        return DROPPED;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Match key rules against the full key and its last dotted segment (e.g. `params.password`)
+   */
+  private findKeyRule(key: string): CompiledKeyRule | undefined {
+    const lastSegment = key.substring(key.lastIndexOf('.') + 1);
+    return this.keyRules.find(rule => rule.regExp.test(key) || rule.regExp.test(lastSegment));
+  }
+
+  private apply(mode: 'mask' | 'hash' | 'drop', value: any): any {
+    if (mode === 'drop') {
+      return DROPPED;
+    }
+    if (mode === 'hash') {
+      const text = typeof value === 'string' ? value : (JSON.stringify(value) ?? String(value));
+      return `sha256:${createHash('sha256').update(text).digest('hex').substring(0, 16)}`;
+    }
+    return this.mask;
+  }
+}
+
+// Compiled redactors, reused while the config object stays the same
+const _redactorCache: WeakMap<RedactionConfig, Redactor> = new WeakMap();
+
+/**
+ * Get the redactor for a config, or null when redaction is not configured
+ */
+export function getRedactor(config?: RedactionConfig): Redactor | null {
+  if (!config || !config.rules || config.rules.length === 0) {
+    return null;
+  }
+  let redactor = _redactorCache.get(config);
+  if (!redactor) {
+    redactor = new Redactor(config);
+    _redactorCache.set(config, redactor);
+  }
+  return redactor;
+}
+
+/**
+ * Apply redaction rules to a sample value, for testing rules before shipping them.
+ * Strings are redacted as log messages, objects as attributes/metadata.
+ */
+export function testRedaction<T>(input: T, config: RedactionConfig): T {
+  const redactor = getRedactor(config);
+  if (!redactor) {
+    return input;
+  }
+  if (typeof input === 'string') {
+    return redactor.redactString(input) as T;
+  }
+  if (input !== null && typeof input === 'object') {
+    return redactor.redactObject(input as Record<string, any>) as T;
+  }
+  return input;
+}
+
+function _passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
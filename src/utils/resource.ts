@@ -0,0 +1,24 @@
+/**
+ * OpenTelemetry resource describing the instrumented service
+ */
+
+import { Resource } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import { TraceRootConfigImpl } from '../config';
+import { TELEMETRY_ATTRIBUTES, TELEMETRY_SDK_LANGUAGE } from '../constants';
+
+/**
+ * Create the resource shared by the span and log pipelines
+ */
+export function createServiceResource(config: TraceRootConfigImpl): Resource {
+  return Resource.default().merge(
+    new Resource({
+      [ATTR_SERVICE_NAME]: config.service_name,
+      [ATTR_SERVICE_VERSION]: config.github_commit_hash,
+      'service.github_owner': config.github_owner,
+      'service.github_repo_name': config.github_repo_name,
+      'service.environment': config.environment,
+      [TELEMETRY_ATTRIBUTES.SDK_LANGUAGE]: TELEMETRY_SDK_LANGUAGE,
+    })
+  );
+}
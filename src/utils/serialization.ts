@@ -0,0 +1,232 @@
+/**
+ * Span attribute serialization
+ *
+ * Converts arbitrary values into OpenTelemetry attribute values: primitives and
+ * homogeneous primitive arrays are kept as-is, everything else becomes bounded JSON.
+ */
+
+import { AttributeValue } from '@opentelemetry/api';
+import { SerializationConfig } from '../config';
+import { SERIALIZATION_DEFAULTS } from '../constants';
+
+/**
+ * An attribute value and whether it was shortened to fit the limits
+ */
+export interface SerializedValue {
+  value: AttributeValue;
+  truncated: boolean;
+}
+
+interface SerializationLimits {
+  maxStringLength: number;
+  maxDepth: number;
+  maxKeys: number;
+}
+
+/**
+ * Serialize a value and store it under `key`, adding a `<key>.truncated` marker
+ * attribute when the value had to be shortened
+ */
+export function setSerializedAttribute(
+  target: Record<string, AttributeValue>,
+  key: string,
+  value: any,
+  policy?: SerializationConfig
+): void {
+  const serialized = toAttributeValue(value, policy);
+  target[key] = serialized.value;
+  if (serialized.truncated) {
+    target[`${key}.truncated`] = true;
+  }
+}
+
+/**
+ * Convert a value into an attribute value according to the serialization policy
+ */
+export function toAttributeValue(value: any, policy?: SerializationConfig): SerializedValue {
+  const limits = _resolveLimits(policy);
+
+  if (typeof value === 'string') {
+    return _truncate(value, limits.maxStringLength);
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return { value, truncated: false };
+  }
+  if (value instanceof Date) {
+    return { value: _dateToString(value), truncated: false };
+  }
+  if (value instanceof Uint8Array) {
+    return _bufferToString(value, limits.maxStringLength);
+  }
+  if (Array.isArray(value)) {
+    const primitiveArray = _toPrimitiveArray(value, limits);
+    if (primitiveArray) {
+      return primitiveArray;
+    }
+  }
+  if (value === null || typeof value !== 'object') {
+    return _truncate(String(value), limits.maxStringLength);
+  }
+
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(_sanitize(value, 0, [], limits));
+  } catch {
+    // toJSON implementations can throw
+  }
+  return _truncate(json ?? String(value), limits.maxStringLength);
+}
+
+/**
+ * Check whether a value is a plain object (object literal or null-prototype object)
+ */
+export function isPlainObject(value: any): value is Record<string, any> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Get the maximum object depth of a policy, used to bound attribute flattening
+ */
+export function getMaxDepth(policy?: SerializationConfig): number {
+  return _resolveLimits(policy).maxDepth;
+}
+
+function _resolveLimits(policy: SerializationConfig = {}): SerializationLimits {
+  return {
+    maxStringLength: policy.max_string_length ?? SERIALIZATION_DEFAULTS.MAX_STRING_LENGTH,
+    maxDepth: policy.max_depth ?? SERIALIZATION_DEFAULTS.MAX_DEPTH,
+    maxKeys: policy.max_keys ?? SERIALIZATION_DEFAULTS.MAX_KEYS,
+  };
+}
+
+function _truncate(value: string, maxLength: number): SerializedValue {
+  if (value.length <= maxLength) {
+    return { value, truncated: false };
+  }
+  return { value: value.substring(0, maxLength), truncated: true };
+}
+
+function _dateToString(date: Date): string {
+  return isNaN(date.getTime()) ? 'Invalid Date' : date.toISOString();
+}
+
+function _bufferToString(buffer: Uint8Array, maxLength: number): SerializedValue {
+  // Only encode the bytes that fit (4 base64 characters per 3 bytes)
+  const maxBytes = Math.floor(maxLength / 4) * 3;
+  const encoded = Buffer.from(
+    buffer.buffer,
+    buffer.byteOffset,
+    Math.min(buffer.byteLength, maxBytes)
+  ).toString('base64');
+  return { value: encoded, truncated: buffer.byteLength > maxBytes };
+}
+
+/**
+ * Keep arrays whose items all share one primitive type (nulls allowed) as native arrays
+ */
+function _toPrimitiveArray(items: any[], limits: SerializationLimits): SerializedValue | null {
+  let itemType: string | undefined;
+  for (const item of items) {
+    if (item === null || item === undefined) {
+      continue;
+    }
+    const type = typeof item;
+    if (
+      (type !== 'string' && type !== 'number' && type !== 'boolean') ||
+      (itemType && type !== itemType)
+    ) {
+      return null;
+    }
+    itemType = type;
+  }
+
+  let truncated = items.length > limits.maxKeys;
+  const value = items.slice(0, limits.maxKeys).map(item => {
+    if (item === undefined) {
+      return null;
+    }
+    if (typeof item === 'string') {
+      const serialized = _truncate(item, limits.maxStringLength);
+      truncated = truncated || serialized.truncated;
+      return serialized.value as string;
+    }
+    return item;
+  });
+  return { value: value as AttributeValue, truncated };
+}
+
+/**
+ * Build a JSON-safe copy of a value, bounded in depth and size, with cycles replaced
+ */
+function _sanitize(value: any, depth: number, ancestors: any[], limits: SerializationLimits): any {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value !== 'object') {
+    // Functions and symbols are dropped like JSON.stringify does
+    return typeof value === 'function' || typeof value === 'symbol' ? undefined : value;
+  }
+
+  if (value instanceof Date) {
+    return _dateToString(value);
+  }
+  if (value instanceof Uint8Array) {
+    return _bufferToString(value, limits.maxStringLength).value;
+  }
+  if (ancestors.includes(value)) {
+    return '[Circular]';
+  }
+  if (depth >= limits.maxDepth) {
+    return Array.isArray(value) ? '[Array]' : '[Object]';
+  }
+
+  ancestors.push(value);
+  try {
+    if (value instanceof Map) {
+      return _sanitize(Object.fromEntries(value), depth, ancestors, limits);
+    }
+    if (value instanceof Set) {
+      return _sanitize(Array.from(value), depth, ancestors, limits);
+    }
+    if (value instanceof Error) {
+      return _sanitize(
+        { ...value, name: value.name, message: value.message },
+        depth,
+        ancestors,
+        limits
+      );
+    }
+    if (typeof value.toJSON === 'function') {
+      return _sanitize(value.toJSON(), depth, ancestors, limits);
+    }
+
+    if (Array.isArray(value)) {
+      const items = value
+        .slice(0, limits.maxKeys)
+        .map(item => _sanitize(item, depth + 1, ancestors, limits));
+      if (value.length > limits.maxKeys) {
+        items.push(`[${value.length - limits.maxKeys} more items]`);
+      }
+      return items;
+    }
+
+    const keys = Object.keys(value);
+    const result: Record<string, any> = {};
+    for (const key of keys.slice(0, limits.maxKeys)) {
+      result[key] = _sanitize(value[key], depth + 1, ancestors, limits);
+    }
+    if (keys.length > limits.maxKeys) {
+      result['...'] = `[${keys.length - limits.maxKeys} more keys]`;
+    }
+    return result;
+  } finally {
+    ancestors.pop();
+  }
+}
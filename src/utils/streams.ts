@@ -0,0 +1,209 @@
+/**
+ * Streaming return value support for traced functions
+ *
+ * Generators and streams produce their values after the traced call has returned,
+ * so the span must stay open until iteration finishes, the stream ends, or it errors.
+ */
+
+import { Readable } from 'stream';
+import { ReadableStream as WebReadableStream } from 'stream/web';
+import { context as otelContext, Context } from '@opentelemetry/api';
+
+/**
+ * Callbacks invoked while a streaming result is consumed
+ */
+export interface StreamObserver {
+  onItem(): void;
+  onComplete(): void;
+  onError(error: any): void;
+}
+
+/**
+ * Check whether a value is a sync/async generator or a Node / web readable stream
+ */
+export function isStreamingResult(value: any): boolean {
+  return (
+    _isGenerator(value) ||
+    _isAsyncGenerator(value) ||
+    value instanceof Readable ||
+    value instanceof WebReadableStream
+  );
+}
+
+/**
+ * Wrap a streaming result so the observer sees each item, the end and any error.
+ * Iteration steps and stream events run inside the given context, so spans and logs
+ * created while producing items are attached to the traced function's span.
+ */
+export function wrapStreamingResult<T>(value: T, ctx: Context, observer: StreamObserver): T {
+  const settled = _settleOnce(observer);
+
+  if (_isGenerator(value)) {
+    return _wrapGenerator(value as any, ctx, settled) as T;
+  }
+  if (_isAsyncGenerator(value)) {
+    return _wrapAsyncGenerator(value as any, ctx, settled) as T;
+  }
+  if (value instanceof Readable) {
+    _observeReadable(value, ctx, settled);
+    return value;
+  }
+  if (value instanceof WebReadableStream) {
+    return _wrapWebStream(value, ctx, settled) as T;
+  }
+  return value;
+}
+
+function _isGenerator(value: any): value is Generator {
+  return Object.prototype.toString.call(value) === '[object Generator]';
+}
+
+function _isAsyncGenerator(value: any): value is AsyncGenerator {
+  return Object.prototype.toString.call(value) === '[object AsyncGenerator]';
+}
+
+/**
+ * Ensure completion callbacks fire at most once
+ */
+function _settleOnce(observer: StreamObserver): StreamObserver {
+  let settled = false;
+  return {
+    onItem: () => {
+      if (!settled) {
+        observer.onItem();
+      }
+    },
+    onComplete: () => {
+      if (!settled) {
+        settled = true;
+        observer.onComplete();
+      }
+    },
+    onError: (error: any) => {
+      if (!settled) {
+        settled = true;
+        observer.onError(error);
+      }
+    },
+  };
+}
+
+function _wrapGenerator(generator: Generator, ctx: Context, observer: StreamObserver): Generator {
+  const step = (action: () => IteratorResult<any>): IteratorResult<any> => {
+    let result: IteratorResult<any>;
+    try {
+      result = otelContext.with(ctx, action);
+    } catch (error) {
+      observer.onError(error);
+      throw error;
+    }
+    if (result.done) {
+      observer.onComplete();
+    } else {
+      observer.onItem();
+    }
+    return result;
+  };
+
+  const wrapped = {
+    next: (...args: [] | [any]) => step(() => generator.next(...args)),
+    // return() is called when the consumer stops early (e.g. `break` in for...of)
+    return: (value: any) => step(() => generator.return(value)),
+    throw: (error: any) => step(() => generator.throw(error)),
+    [Symbol.iterator]() {
+      return wrapped;
+    },
+  };
+  return wrapped as Generator;
+}
+
+function _wrapAsyncGenerator(
+  generator: AsyncGenerator,
+  ctx: Context,
+  observer: StreamObserver
+): AsyncGenerator {
+  const step = async (action: () => Promise<IteratorResult<any>>) => {
+    let result: IteratorResult<any>;
+    try {
+      result = await otelContext.with(ctx, action);
+    } catch (error) {
+      observer.onError(error);
+      throw error;
+    }
+    if (result.done) {
+      observer.onComplete();
+    } else {
+      observer.onItem();
+    }
+    return result;
+  };
+
+  const wrapped = {
+    next: (...args: [] | [any]) => step(() => generator.next(...args)),
+    return: (value: any) => step(() => generator.return(value)),
+    throw: (error: any) => step(() => generator.throw(error)),
+    [Symbol.asyncIterator]() {
+      return wrapped;
+    },
+  };
+  return wrapped as AsyncGenerator;
+}
+
+function _observeReadable(stream: Readable, ctx: Context, observer: StreamObserver): void {
+  // Count chunks where they are produced so every consumption mode
+  // (data events, read(), async iteration, pipe) is covered
+  const originalPush = stream.push;
+  stream.push = function (this: Readable, chunk: any, encoding?: BufferEncoding): boolean {
+    if (chunk !== null) {
+      observer.onItem();
+    }
+    return originalPush.call(this, chunk, encoding);
+  };
+
+  const originalEmit = stream.emit;
+  stream.emit = function (this: Readable, event: string | symbol, ...args: any[]): boolean {
+    if (event === 'end') {
+      observer.onComplete();
+    } else if (event === 'error') {
+      observer.onError(args[0]);
+    } else if (event === 'close') {
+      // Closed without 'end' means the stream was destroyed early
+      observer.onComplete();
+    }
+    return otelContext.with(ctx, () => originalEmit.call(this, event, ...args));
+  } as typeof stream.emit;
+}
+
+function _wrapWebStream(
+  stream: WebReadableStream,
+  ctx: Context,
+  observer: StreamObserver
+): WebReadableStream {
+  const reader = stream.getReader();
+
+  return new WebReadableStream(
+    {
+      async pull(controller) {
+        try {
+          const { done, value } = await otelContext.with(ctx, () => reader.read());
+          if (done) {
+            observer.onComplete();
+            controller.close();
+          } else {
+            observer.onItem();
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          observer.onError(error);
+          controller.error(error);
+        }
+      },
+      cancel(reason) {
+        observer.onComplete();
+        return reader.cancel(reason);
+      },
+    },
+    // Only read from the source when the consumer asks for data
+    { highWaterMark: 0 }
+  );
+}
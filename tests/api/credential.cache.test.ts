@@ -0,0 +1,192 @@
+/**
+ * Tests for the encrypted on-disk credential cache
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { TraceRootConfigImpl } from '../../src/config';
+import {
+  getCredentialsWithCache,
+  getCredentialsWithCacheSync,
+} from '../../src/api/credentialCache';
+import { AwsCredentials } from '../../src/types';
+
+describe('Credential cache', () => {
+  let cacheDir: string;
+
+  const createConfig = (overrides: Record<string, unknown> = {}) =>
+    new TraceRootConfigImpl({
+      service_name: 'cached-service',
+      github_owner: 'owner',
+      github_repo_name: 'repo',
+      github_commit_hash: 'main',
+      token: 'token-a',
+      credential_cache: true,
+      credential_cache_dir: cacheDir,
+      ...overrides,
+    });
+
+  const createCredentials = (expiresInMs: number = 60 * 60 * 1000): AwsCredentials => ({
+    aws_access_key_id: 'AKIAEXAMPLE',
+    aws_secret_access_key: 'super-secret-key',
+    aws_session_token: 'session',
+    region: 'us-west-2',
+    hash: 'cache-hash',
+    expiration_utc: new Date(Date.now() + expiresInMs),
+    otlp_endpoint: 'http://collector.example.com/v1/traces',
+  });
+
+  const cacheFiles = () => fs.readdirSync(cacheDir).filter(file => file.endsWith('.json'));
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traceroot-credential-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  test('should fetch once and reuse cached credentials afterwards', () => {
+    const fetchCredentials = jest.fn(() => createCredentials());
+
+    const first = getCredentialsWithCacheSync(createConfig(), fetchCredentials);
+    const second = getCredentialsWithCacheSync(createConfig(), fetchCredentials);
+
+    expect(fetchCredentials).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(second!.expiration_utc).toBeInstanceOf(Date);
+    expect(fs.readdirSync(cacheDir).filter(file => file.endsWith('.lock'))).toEqual([]);
+  });
+
+  test('should encrypt entries and keep them separate per token', () => {
+    getCredentialsWithCacheSync(createConfig(), () => createCredentials());
+    const [file] = cacheFiles();
+    const content = fs.readFileSync(path.join(cacheDir, file), 'utf8');
+
+    expect(file).not.toContain('token-a');
+    expect(content).not.toContain('super-secret-key');
+    expect(content).not.toContain('AKIAEXAMPLE');
+    expect(fs.statSync(path.join(cacheDir, file)).mode & 0o777).toBe(0o600);
+
+    const otherFetch = jest.fn(() => createCredentials());
+    getCredentialsWithCacheSync(createConfig({ token: 'token-b' }), otherFetch);
+    expect(otherFetch).toHaveBeenCalledTimes(1);
+    expect(cacheFiles()).toHaveLength(2);
+  });
+
+  test('should fetch again when cached credentials are due for a refresh or corrupted', () => {
+    // Refreshed 30 minutes before they expire
+    getCredentialsWithCacheSync(createConfig(), () => createCredentials(20 * 60 * 1000));
+    const fetchCredentials = jest.fn(() => createCredentials());
+
+    getCredentialsWithCacheSync(createConfig(), fetchCredentials);
+    expect(fetchCredentials).toHaveBeenCalledTimes(1);
+
+    fs.writeFileSync(path.join(cacheDir, cacheFiles()[0]), '{"version":1,"data":"garbage"');
+    getCredentialsWithCacheSync(createConfig(), fetchCredentials);
+    expect(fetchCredentials).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not cache failed fetches or when the cache is disabled', () => {
+    getCredentialsWithCacheSync(createConfig(), () => null);
+    getCredentialsWithCacheSync(createConfig({ credential_cache: false }), () =>
+      createCredentials()
+    );
+
+    expect(fs.readdirSync(cacheDir)).toEqual([]);
+  });
+
+  test('should wait for another process fetching and reuse what it stores', async () => {
+    // Entry the other process stores, prepared in a separate directory
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traceroot-credential-other-'));
+    getCredentialsWithCacheSync(createConfig({ credential_cache_dir: otherDir }), () =>
+      createCredentials()
+    );
+    const [file] = fs.readdirSync(otherDir);
+    const lock = path.join(cacheDir, file.replace(/\.json$/, '.lock'));
+    fs.writeFileSync(lock, '12345');
+
+    const other = spawn(process.execPath, [
+      '-e',
+      `setTimeout(() => {
+        const fs = require('fs');
+        fs.renameSync(${JSON.stringify(path.join(otherDir, file))}, ${JSON.stringify(path.join(cacheDir, file))});
+        fs.rmSync(${JSON.stringify(lock)});
+      }, 300);`,
+    ]);
+    const exited = new Promise(resolve => other.on('exit', resolve));
+
+    try {
+      const fetchCredentials = jest.fn(() => createCredentials());
+      const credentials = getCredentialsWithCacheSync(createConfig(), fetchCredentials);
+
+      expect(fetchCredentials).not.toHaveBeenCalled();
+      expect(credentials?.aws_access_key_id).toBe('AKIAEXAMPLE');
+    } finally {
+      await exited;
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should wait for another process without blocking when fetching asynchronously', async () => {
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traceroot-credential-other-'));
+    getCredentialsWithCacheSync(createConfig({ credential_cache_dir: otherDir }), () =>
+      createCredentials()
+    );
+    const [file] = fs.readdirSync(otherDir);
+    const lock = path.join(cacheDir, file.replace(/\.json$/, '.lock'));
+    fs.writeFileSync(lock, '12345');
+
+    try {
+      const fetchCredentials = jest.fn(async () => createCredentials());
+      const pending = getCredentialsWithCache(createConfig(), fetchCredentials);
+
+      // This process stores the entry while the other call waits for the lock
+      await new Promise(resolve => setTimeout(resolve, 200));
+      fs.renameSync(path.join(otherDir, file), path.join(cacheDir, file));
+      fs.rmSync(lock);
+      const credentials = await pending;
+
+      expect(fetchCredentials).not.toHaveBeenCalled();
+      expect(credentials?.aws_access_key_id).toBe('AKIAEXAMPLE');
+    } finally {
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should cache asynchronously fetched credentials and release the lock on failure', async () => {
+    await expect(
+      getCredentialsWithCache(createConfig(), async () => {
+        throw new Error('fetch failed');
+      })
+    ).rejects.toThrow('fetch failed');
+    expect(fs.readdirSync(cacheDir)).toEqual([]);
+
+    const fetchCredentials = jest.fn(async () => createCredentials());
+    await getCredentialsWithCache(createConfig(), fetchCredentials);
+    const credentials = await getCredentialsWithCache(createConfig(), fetchCredentials);
+
+    expect(fetchCredentials).toHaveBeenCalledTimes(1);
+    expect(credentials?.expiration_utc).toBeInstanceOf(Date);
+    expect(cacheFiles()).toHaveLength(1);
+  });
+
+  test('should take over a lock left behind by a process that died', () => {
+    getCredentialsWithCacheSync(createConfig(), () => createCredentials(60 * 1000));
+    const [file] = cacheFiles();
+    const lock = path.join(cacheDir, file.replace(/\.json$/, '.lock'));
+    fs.writeFileSync(lock, '12345');
+    const staleTime = new Date(Date.now() - 60 * 1000);
+    fs.utimesSync(lock, staleTime, staleTime);
+    const fetchCredentials = jest.fn(() => createCredentials());
+
+    const credentials = getCredentialsWithCacheSync(createConfig(), fetchCredentials);
+
+    expect(fetchCredentials).toHaveBeenCalledTimes(1);
+    expect(credentials?.aws_access_key_id).toBe('AKIAEXAMPLE');
+    expect(fs.existsSync(lock)).toBe(false);
+  });
+});
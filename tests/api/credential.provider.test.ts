@@ -0,0 +1,281 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { TraceRootConfigImpl } from '../../src/config';
+import { fetchAwsCredentialsSync } from '../../src/api/credential';
+import {
+  HttpCredentialProvider,
+  StaticCredentialProvider,
+  registerCredentialProvider,
+  resetCredentialProviders,
+  resolveCredentials,
+} from '../../src/api/credentialProvider';
+import { AwsCredentials, CredentialProvider } from '../../src/types';
+
+// Mock child_process
+const mockExecFileSync = jest.fn();
+jest.mock('child_process', () => ({
+  ...jest.requireActual('child_process'),
+  execFileSync: mockExecFileSync,
+}));
+
+describe('Credential providers', () => {
+  let mockConfig: TraceRootConfigImpl;
+
+  const staticCredentials: AwsCredentials = {
+    aws_access_key_id: 'static-key',
+    aws_secret_access_key: 'static-secret',
+    aws_session_token: 'static-session',
+    region: 'us-west-2',
+    hash: 'static-hash',
+    expiration_utc: new Date('2030-01-01T00:00:00Z'),
+    otlp_endpoint: 'http://localhost:4318/v1/traces',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // Create a mock config
+    mockConfig = new TraceRootConfigImpl({
+      service_name: 'test-service',
+      github_owner: 'test-owner',
+      github_repo_name: 'test-repo',
+      github_commit_hash: 'test-commit',
+      environment: 'test',
+      local_mode: false,
+      token: 'test-token',
+    });
+  });
+
+  afterEach(() => {
+    resetCredentialProviders();
+    jest.restoreAllMocks();
+  });
+
+  describe('HttpCredentialProvider (synchronous)', () => {
+    test('should pass the URL to a child Node.js process without a shell', () => {
+      mockExecFileSync.mockReturnValueOnce(
+        '{"hash": "test-hash", "aws_access_key_id": "test-key", "expiration_utc": "2030-01-01T00:00:00"}'
+      );
+
+      const result = fetchAwsCredentialsSync(mockConfig);
+
+      expect(mockExecFileSync).toHaveBeenCalledWith(
+        process.execPath,
+        [
+          expect.stringMatching(/syncFetch\.(ts|js)$/),
+          'https://api.prod1.traceroot.ai/v1/verify/credentials?token=test-token',
+          '{}',
+        ],
+        expect.objectContaining({ encoding: 'utf8' })
+      );
+      expect(result).toEqual({
+        hash: 'test-hash',
+        aws_access_key_id: 'test-key',
+        expiration_utc: new Date('2030-01-01T00:00:00Z'),
+      });
+    });
+
+    test('should return null when the request fails or returns invalid JSON', () => {
+      mockExecFileSync.mockImplementationOnce(() => {
+        throw new Error('Command failed');
+      });
+      expect(fetchAwsCredentialsSync(mockConfig)).toBeNull();
+
+      mockExecFileSync.mockReturnValueOnce('invalid json response');
+      expect(fetchAwsCredentialsSync(mockConfig)).toBeNull();
+    });
+
+    test('should return null when no token is provided', () => {
+      const configWithoutToken = new TraceRootConfigImpl({
+        service_name: 'test-service',
+        github_owner: 'test-owner',
+        github_repo_name: 'test-repo',
+        github_commit_hash: 'test-commit',
+        environment: 'test',
+        local_mode: false,
+        // No token provided
+      } as any);
+
+      expect(fetchAwsCredentialsSync(configWithoutToken)).toBeNull();
+      expect(mockExecFileSync).not.toHaveBeenCalled();
+    });
+
+    test('should use the custom API base URL and encode the token', () => {
+      const originalEnv = process.env.TRACEROOT_API_BASE_URL;
+      process.env.TRACEROOT_API_BASE_URL = 'https://custom.api.example.com';
+      mockConfig.token = 'token with spaces & special chars!';
+      mockExecFileSync.mockReturnValueOnce('{"hash": "test-hash"}');
+
+      try {
+        fetchAwsCredentialsSync(mockConfig);
+      } finally {
+        if (originalEnv) {
+          process.env.TRACEROOT_API_BASE_URL = originalEnv;
+        } else {
+          delete process.env.TRACEROOT_API_BASE_URL;
+        }
+      }
+
+      const [, args] = mockExecFileSync.mock.calls[0];
+      expect(args[1]).toBe(
+        'https://custom.api.example.com/v1/verify/credentials?token=token%20with%20spaces%20%26%20special%20chars!'
+      );
+    });
+
+    test('should fetch the response body in the child process', async () => {
+      mockExecFileSync.mockReturnValueOnce(null);
+      fetchAwsCredentialsSync(mockConfig);
+      const [, [syncFetchModule]] = mockExecFileSync.mock.calls[0];
+
+      const server = http.createServer((request, response) => {
+        const status = request.url?.includes('token=good') ? 200 : 401;
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ hash: 'served-hash', url: request.url }));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      // Run the module for real, from source, asynchronously so this process can serve the request
+      const { execFile } = jest.requireActual('child_process');
+      const run = (token: string) =>
+        new Promise<{ code: number; stdout: string }>(resolve => {
+          execFile(
+            process.execPath,
+            [
+              '-r',
+              'ts-node/register/transpile-only',
+              syncFetchModule,
+              `http://127.0.0.1:${port}/v1/verify/credentials?token=${token}`,
+            ],
+            { timeout: 10000 },
+            (error: any, stdout: string) => resolve({ code: error ? error.code : 0, stdout })
+          );
+        });
+
+      try {
+        const success = await run('good');
+        expect(success.code).toBe(0);
+        expect(JSON.parse(success.stdout)).toEqual({
+          hash: 'served-hash',
+          url: '/v1/verify/credentials?token=good',
+        });
+        expect((await run('bad')).code).toBe(1);
+      } finally {
+        server.close();
+      }
+    });
+  });
+
+  describe('HttpCredentialProvider (asynchronous)', () => {
+    test('should fetch and parse credentials', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ hash: 'async-hash', expiration_utc: '2030-01-01' }),
+      } as any);
+
+      const result = await new HttpCredentialProvider().getCredentials(mockConfig);
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        'https://api.prod1.traceroot.ai/v1/verify/credentials?token=test-token',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(result).toEqual({ hash: 'async-hash', expiration_utc: new Date('2030-01-01Z') });
+    });
+
+    test('should throw on HTTP errors', async () => {
+      jest
+        .spyOn(global, 'fetch')
+        .mockResolvedValue({ ok: false, status: 401, statusText: 'Unauthorized' } as any);
+
+      await expect(new HttpCredentialProvider().getCredentials(mockConfig)).rejects.toThrow(
+        'HTTP 401: Unauthorized'
+      );
+    });
+  });
+
+  describe('provider chain', () => {
+    test('should use registered providers before the default provider', async () => {
+      registerCredentialProvider(new StaticCredentialProvider(staticCredentials));
+      const fetchSpy = jest.spyOn(global, 'fetch');
+
+      expect(fetchAwsCredentialsSync(mockConfig)).toBe(staticCredentials);
+      expect(await resolveCredentials(mockConfig)).toBe(staticCredentials);
+      expect(mockExecFileSync).not.toHaveBeenCalled();
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    test('should fall through providers returning null', async () => {
+      const empty: CredentialProvider = {
+        name: 'empty',
+        getCredentials: jest.fn().mockResolvedValue(null),
+        getCredentialsSync: jest.fn().mockReturnValue(null),
+      };
+      registerCredentialProvider(empty);
+      registerCredentialProvider(new StaticCredentialProvider(staticCredentials));
+
+      expect(fetchAwsCredentialsSync(mockConfig)).toBe(staticCredentials);
+      expect(await resolveCredentials(mockConfig)).toBe(staticCredentials);
+      expect(empty.getCredentialsSync).toHaveBeenCalledWith(mockConfig);
+      expect(empty.getCredentials).toHaveBeenCalledWith(mockConfig);
+    });
+
+    test('should skip async-only providers during synchronous resolution', () => {
+      const asyncOnly: CredentialProvider = {
+        name: 'async-only',
+        getCredentials: jest.fn().mockResolvedValue(staticCredentials),
+      };
+      registerCredentialProvider(asyncOnly);
+      mockExecFileSync.mockReturnValueOnce('{"hash": "api-hash"}');
+
+      expect(fetchAwsCredentialsSync(mockConfig)).toEqual({ hash: 'api-hash' });
+      expect(asyncOnly.getCredentials).not.toHaveBeenCalled();
+    });
+
+    test('should report failing providers by name and try the next ones', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      registerCredentialProvider({
+        name: 'vault',
+        getCredentials: () => Promise.reject(new Error('vault sealed')),
+        getCredentialsSync: () => {
+          throw new Error('vault sealed');
+        },
+      });
+      mockExecFileSync.mockReturnValueOnce('{"hash": "api-hash"}');
+      jest.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ hash: 'api-hash' }),
+      } as any);
+
+      expect(fetchAwsCredentialsSync(mockConfig)).toEqual({ hash: 'api-hash' });
+      expect(await resolveCredentials(mockConfig)).toEqual({ hash: 'api-hash' });
+      expect(errorSpy).toHaveBeenCalledTimes(2);
+      expect(errorSpy).toHaveBeenCalledWith(
+        '[TraceRoot] Credential provider vault failed, trying the next one:',
+        'vault sealed'
+      );
+    });
+
+    test('should report failing providers and return null', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      registerCredentialProvider({
+        name: 'secrets-file',
+        getCredentials: async () => null,
+        getCredentialsSync: () => {
+          throw new Error('secrets file not found');
+        },
+      });
+
+      expect(fetchAwsCredentialsSync(mockConfig)).toBeNull();
+      expect(errorSpy).toHaveBeenCalledWith(
+        '[TraceRoot] Error in credential fetch:',
+        'secrets file not found'
+      );
+    });
+
+    test('should reject invalid providers', () => {
+      expect(() => registerCredentialProvider({ name: 'broken' } as any)).toThrow(
+        'Invalid credential provider'
+      );
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for the background credential refresh, its backoff and the credentials events
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { trace as otelTrace } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import * as traceroot from '../../src/index';
+import { getConfig } from '../../src/tracer';
+import { getRetryDelay } from '../../src/api/credentialRefresher';
+import { fetchAwsCredentialsSync } from '../../src/api/credential';
+import { AwsCredentials, CredentialProvider } from '../../src/types';
+
+// Mock the credential fetching function
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+// Mock OTLPTraceExporter to avoid network calls during tests
+jest.mock('@opentelemetry/exporter-trace-otlp-http', () => ({
+  OTLPTraceExporter: jest.fn().mockImplementation(() => ({
+    export: jest.fn((_spans: any[], callback: (result: any) => void) => callback({ code: 0 })),
+    shutdown: jest.fn().mockImplementation(async () => {}),
+    forceFlush: jest.fn().mockImplementation(async () => {}),
+  })),
+}));
+
+const MINUTE = 60 * 1000;
+
+describe('Background credential refresh', () => {
+  const createCredentials = (
+    endpoint: string,
+    expiresInMs: number = 40 * MINUTE
+  ): AwsCredentials => ({
+    aws_access_key_id: 'key',
+    aws_secret_access_key: 'secret',
+    aws_session_token: 'session',
+    region: 'us-west-2',
+    hash: 'refresh-hash',
+    expiration_utc: new Date(Date.now() + expiresInMs),
+    otlp_endpoint: endpoint,
+  });
+
+  let provider: CredentialProvider & { getCredentials: jest.Mock };
+
+  const initWithCloudExport = () =>
+    traceroot.init({
+      service_name: 'refresh-service',
+      local_mode: false,
+      token: 'test-token',
+      enable_span_cloud_export: true,
+      enable_log_cloud_export: false,
+      enable_log_console_export: false,
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (fetchAwsCredentialsSync as jest.Mock).mockReturnValue(
+      createCredentials('http://first.example.com/v1/traces')
+    );
+    provider = { name: 'test', getCredentials: jest.fn() };
+    // The TraceRoot API, tried after the test provider, has no credentials for the token
+    jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true, json: async () => null } as any);
+    traceroot.registerCredentialProvider(provider);
+    (OTLPTraceExporter as unknown as jest.Mock).mockClear();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await traceroot.shutdownLogger();
+    await traceroot.shutdownTracer();
+    traceroot.resetCredentialProviders();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+  });
+
+  test('should refresh before expiration and reconnect the span exporter', async () => {
+    const refreshed = jest.fn();
+    traceroot.events.on('credentials:refreshed', refreshed);
+    provider.getCredentials.mockResolvedValue(
+      createCredentials('http://second.example.com/v1/traces', 2 * 60 * MINUTE)
+    );
+    initWithCloudExport();
+
+    // Refreshed 30 minutes before the 40 minute expiration, without any log call
+    await jest.advanceTimersByTimeAsync(9 * MINUTE);
+    expect(provider.getCredentials).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1 * MINUTE);
+
+    expect(provider.getCredentials).toHaveBeenCalledTimes(1);
+    expect(refreshed).toHaveBeenCalledWith(
+      expect.objectContaining({ otlp_endpoint: 'http://second.example.com/v1/traces' })
+    );
+    expect(getConfig()?.otlp_endpoint).toBe('http://second.example.com/v1/traces');
+    expect(OTLPTraceExporter).toHaveBeenLastCalledWith({
+      url: 'http://second.example.com/v1/traces',
+    });
+    traceroot.events.off('credentials:refreshed', refreshed);
+  });
+
+  test('should keep the endpoint and log group when refreshed credentials carry none', async () => {
+    const keysOnly: Partial<AwsCredentials> = createCredentials('unused', 2 * 60 * MINUTE);
+    delete keysOnly.hash;
+    delete keysOnly.otlp_endpoint;
+    provider.getCredentials.mockResolvedValue(keysOnly);
+    initWithCloudExport();
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+
+    expect(provider.getCredentials).toHaveBeenCalledTimes(1);
+    expect((getConfig() as any)._awsCredentials).toBe(keysOnly);
+    expect(getConfig()?._name).toBe('refresh-hash');
+    expect(getConfig()?.otlp_endpoint).toBe('http://first.example.com/v1/traces');
+    expect(OTLPTraceExporter).toHaveBeenLastCalledWith({
+      url: 'http://first.example.com/v1/traces',
+    });
+  });
+
+  test('should retry failed refreshes with backoff until one succeeds', async () => {
+    const failed = jest.fn();
+    const refreshed = jest.fn();
+    traceroot.events.on('credentials:failed', failed);
+    traceroot.events.once('credentials:refreshed', refreshed);
+    jest.spyOn(console, 'error').mockImplementation();
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    provider.getCredentials
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockRejectedValueOnce(new Error('still down'))
+      .mockResolvedValue(createCredentials('http://second.example.com/v1/traces'));
+    initWithCloudExport();
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(failed).toHaveBeenLastCalledWith({
+      error: new Error('network down'),
+      attempt: 1,
+      retryInMs: 1000,
+    });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(failed).toHaveBeenLastCalledWith({
+      error: new Error('still down'),
+      attempt: 2,
+      retryInMs: 2000,
+    });
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(provider.getCredentials).toHaveBeenCalledTimes(3);
+    expect(refreshed).toHaveBeenCalledTimes(1);
+    traceroot.events.off('credentials:failed', failed);
+  });
+
+  test('should keep fetching when the initial fetch returned no credentials', async () => {
+    const refreshed = jest.fn();
+    traceroot.events.once('credentials:refreshed', refreshed);
+    jest.spyOn(console, 'error').mockImplementation();
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    (fetchAwsCredentialsSync as jest.Mock).mockReturnValue(null);
+    provider.getCredentials
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockResolvedValue(createCredentials('http://second.example.com/v1/traces'));
+    initWithCloudExport();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(provider.getCredentials).toHaveBeenCalledTimes(1);
+    expect(refreshed).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(provider.getCredentials).toHaveBeenCalledTimes(2);
+    expect(refreshed).toHaveBeenCalledTimes(1);
+    expect(getConfig()?.otlp_endpoint).toBe('http://second.example.com/v1/traces');
+  });
+
+  test('should stop refreshing on shutdown', async () => {
+    provider.getCredentials.mockResolvedValue(
+      createCredentials('http://second.example.com/v1/traces')
+    );
+    initWithCloudExport();
+
+    await traceroot.shutdownTracer();
+    await jest.advanceTimersByTimeAsync(60 * MINUTE);
+
+    expect(provider.getCredentials).not.toHaveBeenCalled();
+  });
+
+  test('should report listener errors without breaking the refresh', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const listener = () => {
+      throw new Error('listener boom');
+    };
+    traceroot.events.on('credentials:refreshed', listener);
+    provider.getCredentials.mockResolvedValue(
+      createCredentials('http://second.example.com/v1/traces')
+    );
+    initWithCloudExport();
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      '[TraceRoot] credentials:refreshed listener failed:',
+      'listener boom'
+    );
+    expect(getConfig()?.otlp_endpoint).toBe('http://second.example.com/v1/traces');
+    traceroot.events.off('credentials:refreshed', listener);
+  });
+
+  describe('getRetryDelay', () => {
+    test('should grow exponentially up to the cap, with full jitter', () => {
+      expect(getRetryDelay(1, () => 1)).toBe(1000);
+      expect(getRetryDelay(4, () => 1)).toBe(8000);
+      expect(getRetryDelay(20, () => 1)).toBe(5 * MINUTE);
+      expect(getRetryDelay(4, () => 0.5)).toBe(4000);
+      expect(getRetryDelay(4, () => 0)).toBe(0);
+    });
+  });
+});
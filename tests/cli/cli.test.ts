@@ -0,0 +1,241 @@
+/**
+ * Tests for the traceroot command line tool
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli, CliOutput } from '../../src/cli';
+import { fetchAwsCredentialsSync } from '../../src/api/credential';
+
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+  getTraceRootApiBaseUrl: () => 'https://api.example.com',
+}));
+
+const TRACE_ID = '0af7651916cd43dd8448eb211c80319c';
+
+describe('traceroot CLI', () => {
+  let tempDir: string;
+  let savedEnv: NodeJS.ProcessEnv;
+  let stdout: string[];
+  let stderr: string[];
+  const output: CliOutput = {
+    log: message => stdout.push(message),
+    error: message => stderr.push(message),
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traceroot-cli-'));
+    savedEnv = { ...process.env };
+    stdout = [];
+    stderr = [];
+    for (const key of Object.keys(process.env).filter(key => key.startsWith('TRACEROOT_'))) {
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    process.env = savedEnv;
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeConfig(content: string): string {
+    const configPath = path.join(tempDir, 'traceroot.config.js');
+    fs.writeFileSync(configPath, content);
+    process.env.TRACEROOT_CONFIG_PATH = configPath;
+    return configPath;
+  }
+
+  function row(field: string): string[] {
+    const line = stdout.find(entry => entry.startsWith(`${field} `));
+    return line ? line.trim().split(/\s{2,}/) : [];
+  }
+
+  describe('config check', () => {
+    test('should show the config file and the source of each value', async () => {
+      process.env.NODE_ENV = 'staging';
+      const configPath = writeConfig(`
+        module.exports = {
+          service_name: 'cli-service',
+          token: 'tr-secret-token-value',
+          local_mode: true,
+          redaction: { rules: [{ key: 'password' }, { pattern: /\\d{4}/ }] },
+          environments: { staging: { environment: 'staging', local_mode: false } },
+        };
+      `);
+
+      expect(await runCli(['config', 'check'], output)).toBe(0);
+
+      expect(stdout[0]).toBe(`Config file: ${configPath}`);
+      expect(stdout[1]).toBe('Environment overrides: environments.staging');
+      expect(row('service_name')).toEqual(['service_name', 'cli-service', 'file']);
+      expect(row('token')).toEqual(['token', 'tr-s****', 'file']);
+      expect(row('environment')).toEqual(['environment', 'staging', 'environment override']);
+      expect(row('local_mode')).toEqual(['local_mode', 'false', 'environment override']);
+      expect(row('aws_region')).toEqual(['aws_region', 'us-west-2', 'default']);
+      expect(row('log_file_path')).toEqual(['log_file_path', '(not set)', 'default']);
+      expect(row('redaction')[1]).toBe('{"rules":[{"key":"password"},{"pattern":"/\\\\d{4}/"}]}');
+      expect(stdout.join('\n')).not.toContain('tr-secret-token-value');
+      expect(stdout[stdout.length - 1]).toBe('No problems found');
+    });
+
+    test('should list configuration problems and fail', async () => {
+      writeConfig(`module.exports = { service_name: 'svc', log_levle: 'info' };`);
+
+      expect(await runCli(['config', 'check'], output)).toBe(1);
+      expect(stdout.slice(-2)).toEqual([
+        '1 problem found:',
+        '  - log_levle: unknown option (did you mean "log_level"?)',
+      ]);
+    });
+
+    test('should show environment variables when there is no config file', async () => {
+      const originalCwd = process.cwd();
+      process.chdir(tempDir);
+      try {
+        process.env.TRACEROOT_SERVICE_NAME = 'env-service';
+        process.env.TRACEROOT_LOCAL_MODE = 'true';
+
+        expect(await runCli(['config', 'check'], output)).toBe(0);
+      } finally {
+        process.chdir(originalCwd);
+      }
+
+      expect(stdout[0]).toBe('Config file: none found (using TRACEROOT_* environment variables)');
+      expect(row('service_name')).toEqual(['service_name', 'env-service', 'env var']);
+      expect(row('local_mode')).toEqual(['local_mode', 'true', 'env var']);
+      expect(row('github_owner')).toEqual(['github_owner', 'unknown', 'default']);
+    });
+  });
+
+  describe('credentials verify', () => {
+    const mockFetch = fetchAwsCredentialsSync as jest.MockedFunction<
+      typeof fetchAwsCredentialsSync
+    >;
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    test('should print the fetched credentials', async () => {
+      writeConfig(`module.exports = { service_name: 'svc', token: 'tr-secret-token-value' };`);
+      mockFetch.mockReturnValue({
+        aws_access_key_id: 'AKIAEXAMPLEKEY',
+        aws_secret_access_key: 'secret',
+        aws_session_token: 'session',
+        region: 'us-east-1',
+        hash: 'user-hash',
+        expiration_utc: new Date('2030-01-01T00:00:00Z'),
+        otlp_endpoint: 'https://otlp.example.com/v1/traces',
+      });
+
+      expect(await runCli(['credentials', 'verify'], output)).toBe(0);
+
+      expect(mockFetch.mock.calls[0][0].token).toBe('tr-secret-token-value');
+      expect(stdout[0]).toBe(
+        'Verifying token tr-s**** against https://api.example.com/v1/verify/credentials'
+      );
+      expect(stdout).toContain('Credentials OK');
+      expect(stdout).toContain('  region:        us-east-1');
+      expect(stdout).toContain('  expires:       2030-01-01T00:00:00.000Z');
+      expect(stdout.join('\n')).not.toContain('AKIAEXAMPLEKEY');
+    });
+
+    test('should fail without a token', async () => {
+      writeConfig(`module.exports = { service_name: 'svc' };`);
+
+      expect(await runCli(['credentials', 'verify'], output)).toBe(1);
+      expect(stderr[0]).toContain('No token configured');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should fail when no credentials are returned', async () => {
+      writeConfig(`module.exports = { service_name: 'svc', token: 'tr-secret-token-value' };`);
+      mockFetch.mockReturnValue(null);
+
+      expect(await runCli(['credentials', 'verify'], output)).toBe(1);
+      expect(stderr[0]).toContain('Failed to fetch credentials');
+    });
+  });
+
+  describe('traces tail', () => {
+    function span(
+      spanId: string,
+      name: string,
+      startTime: string,
+      overrides: Record<string, unknown> = {}
+    ) {
+      return {
+        traceId: TRACE_ID,
+        spanId,
+        name,
+        kind: 'INTERNAL',
+        startTime,
+        endTime: startTime,
+        durationMs: 12.5,
+        status: { code: 'UNSET' },
+        attributes: {},
+        events: [],
+        service: 'checkout',
+        resource: {},
+        ...overrides,
+      };
+    }
+
+    function writeSpans(spans: object[]): void {
+      const dateDir = path.join(tempDir, '2024-01-15');
+      fs.mkdirSync(dateDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(dateDir, `${TRACE_ID}.jsonl`),
+        spans.map(entry => JSON.stringify(entry)).join('\n')
+      );
+    }
+
+    test('should print spans as a tree', async () => {
+      writeSpans([
+        span('b', 'queryDb', '2024-01-15T10:00:00.001Z', {
+          parentSpanId: 'a',
+          events: [{ name: 'log.info', time: '2024-01-15T10:00:00.002Z', attributes: {} }],
+        }),
+        span('c', 'chargeCard', '2024-01-15T10:00:00.003Z', {
+          parentSpanId: 'a',
+          durationMs: 1500,
+          status: { code: 'ERROR', message: 'card declined' },
+        }),
+        span('a', 'handleRequest', '2024-01-15T10:00:00.000Z'),
+      ]);
+
+      expect(await runCli(['traces', 'tail', '--dir', tempDir], output)).toBe(0);
+
+      expect(stdout[0].split('\n')).toEqual([
+        `Trace ${TRACE_ID}  checkout  2024-01-15T10:00:00.000Z  (3 spans)`,
+        '└─ handleRequest  12.5ms',
+        '   ├─ queryDb  12.5ms',
+        '   │  • log.info',
+        '   └─ chargeCard  1.50s  ERROR: card declined',
+      ]);
+    });
+
+    test('should filter by trace id', async () => {
+      writeSpans([span('a', 'handleRequest', '2024-01-15T10:00:00.000Z')]);
+
+      expect(
+        await runCli(['traces', 'tail', `--dir=${tempDir}`, '--trace-id', 'other'], output)
+      ).toBe(0);
+      expect(stdout).toEqual([`No traces found in ${tempDir}`]);
+    });
+
+    test('should reject unknown options', async () => {
+      expect(await runCli(['traces', 'tail', '--bogus'], output)).toBe(1);
+      expect(stderr[0]).toContain("Unknown option '--bogus'");
+    });
+  });
+
+  test('should print usage for unknown commands', async () => {
+    expect(await runCli(['deploy'], output)).toBe(1);
+    expect(stderr[0]).toContain('Unknown command: deploy');
+    expect(stderr[0]).toContain('config check');
+  });
+});
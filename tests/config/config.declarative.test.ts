@@ -0,0 +1,190 @@
+/**
+ * Tests for YAML/JSON config files, ${VAR:-default} interpolation and the
+ * package.json `traceroot` key
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findAndLoadConfigSync } from '../../src/utils/config';
+import {
+  findTypescriptConfig,
+  interpolateEnvVars,
+  loadTypescriptConfigSync,
+} from '../../src/utils/configLoader';
+
+describe('Declarative config files', () => {
+  const originalCwd = process.cwd();
+  let tempDir: string;
+  let savedEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traceroot-declarative-'));
+    savedEnv = { ...process.env };
+    delete process.env.TRACEROOT_CONFIG_PATH;
+    process.env.NODE_ENV = 'test';
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    process.env = savedEnv;
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function write(name: string, content: string): string {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  test('should load a YAML config with interpolation and environment overrides', () => {
+    process.env.APP_NAME = 'yaml-service';
+    process.env.CLOUD_EXPORT = 'true';
+    const configPath = write(
+      'traceroot.config.yaml',
+      [
+        'service_name: ${APP_NAME:-fallback-service}',
+        'github_owner: ${GITHUB_OWNER:-traceroot-ai}',
+        'github_repo_name: repo',
+        'github_commit_hash: main',
+        'enable_span_cloud_export: ${CLOUD_EXPORT:-false}',
+        'log_file_max_files: ${LOG_FILES:-3}',
+        'log_level: info',
+        'environments:',
+        '  test:',
+        '    log_level: warn',
+        '    environment: test-${APP_NAME}',
+      ].join('\n')
+    );
+
+    expect(findTypescriptConfig()).toBe(configPath);
+    const result = findAndLoadConfigSync();
+
+    expect(result?.config).toMatchObject({
+      service_name: 'yaml-service',
+      github_owner: 'traceroot-ai',
+      enable_span_cloud_export: true,
+      log_file_max_files: 3,
+      log_level: 'warn',
+      environment: 'test-yaml-service',
+    });
+    expect(result?.configFile?.environments?.test).toBeDefined();
+  });
+
+  test('should load .yml and .json config files', () => {
+    const ymlPath = write('traceroot.config.yml', 'service_name: yml-service\n');
+    expect(findTypescriptConfig()).toBe(ymlPath);
+    expect(loadTypescriptConfigSync(ymlPath)).toEqual({ service_name: 'yml-service' });
+
+    fs.unlinkSync(ymlPath);
+    const jsonPath = write(
+      'traceroot.config.json',
+      JSON.stringify({ service_name: 'json-service', sampling: { type: 'ratio', ratio: 0.25 } })
+    );
+    expect(findTypescriptConfig()).toBe(jsonPath);
+    expect(loadTypescriptConfigSync(jsonPath)).toEqual({
+      service_name: 'json-service',
+      sampling: { type: 'ratio', ratio: 0.25 },
+    });
+  });
+
+  test('should prefer code config files over declarative ones', () => {
+    write('traceroot.config.yaml', 'service_name: yaml-service\n');
+    const jsPath = write('traceroot.config.js', `module.exports = { service_name: 'js' };`);
+
+    expect(findTypescriptConfig()).toBe(jsPath);
+  });
+
+  test('should fall back to the traceroot key of package.json', () => {
+    const packagePath = write(
+      'package.json',
+      JSON.stringify({ name: 'app', traceroot: { service_name: '${APP_NAME:-pkg-service}' } })
+    );
+
+    expect(findTypescriptConfig()).toBe(packagePath);
+    expect(findAndLoadConfigSync()?.config).toEqual({ service_name: 'pkg-service' });
+  });
+
+  test('should ignore a package.json without a traceroot key', () => {
+    write('package.json', JSON.stringify({ name: 'app' }));
+
+    expect(findTypescriptConfig()).toBeNull();
+  });
+
+  test('should warn and fall back to environment variables for invalid YAML', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    process.env.TRACEROOT_SERVICE_NAME = 'env-service';
+    const configPath = write('traceroot.config.yaml', 'service_name: [unclosed\n');
+
+    expect(loadTypescriptConfigSync(configPath)?.service_name).toBe('env-service');
+    expect(warnSpy.mock.calls[0][0]).toBe(`[TraceRoot] Failed to load config file ${configPath}:`);
+  });
+
+  describe('interpolateEnvVars', () => {
+    const env = { HOST: 'collector', PORT: '4318', EMPTY: '' };
+
+    test('should replace placeholders inside strings', () => {
+      expect(interpolateEnvVars('http://${HOST}:${PORT}/v1/traces', env)).toBe(
+        'http://collector:4318/v1/traces'
+      );
+      expect(interpolateEnvVars('${EMPTY:-default}', env)).toBe('default');
+      expect(interpolateEnvVars('${MISSING:-a b c}', env)).toBe('a b c');
+      expect(interpolateEnvVars('no placeholders', env)).toBe('no placeholders');
+    });
+
+    test('should convert single placeholders of boolean and number options', () => {
+      expect(
+        interpolateEnvVars(
+          {
+            log_file_max_size: '${PORT}',
+            local_mode: '${FLAG:-false}',
+            sampling: { ratio: '${RATIO:-0.5}' },
+            environments: { production: { tls_insecure: '${FLAG:-true}' } },
+          },
+          env
+        )
+      ).toEqual({
+        log_file_max_size: 4318,
+        local_mode: false,
+        sampling: { ratio: 0.5 },
+        environments: { production: { tls_insecure: true } },
+      });
+      expect(interpolateEnvVars({ log_file_max_size: 'port ${PORT}' }, env)).toEqual({
+        log_file_max_size: 'port 4318',
+      });
+    });
+
+    test('should keep numeric and boolean strings of other options', () => {
+      expect(
+        interpolateEnvVars(
+          {
+            service_name: '${PORT}',
+            token: '${FLAG:-true}',
+            baggage_keys: ['${PORT}'],
+            sampling: { rules: [{ attributes: { 'http.status_code': '${PORT}' } }] },
+            custom: '${PORT}',
+          },
+          env
+        )
+      ).toEqual({
+        service_name: '4318',
+        token: 'true',
+        baggage_keys: ['4318'],
+        sampling: { rules: [{ attributes: { 'http.status_code': '4318' } }] },
+        custom: '4318',
+      });
+      expect(interpolateEnvVars('${PORT}', env)).toBe('4318');
+    });
+
+    test('should warn about unset variables without a default', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      expect(interpolateEnvVars(['${MISSING}'], env)).toEqual(['']);
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[TraceRoot] Environment variable MISSING is not set, using an empty string'
+      );
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for the config file `init` hook and ready()
+ */
+
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { trace as otelTrace } from '@opentelemetry/api';
+import * as traceroot from '../../src/index';
+import { TraceRootConfigImpl } from '../../src/config';
+
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('init hook', () => {
+  const baseConfig = {
+    service_name: 'hooked-service',
+    local_mode: true,
+    enable_log_console_export: false,
+  };
+
+  afterEach(async () => {
+    await traceroot.shutdownLogger();
+    await traceroot.shutdownTracer();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+  });
+
+  test('should call the hook with the final config after tracer and logger setup', () => {
+    const hook = jest.fn(() => {
+      expect(traceroot.getLogger()).toBeDefined();
+    });
+
+    traceroot.init({ ...baseConfig, init: hook });
+
+    expect(hook).toHaveBeenCalledTimes(1);
+    const [config] = hook.mock.calls[0] as any[];
+    expect(config).toBeInstanceOf(TraceRootConfigImpl);
+    expect(config.service_name).toBe('hooked-service');
+  });
+
+  test('should resolve ready() once an async hook and integrations finish', async () => {
+    const calls: string[] = [];
+    const delay = (name: string) =>
+      new Promise<void>(resolve =>
+        setTimeout(() => {
+          calls.push(name);
+          resolve();
+        }, 20)
+      );
+
+    traceroot.init({
+      ...baseConfig,
+      integrations: [{ name: 'slow', setup: () => delay('integration') }],
+      init: () => delay('hook'),
+    });
+    expect(calls).toEqual([]);
+
+    await traceroot.ready();
+    expect(calls.sort()).toEqual(['hook', 'integration']);
+  });
+
+  test('should report failing hooks without rejecting ready()', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    traceroot.init({
+      ...baseConfig,
+      init: () => {
+        throw new Error('sync boom');
+      },
+    });
+    await expect(traceroot.ready()).resolves.toBeUndefined();
+
+    traceroot.init({ ...baseConfig, init: () => Promise.reject(new Error('async boom')) });
+    await expect(traceroot.ready()).resolves.toBeUndefined();
+
+    expect(errorSpy).toHaveBeenCalledWith('[TraceRoot] Config init hook failed:', 'sync boom');
+    expect(errorSpy).toHaveBeenCalledWith('[TraceRoot] Config init hook failed:', 'async boom');
+  });
+
+  test('should run the config file hook on auto-initialization', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traceroot-init-hook-'));
+    const configPath = path.join(tempDir, 'traceroot.config.js');
+    const savedConfigPath = process.env.TRACEROOT_CONFIG_PATH;
+    fs.writeFileSync(
+      configPath,
+      `
+        module.exports = {
+          service_name: 'file-service',
+          local_mode: true,
+          init: async config => {
+            await new Promise(resolve => setTimeout(resolve, 20));
+            global.__initHookService = config.service_name;
+          },
+        };
+      `
+    );
+    process.env.TRACEROOT_CONFIG_PATH = configPath;
+
+    try {
+      expect(traceroot.autoInitialize()).toBe(true);
+      expect((global as any).__initHookService).toBeUndefined();
+
+      await traceroot.ready();
+      expect((global as any).__initHookService).toBe('file-service');
+    } finally {
+      if (savedConfigPath === undefined) {
+        delete process.env.TRACEROOT_CONFIG_PATH;
+      } else {
+        process.env.TRACEROOT_CONFIG_PATH = savedConfigPath;
+      }
+      delete (global as any).__initHookService;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for integrations set up by init() and autoInitialize() and torn down on shutdown
+ */
+
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { trace as otelTrace } from '@opentelemetry/api';
+import * as traceroot from '../../src/index';
+import { _initializeTracing } from '../../src/tracer';
+
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('Integrations', () => {
+  const baseConfig = {
+    service_name: 'integrated-service',
+    local_mode: true,
+    enable_log_console_export: false,
+  };
+  let calls: string[];
+
+  const createIntegration = (name: string): traceroot.TraceRootIntegration => ({
+    name,
+    setup: jest.fn(() => {
+      calls.push(`setup ${name}`);
+    }),
+    teardown: jest.fn(() => {
+      calls.push(`teardown ${name}`);
+    }),
+  });
+
+  beforeEach(() => {
+    calls = [];
+  });
+
+  afterEach(async () => {
+    await traceroot.shutdownLogger();
+    await traceroot.shutdownTracer();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+  });
+
+  test('should set up integrations on init and tear them down in reverse order', async () => {
+    const first = createIntegration('first');
+    const second = createIntegration('second');
+
+    traceroot.init({ ...baseConfig, integrations: [first, second] });
+
+    expect(calls).toEqual(['setup first', 'setup second']);
+    const [config, context] = (first.setup as jest.Mock).mock.calls[0];
+    expect(config.service_name).toBe('integrated-service');
+    expect(context.tracerProvider).toBe(_initializeTracing());
+    expect(context.getLogger('integration')).toBe(traceroot.getLogger('integration'));
+
+    await traceroot.shutdownTracer();
+    expect(calls).toEqual(['setup first', 'setup second', 'teardown second', 'teardown first']);
+  });
+
+  test('should set up an integration once and skip invalid ones', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const integration = createIntegration('once');
+
+    traceroot.init({ ...baseConfig, integrations: [integration, { name: 'broken' } as any] });
+    traceroot.init({ ...baseConfig, integrations: [integration] });
+
+    expect(integration.setup).toHaveBeenCalledTimes(1);
+    expect(warnSpy).toHaveBeenCalledWith(
+      '[TraceRoot] Skipping invalid integration: expected an object with a name and a setup() function'
+    );
+  });
+
+  test('should report failing setups and teardowns without breaking initialization', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const healthy = createIntegration('healthy');
+
+    traceroot.init({
+      ...baseConfig,
+      integrations: [
+        {
+          name: 'throws',
+          setup: () => {
+            throw new Error('setup boom');
+          },
+          teardown: () => Promise.reject(new Error('teardown boom')),
+        },
+        { name: 'rejects', setup: () => Promise.reject(new Error('async boom')) },
+        healthy,
+      ],
+    });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(healthy.setup).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      '[TraceRoot] Integration throws setup failed:',
+      'setup boom'
+    );
+    expect(errorSpy).toHaveBeenCalledWith(
+      '[TraceRoot] Integration rejects setup failed:',
+      'async boom'
+    );
+
+    await traceroot.shutdownTracer();
+    expect(healthy.teardown).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      '[TraceRoot] Integration throws teardown failed:',
+      'teardown boom'
+    );
+  });
+
+  test('should set up integrations from the config file on auto-initialization', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traceroot-integrations-'));
+    const configPath = path.join(tempDir, 'traceroot.config.js');
+    const savedConfigPath = process.env.TRACEROOT_CONFIG_PATH;
+    fs.writeFileSync(
+      configPath,
+      `
+        module.exports = {
+          service_name: 'file-service',
+          local_mode: true,
+          integrations: [
+            {
+              name: 'from-file',
+              setup: (config, context) => {
+                global.__integrationSetup = [config.service_name, typeof context.getLogger];
+              },
+              teardown: () => {
+                global.__integrationTornDown = true;
+              },
+            },
+          ],
+        };
+      `
+    );
+    process.env.TRACEROOT_CONFIG_PATH = configPath;
+
+    try {
+      expect(traceroot.autoInitialize()).toBe(true);
+      expect((global as any).__integrationSetup).toEqual(['file-service', 'function']);
+
+      await traceroot.shutdownTracer();
+      expect((global as any).__integrationTornDown).toBe(true);
+    } finally {
+      if (savedConfigPath === undefined) {
+        delete process.env.TRACEROOT_CONFIG_PATH;
+      } else {
+        process.env.TRACEROOT_CONFIG_PATH = savedConfigPath;
+      }
+      delete (global as any).__integrationSetup;
+      delete (global as any).__integrationTornDown;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Tests for configuration validation: unknown keys, invalid values, conflicting settings,
+ * environment variables and strict_config
+ */
+
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { trace as otelTrace } from '@opentelemetry/api';
+import * as traceroot from '../../src/index';
+import { findAndLoadConfigSync } from '../../src/utils/config';
+import { loadTypescriptConfigSync } from '../../src/utils/configLoader';
+import {
+  formatConfigDiagnostic,
+  validateConfig,
+  validateConfigFile,
+  validateEnvironmentVariables,
+} from '../../src/utils/configValidator';
+
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('Config validation', () => {
+  const baseConfig = {
+    service_name: 'validated-service',
+    github_owner: 'owner',
+    github_repo_name: 'repo',
+    github_commit_hash: 'main',
+  };
+
+  afterEach(async () => {
+    await traceroot.shutdownLogger();
+    await traceroot.shutdownTracer();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+  });
+
+  test('should accept a valid configuration', () => {
+    expect(
+      validateConfig({
+        ...baseConfig,
+        log_level: 'INFO',
+        local_mode: true,
+        sampling: { type: 'parent_based', root: { type: 'ratio', ratio: 0.5 } },
+        redaction: { rules: [{ key: /secret/i }, { pattern: 'credit_card', mode: 'hash' }] },
+        log_file_path: '/tmp/app.log',
+        log_file_rotation: 'hourly',
+      })
+    ).toEqual([]);
+  });
+
+  test('should report unknown keys with did-you-mean suggestions', () => {
+    const diagnostics = validateConfig({
+      ...baseConfig,
+      enable_log_cloud_exprot: true,
+      completely_unrelated: 1,
+    } as any);
+
+    expect(diagnostics).toEqual([
+      {
+        path: 'enable_log_cloud_exprot',
+        message: 'unknown option',
+        suggestion: 'enable_log_cloud_export',
+      },
+      { path: 'completely_unrelated', message: 'unknown option' },
+    ]);
+    expect(formatConfigDiagnostic(diagnostics[0])).toBe(
+      'enable_log_cloud_exprot: unknown option (did you mean "enable_log_cloud_export"?)'
+    );
+  });
+
+  test('should report invalid values, including nested options', () => {
+    const diagnostics = validateConfig({
+      ...baseConfig,
+      log_level: 'verbose',
+      local_mode: 'yes',
+      log_file_path: '/tmp/app.log',
+      log_file_max_files: -1,
+      sampling: { type: 'ratio', ratio: 1.5, rules: [{ span_name: 'health', ratio: 0, extra: 1 }] },
+      redaction: { rules: [{ pattern: 'phone' }] },
+    } as any).map(formatConfigDiagnostic);
+
+    expect(diagnostics).toEqual([
+      `log_level: expected one of 'debug', 'info', 'warn', 'error', 'silent', got "verbose"`,
+      'local_mode: expected a boolean, got "yes"',
+      'log_file_max_files: expected an integer >= 0, got -1',
+      'sampling.ratio: expected a number between 0 and 1, got 1.5',
+      'sampling.rules[0].extra: unknown option',
+      `redaction.rules[0].pattern: expected a RegExp or one of 'credit_card', 'jwt', 'email', got "phone"`,
+    ]);
+  });
+
+  test('should report conflicting settings', () => {
+    const paths = (config: Partial<traceroot.TraceRootConfig>) =>
+      validateConfig({ ...baseConfig, ...config }).map(diagnostic => diagnostic.path);
+
+    expect(paths({ enable_span_cloud_export: false, enable_log_cloud_export: true })).toEqual([
+      'enable_log_cloud_export',
+    ]);
+    expect(paths({ enable_span_cloud_export: true })).toEqual(['enable_span_cloud_export']);
+    expect(paths({ enable_span_cloud_export: true, local_mode: true })).toEqual([]);
+    expect(paths({ log_exporter: 'otlp' })).toEqual(['log_exporter']);
+    expect(paths({ log_exporter: 'otlp', enable_log_cloud_export: true })).toEqual([]);
+    expect(paths({ log_file_format: 'semicolon', span_file_format: 'otlp-json' })).toEqual([
+      'log_file_format',
+      'span_file_format',
+    ]);
+  });
+
+  test('should validate environments overrides and config file properties', () => {
+    const diagnostics = validateConfigFile({
+      ...baseConfig,
+      autoInit: 'yes' as any,
+      environments: {
+        production: { log_levl: 'warn' } as any,
+        staging: { log_exporter: 'loki' as any },
+      },
+    }).map(formatConfigDiagnostic);
+
+    expect(diagnostics).toEqual([
+      'autoInit: expected a boolean, got "yes"',
+      'environments.production.log_levl: unknown option (did you mean "log_level"?)',
+      `environments.staging.log_exporter: expected one of 'cloudwatch', 'otlp', 'none', got "loki"`,
+    ]);
+  });
+
+  test('should validate TRACEROOT_* environment variables', () => {
+    const diagnostics = validateEnvironmentVariables({
+      TRACEROOT_SERVICE_NAME: 'svc',
+      TRACEROOT_LOG_LEVL: 'info',
+      TRACEROOT_LOCAL_MODE: 'yes',
+      TRACEROOT_LOG_FILE_MAX_SIZE: '10MB',
+      TRACEROOT_LOG_EXPORTER: 'OTLP',
+      TRACEROOT_SAMPLING_TYPE: 'sometimes',
+      TRACEROOT_SAMPLING_RULES: '{not json',
+      NODE_ENV: 'production',
+    }).map(formatConfigDiagnostic);
+
+    expect(diagnostics).toEqual([
+      'TRACEROOT_LOG_LEVL: unknown option (did you mean "TRACEROOT_LOG_LEVEL"?)',
+      'TRACEROOT_LOCAL_MODE: expected a boolean, got "yes"',
+      'TRACEROOT_LOG_FILE_MAX_SIZE: expected an integer >= 0, got "10MB"',
+      `TRACEROOT_SAMPLING_TYPE: expected one of 'always_on', 'always_off', 'ratio', 'parent_based', 'rate_limited', 'rule_based', got "sometimes"`,
+      'TRACEROOT_SAMPLING_RULES: expected a JSON array of sampling rules',
+    ]);
+  });
+
+  test('should warn about invalid configuration in init()', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+    traceroot.init({ ...baseConfig, local_mode: true, log_levle: 'info' } as any);
+
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(warnSpy.mock.calls[0][0]).toBe(
+      '[TraceRoot] Invalid TraceRoot configuration:\n' +
+        '  - log_levle: unknown option (did you mean "log_level"?)'
+    );
+    expect(traceroot.getLogger()).toBeDefined();
+  });
+
+  test('should throw from init() with strict_config', () => {
+    expect(() =>
+      traceroot.init({ ...baseConfig, strict_config: true, log_level: 'verbose' as any })
+    ).toThrow(/log_level: expected one of/);
+  });
+
+  describe('config files', () => {
+    let tempDir: string;
+    const savedConfigPath = process.env.TRACEROOT_CONFIG_PATH;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traceroot-validation-'));
+    });
+
+    afterEach(() => {
+      if (savedConfigPath === undefined) {
+        delete process.env.TRACEROOT_CONFIG_PATH;
+      } else {
+        process.env.TRACEROOT_CONFIG_PATH = savedConfigPath;
+      }
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function writeConfig(content: string): string {
+      const configPath = path.join(tempDir, 'traceroot.config.js');
+      fs.writeFileSync(configPath, content);
+      process.env.TRACEROOT_CONFIG_PATH = configPath;
+      return configPath;
+    }
+
+    test('should warn about invalid environments overrides', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const configPath = writeConfig(`
+        module.exports = {
+          service_name: 'file-service',
+          environments: { production: { enable_span_cloud_exprot: true } },
+        };
+      `);
+
+      expect(findAndLoadConfigSync()?.config.service_name).toBe('file-service');
+      expect(warnSpy.mock.calls[0][0]).toBe(
+        `[TraceRoot] Invalid TraceRoot configuration in ${configPath}:\n` +
+          '  - environments.production.enable_span_cloud_exprot: unknown option ' +
+          '(did you mean "enable_span_cloud_export"?)'
+      );
+    });
+
+    test('should throw for invalid config files with strict_config', () => {
+      writeConfig(`
+        module.exports = {
+          service_name: 'file-service',
+          strict_config: true,
+          environments: { production: { local_mode: 'false' } },
+        };
+      `);
+
+      expect(() => findAndLoadConfigSync()).toThrow(
+        /environments\.production\.local_mode: expected a boolean/
+      );
+    });
+
+    test('should warn when a config file fails to load', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const configPath = writeConfig('module.exports = { service_name: ');
+
+      loadTypescriptConfigSync(configPath);
+
+      expect(warnSpy).toHaveBeenCalledWith(
+        `[TraceRoot] Failed to load config file ${configPath}:`,
+        expect.stringContaining('Unexpected end of input')
+      );
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for config file hot-reload with `watch: true`
+ */
+
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { trace as otelTrace } from '@opentelemetry/api';
+import * as traceroot from '../../src/index';
+import * as tracer from '../../src/tracer';
+
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('Config file watching', () => {
+  let tempDir: string;
+  let configPath: string;
+  let savedEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traceroot-watch-'));
+    configPath = path.join(tempDir, 'traceroot.config.yaml');
+    savedEnv = { ...process.env };
+    process.env.TRACEROOT_CONFIG_PATH = configPath;
+    process.env.NODE_ENV = 'test';
+  });
+
+  afterEach(async () => {
+    await traceroot.shutdownLogger();
+    await traceroot.shutdownTracer();
+    otelTrace.disable();
+    process.env = savedEnv;
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeConfig(lines: string[], serviceName: string = 'watched-service'): void {
+    fs.writeFileSync(
+      configPath,
+      [
+        `service_name: ${serviceName}`,
+        'local_mode: true',
+        'enable_log_console_export: false',
+        'watch: true',
+        ...lines,
+      ].join('\n')
+    );
+  }
+
+  async function waitFor(condition: () => boolean, timeoutMs: number = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for the config file change');
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  }
+
+  test('should apply changes to the log level and environment overrides', async () => {
+    writeConfig(['log_level: info']);
+    expect(traceroot.autoInitialize()).toBe(true);
+    const logger = traceroot.getLogger();
+    expect(tracer.getConfig()?.log_level).toBe('info');
+
+    writeConfig(['log_level: info', 'environments:', '  test:', '    log_level: debug']);
+
+    await waitFor(() => tracer.getConfig()?.log_level === 'debug');
+    expect((logger as any).config.log_level).toBe('debug');
+  });
+
+  test('should warn about changes that need a restart and debounce writes', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const updateSpy = jest.spyOn(tracer, 'updateTracingConfig');
+    writeConfig(['log_level: info']);
+    traceroot.autoInitialize();
+
+    writeConfig(['log_level: debug'], 'renamed');
+    writeConfig(['log_level: warn'], 'renamed-service');
+
+    await waitFor(() => tracer.getConfig()?.log_level === 'warn');
+    expect(updateSpy).toHaveBeenCalledTimes(1);
+    expect(updateSpy).toHaveBeenCalledWith({ log_level: 'warn' });
+    expect(tracer.getConfig()?.service_name).toBe('watched-service');
+    expect(warnSpy).toHaveBeenCalledWith(
+      '[TraceRoot] Config file changes to service_name require a restart and were not applied'
+    );
+  });
+
+  test('should keep the current configuration when the file is invalid', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    writeConfig(['log_level: info']);
+    traceroot.autoInitialize();
+
+    fs.writeFileSync(configPath, 'log_level: [unclosed\n');
+
+    await waitFor(() => warnSpy.mock.calls.length > 0);
+    expect(warnSpy.mock.calls[0][0]).toBe(
+      `[TraceRoot] Failed to reload config file ${configPath}, keeping the current configuration:`
+    );
+    expect(tracer.getConfig()?.log_level).toBe('info');
+  });
+
+  test('should apply changes again on the next reload after applying them failed', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const updateSpy = jest.spyOn(tracer, 'updateTracingConfig');
+    writeConfig(['log_level: info']);
+    traceroot.autoInitialize();
+    updateSpy.mockImplementationOnce(() => {
+      throw new Error('apply failed');
+    });
+
+    writeConfig(['log_level: debug']);
+    await waitFor(() => warnSpy.mock.calls.length > 0);
+    expect(warnSpy).toHaveBeenCalledWith(
+      '[TraceRoot] Failed to apply config file changes:',
+      'apply failed'
+    );
+    expect(tracer.getConfig()?.log_level).toBe('info');
+
+    // Saving the file again, even without changes, applies what failed before
+    writeConfig(['log_level: debug', '# saved again']);
+
+    await waitFor(() => tracer.getConfig()?.log_level === 'debug');
+    expect(updateSpy).toHaveBeenLastCalledWith({ log_level: 'debug' });
+  });
+
+  test('should stop watching on shutdown', async () => {
+    const updateSpy = jest.spyOn(tracer, 'updateTracingConfig');
+    writeConfig(['log_level: info']);
+    traceroot.autoInitialize();
+
+    await traceroot.shutdownTracer();
+    writeConfig(['log_level: debug']);
+    await new Promise(resolve => setTimeout(resolve, 600));
+
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  test('should not watch without watch: true', async () => {
+    const updateSpy = jest.spyOn(tracer, 'updateTracingConfig');
+    fs.writeFileSync(configPath, 'service_name: watched-service\nlocal_mode: true\n');
+    traceroot.autoInitialize();
+
+    fs.writeFileSync(
+      configPath,
+      'service_name: watched-service\nlocal_mode: true\nlog_level: warn\n'
+    );
+    await new Promise(resolve => setTimeout(resolve, 600));
+
+    expect(updateSpy).not.toHaveBeenCalled();
+    expect(tracer.getConfig()?.log_level).toBe('debug');
+  });
+});
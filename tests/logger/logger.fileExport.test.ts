@@ -0,0 +1,265 @@
+/**
+ * Tests for log file export with size/time rotation, compression and retention
+ */
+
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { trace as otelTrace } from '@opentelemetry/api';
+import * as traceroot from '../../src/index';
+import { loadConfigFromEnv } from '../../src/utils/configLoader';
+
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('Log file export', () => {
+  let logDir: string;
+  let logFile: string;
+
+  beforeEach(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traceroot-logs-'));
+    logFile = path.join(logDir, 'app.log');
+  });
+
+  afterEach(async () => {
+    await traceroot.shutdownLogger();
+    await traceroot.shutdownTracer();
+    otelTrace.disable();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  function init(overrides: Partial<traceroot.TraceRootConfig> = {}): void {
+    traceroot.init({
+      service_name: 'file-service',
+      github_owner: 'test-owner',
+      github_repo_name: 'test-repo',
+      github_commit_hash: 'abc123',
+      environment: 'test',
+      local_mode: true,
+      enable_span_console_export: false,
+      enable_log_console_export: false,
+      enable_log_cloud_export: false,
+      log_file_path: logFile,
+      ...overrides,
+    });
+  }
+
+  function readLines(file: string): string[] {
+    const content = file.endsWith('.gz')
+      ? zlib.gunzipSync(fs.readFileSync(file)).toString()
+      : fs.readFileSync(file, 'utf8');
+    return content.split('\n').filter(line => line.length > 0);
+  }
+
+  function rotatedFiles(): string[] {
+    return fs
+      .readdirSync(logDir)
+      .filter(name => name !== 'app.log')
+      .sort();
+  }
+
+  test('should write JSON lines with metadata', async () => {
+    init();
+    const logger = traceroot.getLogger();
+
+    await logger.info('order created', { orderId: 'o-1' });
+    await logger.warn('stock low');
+
+    const entries = readLines(logFile).map(line => JSON.parse(line));
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      level: 'info',
+      message: 'order created',
+      orderId: 'o-1',
+      service_name: 'file-service',
+      trace_id: 'no-trace',
+    });
+    expect(entries[1]).toMatchObject({ level: 'warn', message: 'stock low' });
+  });
+
+  test('should write the semicolon format used for CloudWatch', async () => {
+    init({ log_file_format: 'semicolon' });
+
+    await traceroot.getLogger().error('payment failed');
+
+    const [line] = readLines(logFile);
+    const fields = line.split(';');
+    expect(fields).toHaveLength(11);
+    expect(fields.slice(1, 9)).toEqual([
+      'ERROR',
+      'file-service',
+      'abc123',
+      'test-owner',
+      'test-repo',
+      'test',
+      'no-trace',
+      'no-span',
+    ]);
+    expect(fields[10]).toBe('payment failed');
+  });
+
+  test('should respect the log level', async () => {
+    init({ log_level: 'warn' });
+    const logger = traceroot.getLogger();
+
+    await logger.info('skipped');
+    await logger.error('written');
+
+    expect(readLines(logFile).map(line => JSON.parse(line).message)).toEqual(['written']);
+  });
+
+  test('should rotate by size and gzip rotated files', async () => {
+    init({ log_file_max_size: 600, log_file_max_files: 0 });
+    const logger = traceroot.getLogger();
+
+    for (let i = 0; i < 6; i++) {
+      await logger.info(`message ${i}`);
+    }
+    await traceroot.forceFlushLogger();
+
+    const rotated = rotatedFiles();
+    expect(rotated.length).toBeGreaterThan(0);
+    expect(rotated.every(name => /^app\.\d{8}-\d{6}(-\d+)?\.log\.gz$/.test(name))).toBe(true);
+    expect(fs.statSync(logFile).size).toBeLessThanOrEqual(600);
+
+    // No entries are lost across rotations
+    const messages = [...rotated.map(name => path.join(logDir, name)), logFile]
+      .flatMap(readLines)
+      .map(line => JSON.parse(line).message)
+      .sort();
+    expect(messages).toEqual([0, 1, 2, 3, 4, 5].map(i => `message ${i}`));
+  });
+
+  test('should keep only the configured number of rotated files', async () => {
+    init({ log_file_max_size: 1, log_file_max_files: 2, log_file_compress: false });
+    const logger = traceroot.getLogger();
+
+    for (let i = 0; i < 5; i++) {
+      await logger.info(`message ${i}`);
+    }
+    await traceroot.forceFlushLogger();
+
+    const rotated = rotatedFiles();
+    expect(rotated).toHaveLength(2);
+    expect(rotated.every(name => name.endsWith('.log'))).toBe(true);
+    expect(readLines(logFile).map(line => JSON.parse(line).message)).toEqual(['message 4']);
+  });
+
+  test('should only delete rotations of the log file, not other files next to it', async () => {
+    const siblings = ['app.error.log', 'app.audit.log.gz', 'app.20240115-235959.txt'];
+    siblings.forEach(name => fs.writeFileSync(path.join(logDir, name), 'keep\n'));
+    init({ log_file_max_size: 1, log_file_max_files: 1, log_file_compress: false });
+    const logger = traceroot.getLogger();
+
+    for (let i = 0; i < 3; i++) {
+      await logger.info(`message ${i}`);
+    }
+    await traceroot.forceFlushLogger();
+
+    const rotated = rotatedFiles().filter(name => !siblings.includes(name));
+    expect(rotated).toHaveLength(1);
+    siblings.forEach(name => expect(fs.existsSync(path.join(logDir, name))).toBe(true));
+  });
+
+  test('should rotate when the day changes', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    jest.setSystemTime(new Date('2024-01-15T23:59:00Z'));
+    init({ log_file_compress: false });
+    const logger = traceroot.getLogger();
+
+    await logger.info('before midnight');
+    jest.setSystemTime(new Date('2024-01-16T00:00:01Z'));
+    await logger.info('after midnight');
+
+    expect(rotatedFiles()).toEqual(['app.20240115-235900.log']);
+    expect(readLines(path.join(logDir, 'app.20240115-235900.log'))).toHaveLength(1);
+    expect(readLines(logFile).map(line => JSON.parse(line).message)).toEqual(['after midnight']);
+  });
+
+  test('should append to an existing file', async () => {
+    fs.writeFileSync(logFile, '{"message":"previous run"}\n');
+    init({ log_file_rotation: 'none' });
+
+    await traceroot.getLogger().info('current run');
+
+    expect(readLines(logFile).map(line => JSON.parse(line).message)).toEqual([
+      'previous run',
+      'current run',
+    ]);
+  });
+
+  test('should share the file between module loggers', async () => {
+    init({ log_file_max_size: 400, log_file_compress: false, log_file_max_files: 0 });
+
+    for (let i = 0; i < 4; i++) {
+      await traceroot.getLogger('orders').info(`orders ${i}`);
+      await traceroot.getLogger('payments').info(`payments ${i}`);
+    }
+
+    const messages = [...rotatedFiles().map(name => path.join(logDir, name)), logFile]
+      .flatMap(readLines)
+      .map(line => JSON.parse(line).message);
+    expect(messages).toHaveLength(8);
+    expect(new Set(messages).size).toBe(8);
+  });
+
+  test('should read file export settings from TRACEROOT_LOG_FILE_* variables', () => {
+    const saved = { ...process.env };
+    try {
+      process.env.TRACEROOT_LOG_FILE_PATH = '/var/log/app/traceroot.log';
+      process.env.TRACEROOT_LOG_FILE_FORMAT = 'SEMICOLON';
+      process.env.TRACEROOT_LOG_FILE_MAX_SIZE = '1048576';
+      process.env.TRACEROOT_LOG_FILE_ROTATION = 'hourly';
+      process.env.TRACEROOT_LOG_FILE_MAX_FILES = '10';
+      process.env.TRACEROOT_LOG_FILE_COMPRESS = 'false';
+
+      expect(loadConfigFromEnv()).toMatchObject({
+        log_file_path: '/var/log/app/traceroot.log',
+        log_file_format: 'semicolon',
+        log_file_max_size: 1048576,
+        log_file_rotation: 'hourly',
+        log_file_max_files: 10,
+        log_file_compress: false,
+      });
+    } finally {
+      process.env = saved;
+    }
+  });
+
+  test('should ignore TRACEROOT_LOG_FILE_* sizes and counts that are not numbers', () => {
+    const saved = { ...process.env };
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      process.env.TRACEROOT_LOG_FILE_MAX_SIZE = '';
+      process.env.TRACEROOT_LOG_FILE_MAX_FILES = 'all';
+
+      const config = loadConfigFromEnv();
+
+      expect(config.log_file_max_size).toBeUndefined();
+      expect(config.log_file_max_files).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[TraceRoot] Ignoring TRACEROOT_LOG_FILE_MAX_FILES: expected a number, got "all"'
+      );
+    } finally {
+      process.env = saved;
+    }
+  });
+
+  test('should keep rotated files when the retention count is not a number', async () => {
+    init({ log_file_max_size: 1, log_file_max_files: NaN, log_file_compress: false });
+    const logger = traceroot.getLogger();
+
+    for (let i = 0; i < 3; i++) {
+      await logger.info(`message ${i}`);
+    }
+    await traceroot.forceFlushLogger();
+
+    expect(rotatedFiles()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Tests for the OTLP/HTTP log exporter (log_exporter: 'otlp'), using a local HTTP
+ * server as a stand-in collector
+ */
+
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { trace as otelTrace } from '@opentelemetry/api';
+import * as traceroot from '../../src/index';
+import { TraceRootConfigImpl } from '../../src/config';
+import { resolveOtlpLogsEndpoint } from '../../src/transports/otlpLogTransport';
+
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+interface ReceivedRequest {
+  url: string;
+  body: any;
+}
+
+describe('OTLP log exporter', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let received: ReceivedRequest[];
+  let failNextRequests: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        if (failNextRequests > 0) {
+          failNextRequests--;
+          res.writeHead(503);
+          res.end();
+          return;
+        }
+        received.push({ url: req.url || '', body: JSON.parse(Buffer.concat(chunks).toString()) });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{}');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/logs`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received = [];
+    failNextRequests = 0;
+  });
+
+  afterEach(async () => {
+    await traceroot.shutdownLogger();
+    await traceroot.shutdownTracer();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+  });
+
+  function init(overrides: Partial<traceroot.TraceRootConfig> = {}): void {
+    traceroot.init({
+      service_name: 'otlp-logs-service',
+      github_owner: 'test-owner',
+      github_repo_name: 'test-repo',
+      github_commit_hash: 'abc123',
+      environment: 'test',
+      local_mode: true,
+      enable_span_console_export: false,
+      enable_span_cloud_export: false,
+      enable_log_console_export: false,
+      enable_log_cloud_export: true,
+      log_exporter: 'otlp',
+      otlp_logs_endpoint: endpoint,
+      ...overrides,
+    });
+  }
+
+  function receivedRecords(): any[] {
+    return received.flatMap(request =>
+      request.body.resourceLogs.flatMap((resourceLogs: any) =>
+        resourceLogs.scopeLogs.flatMap((scopeLogs: any) => scopeLogs.logRecords)
+      )
+    );
+  }
+
+  function attributesOf(record: any): Record<string, any> {
+    const attributes: Record<string, any> = {};
+    for (const { key, value } of record.attributes) {
+      attributes[key] = value.stringValue ?? value.intValue ?? value.boolValue ?? value;
+    }
+    return attributes;
+  }
+
+  test('should send log records with severity, body, stack trace and metadata', async () => {
+    init();
+    const logger = traceroot.getLogger('orders');
+
+    await logger.info('order created', { orderId: 'o-1', items: 3 });
+    await logger.error('payment failed', { orderId: 'o-1' });
+    await traceroot.forceFlushLogger();
+
+    expect(received.every(request => request.url === '/v1/logs')).toBe(true);
+    const records = receivedRecords();
+    expect(records).toHaveLength(2);
+
+    expect(records[0].severityNumber).toBe(9);
+    expect(records[0].severityText).toBe('INFO');
+    expect(records[0].body.stringValue).toBe('order created');
+    const attributes = attributesOf(records[0]);
+    expect(attributes.orderId).toBe('o-1');
+    expect(Number(attributes.items)).toBe(3);
+    expect(attributes['log.logger']).toBe('orders');
+    expect(typeof attributes['log.stack_trace']).toBe('string');
+    expect(attributes.service_name).toBeUndefined();
+
+    expect(records[1].severityNumber).toBe(17);
+    expect(records[1].severityText).toBe('ERROR');
+  });
+
+  test('should describe the service in the resource', async () => {
+    init();
+    await traceroot.getLogger().info('hello');
+    await traceroot.forceFlushLogger();
+
+    const resourceAttributes = attributesOf(received[0].body.resourceLogs[0].resource);
+    expect(resourceAttributes['service.name']).toBe('otlp-logs-service');
+    expect(resourceAttributes['service.version']).toBe('abc123');
+    expect(resourceAttributes['service.environment']).toBe('test');
+  });
+
+  test('should correlate log records with the active span', async () => {
+    init({ enable_span_console_export: true });
+    jest.spyOn(console, 'dir').mockImplementation(() => {});
+    const logger = traceroot.getLogger();
+
+    let traceId = '';
+    let spanId = '';
+    const handled = traceroot.traceFunction(
+      async function handleRequest() {
+        const spanContext = otelTrace.getActiveSpan()!.spanContext();
+        traceId = spanContext.traceId;
+        spanId = spanContext.spanId;
+        await logger.info('inside span');
+      },
+      { spanName: 'handleRequest' }
+    );
+    await handled();
+    await traceroot.forceFlushLogger();
+
+    const [record] = receivedRecords();
+    expect(record.traceId).toBe(traceId);
+    expect(record.spanId).toBe(spanId);
+  });
+
+  test('should apply redaction rules before export', async () => {
+    init({ redaction: { rules: [{ key: 'password' }, { pattern: 'email' }] } });
+
+    await traceroot.getLogger().info('signup by jane@example.com', { password: 'hunter2' });
+    await traceroot.forceFlushLogger();
+
+    const [record] = receivedRecords();
+    expect(record.body.stringValue).toBe('signup by [REDACTED]');
+    expect(attributesOf(record).password).toBe('[REDACTED]');
+  });
+
+  test('should batch records outside local mode', async () => {
+    init({ local_mode: false });
+    const logger = traceroot.getLogger();
+
+    for (let i = 0; i < 3; i++) {
+      await logger.info(`message ${i}`);
+    }
+    expect(receivedRecords()).toHaveLength(0);
+
+    await traceroot.forceFlushLogger();
+    expect(receivedRecords().map(record => record.body.stringValue)).toEqual([
+      'message 0',
+      'message 1',
+      'message 2',
+    ]);
+  });
+
+  test('should retry when the collector is temporarily unavailable', async () => {
+    init();
+    failNextRequests = 1;
+
+    await traceroot.getLogger().warn('retried');
+    await traceroot.forceFlushLogger();
+
+    const [record] = receivedRecords();
+    expect(record.body.stringValue).toBe('retried');
+    expect(record.severityText).toBe('WARN');
+  });
+
+  test('should flush buffered records on shutdown', async () => {
+    init({ local_mode: false });
+
+    await traceroot.getLogger().info('sent at shutdown');
+    await traceroot.shutdownLogger();
+
+    expect(receivedRecords().map(record => record.body.stringValue)).toEqual(['sent at shutdown']);
+  });
+
+  test('should not export anything when log_exporter is none', async () => {
+    init({ log_exporter: 'none' });
+
+    await traceroot.getLogger().info('not exported');
+    await traceroot.forceFlushLogger();
+
+    expect(received).toHaveLength(0);
+  });
+
+  test('should derive the logs endpoint from the traces endpoint', () => {
+    const config = (overrides: Partial<traceroot.TraceRootConfig>) =>
+      new TraceRootConfigImpl({
+        service_name: 'svc',
+        github_owner: 'owner',
+        github_repo_name: 'repo',
+        github_commit_hash: 'main',
+        ...overrides,
+      });
+
+    expect(resolveOtlpLogsEndpoint(config({}))).toBe('http://localhost:4318/v1/logs');
+    expect(
+      resolveOtlpLogsEndpoint(config({ otlp_endpoint: 'https://collector.example.com/v1/traces' }))
+    ).toBe('https://collector.example.com/v1/logs');
+    expect(resolveOtlpLogsEndpoint(config({ otlp_endpoint: 'https://otel.example.com/' }))).toBe(
+      'https://otel.example.com/v1/logs'
+    );
+    expect(
+      resolveOtlpLogsEndpoint(config({ otlp_logs_endpoint: 'https://logs.example.com/ingest' }))
+    ).toBe('https://logs.example.com/ingest');
+  });
+});
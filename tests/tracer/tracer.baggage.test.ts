@@ -0,0 +1,141 @@
+/**
+ * Tests for W3C Baggage support
+ * Tests baggage helpers, header propagation and enrichment of logs and spans
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { jest } from '@jest/globals';
+import { trace as otelTrace } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import * as traceroot from '../../src/index';
+import { _initializeTracing } from '../../src/tracer';
+import { parseBaggageHeader } from '../../src/propagation';
+import { TraceRootConfig } from '../../src/config';
+import { loadConfigFromEnv } from '../../src/utils/configLoader';
+
+// Mock the credential fetching function
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('Baggage Support', () => {
+  jest.setTimeout(10000);
+
+  describe('baggage headers and config', () => {
+    test('should parse baggage headers, ignoring metadata and malformed entries', () => {
+      expect(parseBaggageHeader('tenant_id=acme;ttl=60, user_id=a%20b,=x,broken,bad=%E0')).toEqual({
+        tenant_id: 'acme',
+        user_id: 'a b',
+      });
+    });
+
+    test('should read baggage keys from TRACEROOT_BAGGAGE_KEYS', () => {
+      process.env.TRACEROOT_BAGGAGE_KEYS = 'tenant_id, user_id,';
+      try {
+        expect(loadConfigFromEnv().baggage_keys).toEqual(['tenant_id', 'user_id']);
+      } finally {
+        delete process.env.TRACEROOT_BAGGAGE_KEYS;
+      }
+    });
+  });
+
+  describe('with tracing initialized', () => {
+    const testConfig: Partial<TraceRootConfig> = {
+      service_name: 'baggage-service',
+      github_owner: 'test-owner',
+      github_repo_name: 'test-repo',
+      github_commit_hash: 'test-commit',
+      environment: 'test',
+      local_mode: true,
+      enable_span_console_export: true,
+      enable_log_console_export: false,
+      baggage_keys: ['tenant_id', 'user_id'],
+    };
+
+    let exporter: InMemorySpanExporter;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'dir').mockImplementation(() => {});
+      traceroot.init(testConfig);
+      exporter = new InMemorySpanExporter();
+      _initializeTracing().addSpanProcessor(new SimpleSpanProcessor(exporter));
+    });
+
+    afterEach(async () => {
+      await traceroot.shutdownTracer();
+      await traceroot.shutdownLogger();
+      otelTrace.disable();
+      jest.restoreAllMocks();
+    });
+
+    test('should expose entries only inside the callback', () => {
+      traceroot.setBaggage({ tenant_id: 'acme', user_id: 'u-1' }, () => {
+        expect(traceroot.getBaggage('tenant_id')).toBe('acme');
+        expect(traceroot.getBaggage()).toEqual({ tenant_id: 'acme', user_id: 'u-1' });
+      });
+
+      expect(traceroot.getBaggage()).toEqual({});
+      expect(traceroot.getBaggage('tenant_id')).toBeUndefined();
+    });
+
+    test('should merge nested entries with the outer baggage', () => {
+      traceroot.setBaggage({ tenant_id: 'acme', user_id: 'u-1' }, () => {
+        traceroot.setBaggage({ user_id: 'u-2', request_id: 'r-1' }, () => {
+          expect(traceroot.getBaggage()).toEqual({
+            tenant_id: 'acme',
+            user_id: 'u-2',
+            request_id: 'r-1',
+          });
+        });
+      });
+    });
+
+    test('should emit a baggage header from getTraceHeaders', () => {
+      const headers = traceroot.setBaggage({ tenant_id: 'acme corp' }, () =>
+        traceroot.getTraceHeaders()
+      );
+      expect(headers).toEqual({ baggage: 'tenant_id=acme%20corp' });
+    });
+
+    test('should round-trip baggage through outgoing and incoming headers', () => {
+      const outgoing = traceroot.setBaggage({ tenant_id: 'acme', request_id: 'r-1' }, () =>
+        traceroot.withSpan('caller', () => traceroot.getTraceHeaders())
+      );
+
+      const received = traceroot.runWithTraceContext(outgoing, () => traceroot.getBaggage());
+      expect(received).toEqual({ tenant_id: 'acme', request_id: 'r-1' });
+    });
+
+    test('should copy selected baggage keys onto traced function spans', () => {
+      const handler = traceroot.traceFunction(function handleRequest() {
+        return 'ok';
+      });
+
+      traceroot.setBaggage({ tenant_id: 'acme', secret: 'hidden' }, () => handler());
+
+      const [finished] = exporter.getFinishedSpans();
+      expect(finished.attributes.tenant_id).toBe('acme');
+      expect(finished.attributes.secret).toBeUndefined();
+    });
+
+    test('should copy selected baggage keys onto manual spans', () => {
+      traceroot.setBaggage({ user_id: 'u-1' }, () => traceroot.startSpan('manual').end());
+
+      const [finished] = exporter.getFinishedSpans();
+      expect(finished.attributes.user_id).toBe('u-1');
+    });
+
+    test('should merge selected baggage keys into log metadata with lowest precedence', () => {
+      const logger = traceroot.getLogger();
+      const { metadata } = traceroot.setBaggage(
+        { tenant_id: 'acme', user_id: 'u-1', secret: 'hidden' },
+        () => (logger as any).processLogArgs({ user_id: 'explicit' }, 'message')
+      );
+
+      expect(metadata).toMatchObject({ tenant_id: 'acme', user_id: 'explicit' });
+      expect(metadata.secret).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for the file span exporter and the local trace store reader
+ */
+
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { trace as otelTrace } from '@opentelemetry/api';
+import * as traceroot from '../../src/index';
+
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('File span exporter', () => {
+  let traceDir: string;
+
+  beforeEach(() => {
+    traceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traceroot-traces-'));
+  });
+
+  afterEach(async () => {
+    await traceroot.shutdownTracer();
+    await traceroot.shutdownLogger();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+    fs.rmSync(traceDir, { recursive: true, force: true });
+  });
+
+  function init(overrides: Partial<traceroot.TraceRootConfig> = {}): void {
+    traceroot.init({
+      service_name: 'file-trace-service',
+      github_owner: 'test-owner',
+      github_repo_name: 'test-repo',
+      github_commit_hash: 'abc123',
+      environment: 'test',
+      local_mode: true,
+      enable_span_console_export: false,
+      enable_span_cloud_export: false,
+      enable_log_console_export: false,
+      enable_log_cloud_export: false,
+      span_file_dir: traceDir,
+      ...overrides,
+    });
+  }
+
+  async function runCheckout(): Promise<string> {
+    const logger = traceroot.getLogger();
+    let traceId = '';
+    const chargeCard = traceroot.traceFunction(
+      async function chargeCard(amount: number) {
+        await logger.info('charging card', { amount });
+        return 'charged';
+      },
+      { spanName: 'chargeCard', traceParams: true }
+    );
+    const checkout = traceroot.traceFunction(
+      async function checkout() {
+        traceId = otelTrace.getActiveSpan()!.spanContext().traceId;
+        return chargeCard(42);
+      },
+      { spanName: 'checkout' }
+    );
+    await checkout();
+    await traceroot.forceFlushTracer();
+    return traceId;
+  }
+
+  test.each(['jsonl', 'otlp-json'] as const)(
+    'should record spans with their log events (%s)',
+    async format => {
+      init({ span_file_format: format });
+      const traceId = await runCheckout();
+
+      const traces = await traceroot.readLocalTraces({ dir: traceDir });
+      expect(traces).toHaveLength(1);
+      const [trace] = traces;
+      expect(trace.traceId).toBe(traceId);
+      expect(trace.service).toBe('file-trace-service');
+      expect(trace.spans.map(span => span.name)).toEqual(['checkout', 'chargeCard']);
+
+      const [root, child] = trace.spans;
+      expect(root.parentSpanId).toBeUndefined();
+      expect(child.parentSpanId).toBe(root.spanId);
+      expect(child.status.code).toBe('OK');
+      expect(child.kind).toBe('INTERNAL');
+      expect(child.attributes['params.amount']).toBe(42);
+      expect(child.durationMs).toBeGreaterThanOrEqual(0);
+      expect(child.resource['service.environment']).toBe('test');
+
+      const logEvent = child.events.find(event => event.name === 'log.info');
+      expect(logEvent?.attributes['log.message']).toBe('charging card');
+    }
+  );
+
+  test('should partition files by date and trace ID', async () => {
+    init();
+    const traceId = await runCheckout();
+
+    const [date] = fs.readdirSync(traceDir);
+    expect(date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(fs.readdirSync(path.join(traceDir, date))).toEqual([`${traceId}.jsonl`]);
+    expect(
+      fs
+        .readFileSync(path.join(traceDir, date, `${traceId}.jsonl`), 'utf8')
+        .trim()
+        .split('\n')
+    ).toHaveLength(2);
+  });
+
+  test('should record failed spans with their error status', async () => {
+    init();
+    const failing = traceroot.traceFunction(
+      async function failing() {
+        throw new Error('card declined');
+      },
+      { spanName: 'failing' }
+    );
+    await expect(failing()).rejects.toThrow('card declined');
+    await traceroot.forceFlushTracer();
+
+    const [trace] = await traceroot.readLocalTraces({ dir: traceDir });
+    expect(trace.spans[0].status).toEqual({ code: 'ERROR', message: 'card declined' });
+  });
+
+  test('should filter traces by trace ID, service and start time', async () => {
+    init();
+    const before = new Date();
+    const firstTraceId = await runCheckout();
+    const secondTraceId = await runCheckout();
+
+    expect(
+      (await traceroot.readLocalTraces({ dir: traceDir })).map(trace => trace.traceId)
+    ).toEqual([firstTraceId, secondTraceId]);
+    expect(
+      (await traceroot.readLocalTraces({ dir: traceDir, traceId: secondTraceId })).map(
+        trace => trace.traceId
+      )
+    ).toEqual([secondTraceId]);
+    expect(await traceroot.readLocalTraces({ dir: traceDir, service: 'other-service' })).toEqual(
+      []
+    );
+    expect(
+      await traceroot.readLocalTraces({ dir: traceDir, service: 'file-trace-service' })
+    ).toHaveLength(2);
+    expect(
+      await traceroot.readLocalTraces({ dir: traceDir, since: before.getTime() - 60_000 })
+    ).toHaveLength(2);
+    expect(await traceroot.readLocalTraces({ dir: traceDir, since: Date.now() + 60_000 })).toEqual(
+      []
+    );
+  });
+
+  test('should default to the configured directory', async () => {
+    init();
+    const traceId = await runCheckout();
+
+    const traces = await traceroot.readLocalTraces({ traceId });
+    expect(traces).toHaveLength(1);
+  });
+
+  test('should return no traces when nothing was recorded', async () => {
+    expect(await traceroot.readLocalTraces({ dir: path.join(traceDir, 'missing') })).toEqual([]);
+  });
+
+  test('should reject an invalid since value', async () => {
+    await expect(traceroot.readLocalTraces({ dir: traceDir, since: 'not a date' })).rejects.toThrow(
+      'Invalid "since" value'
+    );
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Tests for non-blocking initialization with initAsync()
+ * Spans and CloudWatch logs are buffered while credentials are fetched, then replayed
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { trace as otelTrace } from '@opentelemetry/api';
+import * as traceroot from '../../src/index';
+import { TraceRootConfig } from '../../src/config';
+import { getConfig } from '../../src/tracer';
+import { ASYNC_INIT_BUFFER_CONFIG } from '../../src/constants';
+import { BufferingSpanProcessor } from '../../src/processors/bufferingSpanProcessor';
+import { AwsCredentials, CredentialProvider } from '../../src/types';
+
+// Mock the credential fetching function
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+// Collect exported spans instead of sending them
+const mockExportedSpans: string[] = [];
+jest.mock('@opentelemetry/exporter-trace-otlp-http', () => ({
+  OTLPTraceExporter: jest.fn().mockImplementation(() => ({
+    export: jest.fn((spans: any[], callback: (result: any) => void) => {
+      mockExportedSpans.push(...spans.map(span => span.name));
+      callback({ code: 0 });
+    }),
+    shutdown: jest.fn().mockImplementation(async () => {}),
+    forceFlush: jest.fn().mockImplementation(async () => {}),
+  })),
+}));
+
+// Collect logs sent to CloudWatch instead of sending them
+const mockCloudWatchMessages: string[] = [];
+jest.mock('winston-cloudwatch', () => {
+  const TransportStream = require('winston-transport');
+  return class MockCloudWatch extends TransportStream {
+    log(info: any, next: () => void) {
+      mockCloudWatchMessages.push(info.message);
+      next();
+    }
+    kthxbye(callback: () => void) {
+      callback();
+    }
+  };
+});
+
+describe('initAsync', () => {
+  const credentials: AwsCredentials = {
+    aws_access_key_id: 'key',
+    aws_secret_access_key: 'secret',
+    aws_session_token: 'session',
+    region: 'us-west-2',
+    hash: 'async-hash',
+    expiration_utc: new Date(Date.now() + 60 * 60 * 1000),
+    otlp_endpoint: 'http://collector.example.com/v1/traces',
+  };
+
+  const createTestConfig = (overrides: Partial<TraceRootConfig> = {}) => ({
+    service_name: 'test-service',
+    github_owner: 'test-owner',
+    github_repo_name: 'test-repo',
+    github_commit_hash: 'test-commit',
+    environment: 'test',
+    local_mode: false,
+    token: 'test-token',
+    enable_span_cloud_export: true,
+    enable_log_cloud_export: true,
+    enable_span_console_export: false,
+    enable_log_console_export: false,
+    ...overrides,
+  });
+
+  // Provider whose credentials arrive when the test resolves them
+  const createDeferredProvider = () => {
+    let resolve!: (credentials: AwsCredentials | null) => void;
+    const provider: CredentialProvider = {
+      name: 'deferred',
+      getCredentials: jest.fn(() => new Promise<AwsCredentials | null>(r => (resolve = r))),
+      getCredentialsSync: jest.fn(() => null),
+    };
+    return { provider, resolve: (value: AwsCredentials | null) => resolve(value) };
+  };
+
+  beforeEach(() => {
+    mockExportedSpans.length = 0;
+    mockCloudWatchMessages.length = 0;
+  });
+
+  afterEach(async () => {
+    await traceroot.shutdownLogger();
+    await traceroot.shutdownTracer();
+    traceroot.resetCredentialProviders();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+  });
+
+  test('should buffer spans and logs until credentials arrive, then replay them', async () => {
+    const { fetchAwsCredentialsSync } = require('../../src/api/credential');
+    const { provider, resolve } = createDeferredProvider();
+
+    const ready = traceroot.initAsync(
+      createTestConfig({ credential_providers: [provider] } as any)
+    );
+    expect(fetchAwsCredentialsSync).not.toHaveBeenCalled();
+    expect(provider.getCredentialsSync).not.toHaveBeenCalled();
+
+    // Tracing and logging work before the promise resolves
+    const logger = traceroot.getLogger();
+    const traced = traceroot.traceFunction(async function beforeCredentials() {
+      await logger.info('buffered log');
+      return 'done';
+    });
+    await expect(traced()).resolves.toBe('done');
+    expect(traceroot.getInitBufferStats()).toEqual({
+      spans: { buffered: 1, dropped: 0, limit: ASYNC_INIT_BUFFER_CONFIG.MAX_SPANS },
+      logs: { buffered: 1, dropped: 0, limit: ASYNC_INIT_BUFFER_CONFIG.MAX_LOG_RECORDS },
+    });
+    expect(mockCloudWatchMessages).toEqual([]);
+
+    resolve(credentials);
+    await ready;
+
+    expect(getConfig()?._name).toBe('async-hash');
+    expect(getConfig()?.otlp_endpoint).toBe('http://collector.example.com/v1/traces');
+    expect(mockCloudWatchMessages).toEqual(['buffered log']);
+    await logger.info('direct log');
+    expect(mockCloudWatchMessages).toEqual(['buffered log', 'direct log']);
+
+    traceroot.traceFunction(function afterCredentials() {})();
+    await traceroot.forceFlushTracerAsync();
+    expect(mockExportedSpans).toEqual(['beforeCredentials', 'afterCredentials']);
+    expect(traceroot.getInitBufferStats().spans.buffered).toBe(0);
+  });
+
+  test('should drop the oldest spans when the buffer is full', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const { provider, resolve } = createDeferredProvider();
+    traceroot.registerCredentialProvider(provider);
+
+    const ready = traceroot.initAsync(createTestConfig({ enable_log_cloud_export: false }));
+    const limit = ASYNC_INIT_BUFFER_CONFIG.MAX_SPANS;
+    for (let i = 0; i < limit + 2; i++) {
+      traceroot.startSpan(`span-${i}`).end();
+    }
+
+    expect(traceroot.getInitBufferStats().spans).toEqual({ buffered: limit, dropped: 2, limit });
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(warnSpy.mock.calls[0][0]).toContain('dropping the oldest spans');
+
+    resolve(credentials);
+    await ready;
+    await traceroot.forceFlushTracerAsync();
+
+    expect(mockExportedSpans).toHaveLength(limit);
+    expect(mockExportedSpans[0]).toBe('span-2');
+    expect(traceroot.getInitBufferStats().spans.dropped).toBe(2);
+  });
+
+  test('should wait for the credentials when shut down before they arrive', async () => {
+    const { provider, resolve } = createDeferredProvider();
+    traceroot.registerCredentialProvider(provider);
+
+    const ready = traceroot.initAsync(createTestConfig({ enable_log_cloud_export: false }));
+    traceroot.traceFunction(function beforeShutdown() {})();
+    const shutdown = traceroot.shutdownTracer();
+    resolve(credentials);
+    await Promise.all([ready, shutdown]);
+
+    expect(mockExportedSpans).toEqual(['beforeShutdown']);
+  });
+
+  test('should count and report spans dropped when the credentials never arrive', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const buffer = new BufferingSpanProcessor(10, 20);
+    buffer.onEnd({ name: 'never-exported' } as any);
+
+    await buffer.forceFlush();
+    expect(buffer.getStats()).toEqual({ buffered: 1, dropped: 0, limit: 10 });
+
+    await buffer.shutdown();
+    expect(buffer.getStats()).toEqual({ buffered: 0, dropped: 1, limit: 10 });
+    expect(warnSpy).toHaveBeenCalledWith(
+      '[TraceRoot] Dropped 1 buffered spans: credentials did not arrive before shutdown'
+    );
+  });
+
+  test('should export to the configured endpoint when fetching credentials fails', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    traceroot.registerCredentialProvider({
+      name: 'failing',
+      getCredentials: () => Promise.reject(new Error('secrets unavailable')),
+    });
+    // Tried next, the TraceRoot API has no credentials for the token
+    jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true, json: async () => null } as any);
+
+    const ready = traceroot.initAsync(createTestConfig());
+    const logger = traceroot.getLogger();
+    traceroot.traceFunction(function whileFetching() {})();
+    await logger.info('never sent');
+    await ready;
+    await traceroot.forceFlushTracerAsync();
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      '[TraceRoot] Failed to fetch AWS credentials:',
+      'secrets unavailable'
+    );
+    expect(mockExportedSpans).toEqual(['whileFetching']);
+    // CloudWatch needs credentials: the buffered logs are dropped
+    expect(mockCloudWatchMessages).toEqual([]);
+    expect(traceroot.getInitBufferStats().logs.buffered).toBe(0);
+  });
+
+  test('should not buffer in local mode', async () => {
+    const { provider } = createDeferredProvider();
+    traceroot.registerCredentialProvider(provider);
+
+    await traceroot.initAsync(createTestConfig({ local_mode: true }));
+
+    expect(provider.getCredentials).not.toHaveBeenCalled();
+    expect(traceroot.getInitBufferStats().spans.limit).toBe(ASYNC_INIT_BUFFER_CONFIG.MAX_SPANS);
+    expect(traceroot.getInitBufferStats().spans.buffered).toBe(0);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for the manual span API (startSpan / withSpan)
+ * Tests span handles, scoped spans and TraceRoot base attributes on manual spans
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { jest } from '@jest/globals';
+import { SpanKind, SpanStatusCode, trace as otelTrace } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import * as traceroot from '../../src/index';
+import { _initializeTracing } from '../../src/tracer';
+import { TraceRootConfig } from '../../src/config';
+
+// Mock the credential fetching function
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('Manual Span API', () => {
+  jest.setTimeout(10000);
+
+  const testConfig: Partial<TraceRootConfig> = {
+    service_name: 'manual-span-service',
+    github_owner: 'test-owner',
+    github_repo_name: 'test-repo',
+    github_commit_hash: 'test-commit',
+    environment: 'test',
+    local_mode: true,
+    enable_span_console_export: true,
+    enable_log_console_export: false,
+  };
+
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'dir').mockImplementation(() => {});
+    traceroot.init(testConfig);
+    exporter = new InMemorySpanExporter();
+    _initializeTracing().addSpanProcessor(new SimpleSpanProcessor(exporter));
+  });
+
+  afterEach(async () => {
+    await traceroot.shutdownTracer();
+    await traceroot.shutdownLogger();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+  });
+
+  describe('startSpan', () => {
+    test('should create a span with TraceRoot base attributes', () => {
+      const span = traceroot.startSpan('manual-work', { attributes: { batch_size: 10 } });
+      span.setAttribute('items', 3).addEvent('checkpoint');
+      span.setStatus({ code: SpanStatusCode.OK });
+      span.end();
+
+      const [finished] = exporter.getFinishedSpans();
+      expect(finished.name).toBe('manual-work');
+      expect(finished.attributes).toMatchObject({
+        service_name: 'manual-span-service',
+        service_environment: 'test',
+        telemetry_sdk_language: 'ts',
+        batch_size: 10,
+        items: 3,
+      });
+      expect(finished.events.map(event => event.name)).toEqual(['checkpoint']);
+      expect(finished.status.code).toBe(SpanStatusCode.OK);
+    });
+
+    test('should respect span kind and ignore repeated end calls', () => {
+      const span = traceroot.startSpan('server-work', { kind: SpanKind.SERVER });
+      span.end();
+      span.end();
+
+      const finished = exporter.getFinishedSpans();
+      expect(finished).toHaveLength(1);
+      expect(finished[0].kind).toBe(SpanKind.SERVER);
+    });
+
+    test('should record exceptions', () => {
+      const span = traceroot.startSpan('failing-work');
+      span.recordException(new Error('boom'));
+      span.end();
+
+      const [finished] = exporter.getFinishedSpans();
+      expect(finished.events[0].name).toBe('exception');
+    });
+
+    test('should return a non-recording handle when tracing is not initialized', async () => {
+      await traceroot.shutdownTracer();
+
+      const span = traceroot.startSpan('not-initialized');
+      expect(span.isRecording()).toBe(false);
+      expect(() => span.setAttribute('key', 'value').end()).not.toThrow();
+    });
+  });
+
+  describe('withSpan', () => {
+    test('should make the span active for the callback and end it', () => {
+      const result = traceroot.withSpan('scoped-work', span => {
+        expect(traceroot.getSpanId()).toBe(span.spanContext().spanId);
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      const [finished] = exporter.getFinishedSpans();
+      expect(finished.name).toBe('scoped-work');
+      expect(finished.status.code).toBe(SpanStatusCode.OK);
+    });
+
+    test('should parent spans created by traced functions', () => {
+      const inner = traceroot.traceFunction(function innerWork() {
+        return 'inner';
+      });
+
+      traceroot.withSpan('iteration', () => inner());
+
+      const spans = exporter.getFinishedSpans();
+      const parent = spans.find(span => span.name === 'iteration')!;
+      const child = spans.find(span => span.name === 'innerWork')!;
+      expect(child.parentSpanId).toBe(parent.spanContext().spanId);
+    });
+
+    test('should end async spans when the promise settles', async () => {
+      const result = await traceroot.withSpan('async-work', async span => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        span.setAttribute('waited', true);
+        return 42;
+      });
+
+      expect(result).toBe(42);
+      const [finished] = exporter.getFinishedSpans();
+      expect(finished.attributes.waited).toBe(true);
+    });
+
+    test('should mark the span as failed when the callback throws', async () => {
+      expect(() =>
+        traceroot.withSpan('sync-failure', () => {
+          throw new Error('sync boom');
+        })
+      ).toThrow('sync boom');
+
+      await expect(
+        traceroot.withSpan('async-failure', async () => {
+          throw new Error('async boom');
+        })
+      ).rejects.toThrow('async boom');
+
+      const statuses = exporter.getFinishedSpans().map(span => span.status);
+      expect(statuses).toEqual([
+        { code: SpanStatusCode.ERROR, message: 'sync boom' },
+        { code: SpanStatusCode.ERROR, message: 'async boom' },
+      ]);
+    });
+
+    test('should keep the status set by the callback', async () => {
+      traceroot.withSpan('handled-failure', span => {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: 'partial failure' });
+        return 'fallback';
+      });
+      await traceroot.withSpan('async-handled-failure', async span => {
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      });
+
+      const statuses = exporter.getFinishedSpans().map(span => span.status);
+      expect(statuses).toEqual([
+        { code: SpanStatusCode.ERROR, message: 'partial failure' },
+        { code: SpanStatusCode.ERROR },
+      ]);
+    });
+
+    test('should attach pending log events when the span ends', () => {
+      traceroot.withSpan('logging-work', () => {
+        traceroot.getLogger().info('inside manual span');
+      });
+
+      const [finished] = exporter.getFinishedSpans();
+      expect(finished.events.map(event => event.name)).toContain('log.info');
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for parameter name extraction used by traceParams
+ * Tests destructuring, defaults, rest parameters, arrow functions and explicit names
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { jest } from '@jest/globals';
+import { trace as otelTrace } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import * as traceroot from '../../src/index';
+import { _initializeTracing } from '../../src/tracer';
+import { extractParams, paramsToDict } from '../../src/utils/params';
+import { TraceRootConfig } from '../../src/config';
+
+// Mock the credential fetching function
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+const toDict = (fn: Function, args: any[], paramNames?: string[]) =>
+  paramsToDict(extractParams(fn, paramNames), args, () => true);
+
+describe('Parameter Extraction', () => {
+  test('should handle default values containing parentheses and commas', () => {
+    function withDefaults(a = Math.max(1, 2), b = 'x,y', c = () => (a ? 1 : 2)) {
+      return [a, b, c];
+    }
+
+    expect(toDict(withDefaults, [1, 2, 3])).toEqual({
+      'params.a': 1,
+      'params.b': 2,
+      'params.c': 3,
+    });
+  });
+
+  test('should handle arrow functions without parentheses', () => {
+    const single = (value: number) => value;
+    const source = 'async value => value * 2';
+    const parsed = new Function(`return ${source}`)();
+
+    expect(toDict(single, [5])).toEqual({ 'params.value': 5 });
+    expect(toDict(parsed, [7])).toEqual({ 'params.value': 7 });
+  });
+
+  test('should collect remaining arguments for rest parameters', () => {
+    function withRest(first: string, ...others: number[]) {
+      return [first, others];
+    }
+
+    expect(toDict(withRest, ['a', 1, 2])).toEqual({ 'params.first': 'a', 'params.others': [1, 2] });
+  });
+
+  test('should nest destructured parameters under their position', () => {
+    function handle(
+      { userId, options: { retries } = { retries: 1 }, ...extra }: any,
+      [first, , third]: number[]
+    ) {
+      return [userId, retries, extra, first, third];
+    }
+
+    const dict = toDict(handle, [
+      { userId: 'u-1', options: { retries: 3 }, region: 'eu' },
+      [1, 2, 3],
+    ]);
+    expect(dict).toEqual({
+      'params.arg0': { userId: 'u-1', options: { retries: 3 }, extra: { region: 'eu' } },
+      'params.arg1': { first: 1, third: 3 },
+    });
+  });
+
+  test('should filter destructured parameters by position or bound name', () => {
+    function handle({ userId, token }: any, [first]: number[]) {
+      return [userId, token, first];
+    }
+    const params = extractParams(handle);
+    const args = [{ userId: 'u-1', token: 'secret' }, [1]];
+
+    expect(paramsToDict(params, args, name => ['userId', 'arg1'].includes(name))).toEqual({
+      'params.arg0': { userId: 'u-1' },
+      'params.arg1': { first: 1 },
+    });
+  });
+
+  test('should ignore comments and class method syntax', () => {
+    class Service {
+      /* (not, params) */ process(
+        /* input, */ input: string, // (trailing)
+        count: number
+      ) {
+        return [input, count];
+      }
+      [Symbol.iterator](step = 1) {
+        return step;
+      }
+    }
+
+    expect(toDict(Service.prototype.process, ['in', 2])).toEqual({
+      'params.input': 'in',
+      'params.count': 2,
+    });
+    expect(toDict((Service.prototype as any)[Symbol.iterator], [4])).toEqual({ 'params.step': 4 });
+  });
+
+  test('should use explicit parameter names for minified functions', () => {
+    const minified = new Function('a', 'b', 'return a + b');
+
+    expect(toDict(minified, ['x', 'y'], ['left', '...rest'])).toEqual({
+      'params.left': 'x',
+      'params.rest': ['y'],
+    });
+  });
+});
+
+describe('traceParams with parameter extraction', () => {
+  const testConfig: Partial<TraceRootConfig> = {
+    service_name: 'params-service',
+    github_owner: 'test-owner',
+    github_repo_name: 'test-repo',
+    github_commit_hash: 'test-commit',
+    environment: 'test',
+    local_mode: true,
+    enable_span_console_export: true,
+    enable_log_console_export: false,
+  };
+
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'dir').mockImplementation(() => {});
+    traceroot.init(testConfig);
+    exporter = new InMemorySpanExporter();
+    _initializeTracing().addSpanProcessor(new SimpleSpanProcessor(exporter));
+  });
+
+  afterEach(async () => {
+    await traceroot.shutdownTracer();
+    await traceroot.shutdownLogger();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+  });
+
+  test('should record destructured parameters as nested attributes', () => {
+    const createUser = traceroot.traceFunction(
+      function createUser({ name, address }: { name: string; address: { city: string } }) {
+        return name + address.city;
+      },
+      { traceParams: ['name', 'address'] }
+    );
+
+    createUser({ name: 'Ada', address: { city: 'London' } });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.attributes).toMatchObject({
+      'params.arg0_name': 'Ada',
+      'params.arg0_address_city': 'London',
+    });
+  });
+
+  test('should use paramNames when given', () => {
+    const add = traceroot.traceFunction(new Function('a', 'b', 'return a + b') as any, {
+      spanName: 'add',
+      traceParams: true,
+      paramNames: ['left', 'right'],
+    });
+
+    add(1, 2);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.attributes).toMatchObject({ 'params.left': 1, 'params.right': 2 });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for incoming trace context extraction
+ * Tests parsing of W3C, custom and AWS X-Ray headers and parenting of traced functions
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { jest } from '@jest/globals';
+import { trace as otelTrace, TraceFlags } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import * as traceroot from '../../src/index';
+import { _initializeTracing } from '../../src/tracer';
+import { extractSpanContext } from '../../src/propagation';
+import { TraceRootConfig } from '../../src/config';
+
+// Mock the credential fetching function
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+const TRACE_ID = '0af7651916cd43dd8448eb211c80319c';
+const SPAN_ID = 'b7ad6b7169203331';
+
+describe('Trace Context Extraction', () => {
+  jest.setTimeout(10000);
+
+  describe('extractSpanContext', () => {
+    test('should parse W3C traceparent and tracestate headers', () => {
+      const spanContext = extractSpanContext({
+        traceparent: `00-${TRACE_ID}-${SPAN_ID}-01`,
+        tracestate: 'vendor=value',
+      });
+
+      expect(spanContext).toMatchObject({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceFlags: TraceFlags.SAMPLED,
+        isRemote: true,
+      });
+      expect(spanContext!.traceState!.get('vendor')).toBe('value');
+    });
+
+    test('should reject malformed or invalid traceparent headers', () => {
+      expect(extractSpanContext({ traceparent: 'garbage' })).toBeNull();
+      expect(extractSpanContext({ traceparent: `ff-${TRACE_ID}-${SPAN_ID}-01` })).toBeNull();
+      expect(extractSpanContext({ traceparent: `00-${'0'.repeat(32)}-${SPAN_ID}-01` })).toBeNull();
+    });
+
+    test('should parse custom x-trace-id / x-span-id headers case-insensitively', () => {
+      const spanContext = extractSpanContext({ 'X-Trace-Id': TRACE_ID, 'X-Span-Id': SPAN_ID });
+      expect(spanContext).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID, isRemote: true });
+    });
+
+    test('should parse AWS X-Ray headers with a Parent field', () => {
+      const spanContext = extractSpanContext({
+        'x-amzn-trace-id': `Root=1-${TRACE_ID.substring(0, 8)}-${TRACE_ID.substring(8)};Parent=${SPAN_ID};Sampled=0`,
+      });
+
+      expect(spanContext).toMatchObject({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceFlags: TraceFlags.NONE,
+      });
+    });
+
+    test('should not build a context from an X-Ray header without a parent span ID', () => {
+      const spanContext = extractSpanContext({
+        'x-amzn-trace-id': `Root=1-${TRACE_ID.substring(0, 8)}-${TRACE_ID.substring(8)}`,
+      });
+      expect(spanContext).toBeNull();
+    });
+
+    test('should prefer traceparent over the other formats', () => {
+      const spanContext = extractSpanContext({
+        traceparent: `00-${TRACE_ID}-${SPAN_ID}-01`,
+        'x-trace-id': 'a'.repeat(32),
+        'x-span-id': 'b'.repeat(16),
+      });
+      expect(spanContext!.traceId).toBe(TRACE_ID);
+    });
+
+    test('should support fetch-style Headers and multi-value headers', () => {
+      const headers = new Map([['traceparent', `00-${TRACE_ID}-${SPAN_ID}-01`]]);
+      expect(extractSpanContext(headers as any)!.spanId).toBe(SPAN_ID);
+      expect(extractSpanContext({ traceparent: [`00-${TRACE_ID}-${SPAN_ID}-01`] })!.traceId).toBe(
+        TRACE_ID
+      );
+    });
+  });
+
+  describe('runWithTraceContext', () => {
+    const testConfig: Partial<TraceRootConfig> = {
+      service_name: 'receiving-service',
+      github_owner: 'test-owner',
+      github_repo_name: 'test-repo',
+      github_commit_hash: 'test-commit',
+      environment: 'test',
+      local_mode: true,
+      enable_span_console_export: true,
+      enable_log_console_export: false,
+    };
+
+    let exporter: InMemorySpanExporter;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'dir').mockImplementation(() => {});
+      traceroot.init(testConfig);
+      exporter = new InMemorySpanExporter();
+      _initializeTracing().addSpanProcessor(new SimpleSpanProcessor(exporter));
+    });
+
+    afterEach(async () => {
+      await traceroot.shutdownTracer();
+      await traceroot.shutdownLogger();
+      otelTrace.disable();
+      jest.restoreAllMocks();
+    });
+
+    test('should make traced functions children of the remote parent', () => {
+      const handler = traceroot.traceFunction(function handleRequest() {
+        return traceroot.getActiveSpanInfo().traceId;
+      });
+
+      const traceId = traceroot.runWithTraceContext(
+        { traceparent: `00-${TRACE_ID}-${SPAN_ID}-01` },
+        () => handler()
+      );
+
+      expect(traceId).toBe(TRACE_ID);
+      const [finished] = exporter.getFinishedSpans();
+      expect(finished.parentSpanId).toBe(SPAN_ID);
+    });
+
+    test('should round-trip headers produced by getTraceHeaders', () => {
+      let outgoing: Record<string, string> = {};
+      traceroot.withSpan('caller', () => {
+        outgoing = traceroot.getTraceHeaders();
+      });
+
+      const context = traceroot.extractTraceContext(outgoing);
+      const remote = otelTrace.getSpanContext(context)!;
+      expect(remote.traceId).toBe(outgoing['x-trace-id']);
+      expect(remote.spanId).toBe(outgoing['x-span-id']);
+    });
+
+    test('should start a new trace when no trace headers are present', () => {
+      const handler = traceroot.traceFunction(function handleRequest() {
+        return 'ok';
+      });
+
+      traceroot.runWithTraceContext({ 'content-type': 'application/json' }, () => handler());
+
+      const [finished] = exporter.getFinishedSpans();
+      expect(finished.parentSpanId).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for configurable head-based trace sampling
+ * Tests sampler construction from config, environment loading and the effect on traced functions
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { jest } from '@jest/globals';
+import { ROOT_CONTEXT, SpanKind, trace as otelTrace } from '@opentelemetry/api';
+import { SamplingDecision } from '@opentelemetry/sdk-trace-base';
+import * as traceroot from '../../src/index';
+import { TraceRootConfig } from '../../src/config';
+import { createSampler, RateLimitingSampler, RuleBasedSampler } from '../../src/sampling/samplers';
+import { loadConfigFromEnv } from '../../src/utils/configLoader';
+
+// Mock the credential fetching function
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+const TRACE_ID = '12345678901234567890123456789012';
+
+const sample = (sampler: any, spanName: string = 'span', attributes: Record<string, any> = {}) =>
+  sampler.shouldSample(ROOT_CONTEXT, TRACE_ID, spanName, SpanKind.INTERNAL, attributes, [])
+    .decision;
+
+describe('Trace Sampling', () => {
+  jest.setTimeout(10000);
+
+  describe('createSampler', () => {
+    test('should return undefined when sampling is not configured', () => {
+      expect(createSampler(undefined)).toBeUndefined();
+    });
+
+    test('should create always_on and always_off samplers', () => {
+      expect(sample(createSampler({ type: 'always_on' }))).toBe(
+        SamplingDecision.RECORD_AND_SAMPLED
+      );
+      expect(sample(createSampler({ type: 'always_off' }))).toBe(SamplingDecision.NOT_RECORD);
+    });
+
+    test('should clamp ratio sampling into [0, 1]', () => {
+      expect(sample(createSampler({ type: 'ratio', ratio: 5 }))).toBe(
+        SamplingDecision.RECORD_AND_SAMPLED
+      );
+      expect(sample(createSampler({ type: 'ratio', ratio: -1 }))).toBe(SamplingDecision.NOT_RECORD);
+    });
+
+    test('should use the configured root sampler for parent_based sampling', () => {
+      const sampler = createSampler({ type: 'parent_based', root: { type: 'always_off' } });
+      expect(sampler!.toString()).toContain('ParentBased');
+      expect(sample(sampler)).toBe(SamplingDecision.NOT_RECORD);
+    });
+
+    test('should warn and keep the default sampler for an unknown sampling type', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(createSampler({ type: 'bogus' as any })).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[TraceRoot] Unknown sampling type: bogus, using the default sampler'
+      );
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('RateLimitingSampler', () => {
+    test('should allow at most the configured number of traces per second', () => {
+      const sampler = new RateLimitingSampler(2);
+      expect(sample(sampler)).toBe(SamplingDecision.RECORD_AND_SAMPLED);
+      expect(sample(sampler)).toBe(SamplingDecision.RECORD_AND_SAMPLED);
+      expect(sample(sampler)).toBe(SamplingDecision.NOT_RECORD);
+    });
+
+    test('should refill tokens over time', () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const sampler = new RateLimitingSampler(1);
+      expect(sample(sampler)).toBe(SamplingDecision.RECORD_AND_SAMPLED);
+      expect(sample(sampler)).toBe(SamplingDecision.NOT_RECORD);
+
+      nowSpy.mockReturnValue(1_001_000);
+      expect(sample(sampler)).toBe(SamplingDecision.RECORD_AND_SAMPLED);
+      nowSpy.mockRestore();
+    });
+  });
+
+  describe('RuleBasedSampler', () => {
+    const sampler = new RuleBasedSampler(
+      [
+        { span_name: 'health*', ratio: 0 },
+        { span_name: /^checkout\./, ratio: 1 },
+        { attributes: { tier: 'free' }, ratio: 0 },
+      ],
+      1
+    );
+
+    test('should match span names with wildcards and regular expressions', () => {
+      expect(sample(sampler, 'healthCheck')).toBe(SamplingDecision.NOT_RECORD);
+      expect(sample(sampler, 'checkout.pay')).toBe(SamplingDecision.RECORD_AND_SAMPLED);
+    });
+
+    test('should match span start attributes', () => {
+      expect(sample(sampler, 'search', { tier: 'free' })).toBe(SamplingDecision.NOT_RECORD);
+      expect(sample(sampler, 'search', { tier: 'paid' })).toBe(SamplingDecision.RECORD_AND_SAMPLED);
+    });
+  });
+
+  describe('Sampling with traced functions', () => {
+    const createTestConfig = (overrides: Partial<TraceRootConfig> = {}) => ({
+      service_name: 'test-service',
+      github_owner: 'test-owner',
+      github_repo_name: 'test-repo',
+      github_commit_hash: 'test-commit',
+      environment: 'test',
+      local_mode: true,
+      enable_span_console_export: true,
+      enable_log_console_export: false,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      jest.spyOn(console, 'dir').mockImplementation(() => {});
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+      await traceroot.shutdownTracer();
+      await traceroot.shutdownLogger();
+      otelTrace.disable();
+      jest.restoreAllMocks();
+    });
+
+    test('should not record spans dropped by the sampler', () => {
+      traceroot.init(createTestConfig({ sampling: { type: 'always_off' } }));
+
+      const traced = traceroot.traceFunction(
+        function sampledOut(value: string) {
+          traceroot.getLogger().info('inside unsampled span');
+          return traceroot.isRecording() ? 'recording' : value;
+        },
+        { traceParams: true }
+      );
+
+      expect(traced('not-recording')).toBe('not-recording');
+    });
+
+    test('should record spans kept by the sampler', () => {
+      traceroot.init(createTestConfig({ sampling: { type: 'ratio', ratio: 1 } }));
+
+      const traced = traceroot.traceFunction(function sampledIn() {
+        return traceroot.isRecording();
+      });
+
+      expect(traced()).toBe(true);
+    });
+
+    test('should initialize with the default sampler when the sampling type is unknown', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      traceroot.init(createTestConfig({ sampling: { type: 'ratio_based' as any } }));
+
+      const traced = traceroot.traceFunction(function sampledIn() {
+        return traceroot.isRecording();
+      });
+
+      expect(traced()).toBe(true);
+    });
+  });
+
+  describe('Sampling from environment variables', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    test('should load sampling config from TRACEROOT_SAMPLING_* variables', () => {
+      process.env.TRACEROOT_SAMPLING_TYPE = 'RULE_BASED';
+      process.env.TRACEROOT_SAMPLING_RATIO = '0.25';
+      process.env.TRACEROOT_SAMPLING_RULES = '[{"span_name":"health*","ratio":0}]';
+
+      const config = loadConfigFromEnv();
+      expect(config.sampling).toEqual({
+        type: 'rule_based',
+        ratio: 0.25,
+        rules: [{ span_name: 'health*', ratio: 0 }],
+      });
+    });
+
+    test('should leave sampling unset when TRACEROOT_SAMPLING_TYPE is missing', () => {
+      delete process.env.TRACEROOT_SAMPLING_TYPE;
+      expect(loadConfigFromEnv().sampling).toBeUndefined();
+    });
+  });
+});
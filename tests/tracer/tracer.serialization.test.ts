@@ -0,0 +1,170 @@
+/**
+ * Tests for span attribute serialization
+ * Tests typed values, JSON limits, truncation markers and configuration precedence
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { jest } from '@jest/globals';
+import { trace as otelTrace } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import * as traceroot from '../../src/index';
+import { _initializeTracing } from '../../src/tracer';
+import { toAttributeValue } from '../../src/utils/serialization';
+import { TraceRootConfig } from '../../src/config';
+
+// Mock the credential fetching function
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('Attribute Serialization', () => {
+  describe('toAttributeValue', () => {
+    test('should keep primitives and homogeneous primitive arrays', () => {
+      expect(toAttributeValue(42).value).toBe(42);
+      expect(toAttributeValue(false).value).toBe(false);
+      expect(toAttributeValue(['a', null, 'b']).value).toEqual(['a', null, 'b']);
+      expect(toAttributeValue([1, 2, 3]).value).toEqual([1, 2, 3]);
+    });
+
+    test('should serialize mixed arrays and objects as JSON', () => {
+      expect(toAttributeValue([1, 'a']).value).toBe('[1,"a"]');
+      expect(toAttributeValue({ a: { b: 1 }, skip: undefined }).value).toBe('{"a":{"b":1}}');
+    });
+
+    test('should serialize dates, buffers, maps, sets, errors and bigints', () => {
+      const date = new Date('2024-01-02T03:04:05.000Z');
+      expect(toAttributeValue(date).value).toBe('2024-01-02T03:04:05.000Z');
+      expect(toAttributeValue(Buffer.from('hello')).value).toBe('aGVsbG8=');
+      expect(toAttributeValue(BigInt(10)).value).toBe('10');
+      expect(
+        toAttributeValue({ when: date, map: new Map([['k', 1]]), set: new Set([1, 2]) }).value
+      ).toBe('{"when":"2024-01-02T03:04:05.000Z","map":{"k":1},"set":[1,2]}');
+      expect(JSON.parse(toAttributeValue(new Error('boom')).value as string)).toEqual({
+        name: 'Error',
+        message: 'boom',
+      });
+    });
+
+    test('should replace cycles and enforce depth and key limits', () => {
+      const cyclic: any = { name: 'node' };
+      cyclic.self = cyclic;
+      expect(toAttributeValue(cyclic).value).toBe('{"name":"node","self":"[Circular]"}');
+
+      const deep = { a: { b: { c: { d: 1 } } } };
+      expect(toAttributeValue(deep, { max_depth: 2 }).value).toBe('{"a":{"b":"[Object]"}}');
+
+      const wide = { a: 1, b: 2, c: 3 };
+      expect(toAttributeValue(wide, { max_keys: 2 }).value).toBe(
+        '{"a":1,"b":2,"...":"[1 more keys]"}'
+      );
+      expect(toAttributeValue([1, 2, 3], { max_keys: 2 })).toEqual({
+        value: [1, 2],
+        truncated: true,
+      });
+    });
+
+    test('should truncate long strings and buffers', () => {
+      expect(toAttributeValue('abcdef', { max_string_length: 3 })).toEqual({
+        value: 'abc',
+        truncated: true,
+      });
+      expect(toAttributeValue(Buffer.alloc(30), { max_string_length: 8 })).toEqual({
+        value: 'AAAAAAAA',
+        truncated: true,
+      });
+    });
+  });
+
+  describe('span attributes', () => {
+    const testConfig: Partial<TraceRootConfig> = {
+      service_name: 'serialization-service',
+      github_owner: 'test-owner',
+      github_repo_name: 'test-repo',
+      github_commit_hash: 'test-commit',
+      environment: 'test',
+      local_mode: true,
+      enable_span_console_export: true,
+      enable_log_console_export: false,
+      serialization: { max_string_length: 10 },
+    };
+
+    let exporter: InMemorySpanExporter;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'dir').mockImplementation(() => {});
+      traceroot.init(testConfig);
+      exporter = new InMemorySpanExporter();
+      _initializeTracing().addSpanProcessor(new SimpleSpanProcessor(exporter));
+    });
+
+    afterEach(async () => {
+      await traceroot.shutdownTracer();
+      await traceroot.shutdownLogger();
+      otelTrace.disable();
+      jest.restoreAllMocks();
+    });
+
+    test('should record typed parameters and flag truncated values', () => {
+      const process = traceroot.traceFunction(
+        function process(count: number, tags: string[], payload: string) {
+          return { count, tags, payload };
+        },
+        { traceParams: true }
+      );
+
+      process(3, ['a', 'b'], 'x'.repeat(50));
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span.attributes).toMatchObject({
+        'params.count': 3,
+        'params.tags': ['a', 'b'],
+        'params.payload': 'x'.repeat(10),
+        'params.payload.truncated': true,
+      });
+    });
+
+    test('should let trace options override the configured policy', () => {
+      const process = traceroot.traceFunction(
+        function process(payload: string) {
+          return payload;
+        },
+        { traceParams: true, serialization: { max_string_length: 20 } }
+      );
+
+      process('x'.repeat(50));
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span.attributes['params.payload']).toBe('x'.repeat(20));
+    });
+
+    test('should not flatten dates and buffers into their internals', () => {
+      const save = traceroot.traceFunction(
+        function save(record: { createdAt: Date; data: Buffer }) {
+          return record;
+        },
+        { traceParams: true }
+      );
+
+      save({ createdAt: new Date('2024-01-02T00:00:00.000Z'), data: Buffer.from('hi') });
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span.attributes['params.record_createdAt']).toBe('2024-01-02T00:00:00.000Z');
+      expect(span.attributes['params.record_data']).toBe('aGk=');
+    });
+
+    test('should apply the policy to log metadata span attributes', () => {
+      traceroot.withSpan('logging', () => {
+        traceroot.getLogger().info({ note: 'y'.repeat(30), attempt: 2 }, 'message');
+      });
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span.attributes).toMatchObject({
+        'log.metadata.note': 'y'.repeat(10),
+        'log.metadata.note.truncated': true,
+        'log.metadata.attempt': 2,
+      });
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Tests for tracing functions that return generators and streams
+ * Tests that spans stay open until the result is consumed and record stream attributes
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { jest } from '@jest/globals';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import { SpanStatusCode, trace as otelTrace } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import * as traceroot from '../../src/index';
+import { _initializeTracing } from '../../src/tracer';
+import { TraceRootConfig } from '../../src/config';
+
+// Mock the credential fetching function
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('Streaming Results', () => {
+  jest.setTimeout(10000);
+
+  const testConfig: Partial<TraceRootConfig> = {
+    service_name: 'streaming-service',
+    github_owner: 'test-owner',
+    github_repo_name: 'test-repo',
+    github_commit_hash: 'test-commit',
+    environment: 'test',
+    local_mode: true,
+    enable_span_console_export: true,
+    enable_log_console_export: false,
+  };
+
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'dir').mockImplementation(() => {});
+    traceroot.init(testConfig);
+    exporter = new InMemorySpanExporter();
+    _initializeTracing().addSpanProcessor(new SimpleSpanProcessor(exporter));
+  });
+
+  afterEach(async () => {
+    await traceroot.shutdownTracer();
+    await traceroot.shutdownLogger();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+  });
+
+  const findSpan = (name: string) => exporter.getFinishedSpans().find(span => span.name === name);
+
+  test('should keep the span open until an async generator is exhausted', async () => {
+    const streamTokens = traceroot.traceFunction(async function* streamTokens() {
+      yield 'Hello';
+      await new Promise(resolve => setTimeout(resolve, 5));
+      yield 'world';
+    });
+
+    const iterator = streamTokens();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+    const tokens: string[] = [];
+    for await (const token of iterator) {
+      tokens.push(token);
+      expect(exporter.getFinishedSpans()).toHaveLength(0);
+    }
+
+    expect(tokens).toEqual(['Hello', 'world']);
+    const span = findSpan('streamTokens')!;
+    expect(span.status.code).toBe(SpanStatusCode.OK);
+    expect(span.attributes['stream.item_count']).toBe(2);
+    expect(span.attributes['stream.time_to_first_item_ms']).toEqual(expect.any(Number));
+  });
+
+  test('should parent spans created while producing items', async () => {
+    const fetchChunk = traceroot.traceFunction(async function fetchChunk() {
+      return 'chunk';
+    });
+    const streamChunks = traceroot.traceFunction(async function* streamChunks() {
+      yield await fetchChunk();
+    });
+
+    for await (const chunk of streamChunks()) {
+      expect(chunk).toBe('chunk');
+    }
+
+    const parent = findSpan('streamChunks')!;
+    const child = findSpan('fetchChunk')!;
+    expect(child.parentSpanId).toBe(parent.spanContext().spanId);
+  });
+
+  test('should trace sync generators and end the span when the consumer breaks', () => {
+    const numbers = traceroot.traceFunction(function* numbers() {
+      let value = 0;
+      while (true) {
+        yield value++;
+      }
+    });
+
+    for (const value of numbers()) {
+      if (value === 2) {
+        break;
+      }
+    }
+
+    const span = findSpan('numbers')!;
+    expect(span.status.code).toBe(SpanStatusCode.OK);
+    expect(span.attributes['stream.item_count']).toBe(3);
+  });
+
+  test('should mark the span as failed when a generator throws', async () => {
+    const failing = traceroot.traceFunction(async function* failing() {
+      yield 1;
+      throw new Error('stream broke');
+    });
+
+    const consume = async () => {
+      const values: number[] = [];
+      for await (const value of failing()) {
+        values.push(value);
+      }
+      return values;
+    };
+    await expect(consume()).rejects.toThrow('stream broke');
+
+    const span = findSpan('failing')!;
+    expect(span.status).toEqual({ code: SpanStatusCode.ERROR, message: 'stream broke' });
+    expect(span.attributes['stream.item_count']).toBe(1);
+  });
+
+  test('should trace Node Readable streams returned by async functions', async () => {
+    const openStream = traceroot.traceFunction(async function openStream() {
+      return Readable.from(['a', 'b', 'c']);
+    });
+
+    const stream = await openStream();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['a', 'b', 'c']);
+    const span = findSpan('openStream')!;
+    expect(span.status.code).toBe(SpanStatusCode.OK);
+    expect(span.attributes['stream.item_count']).toBe(3);
+  });
+
+  test('should mark the span as failed when a Node stream errors', async () => {
+    const openStream = traceroot.traceFunction(function openStream() {
+      return new Readable({ read() {} });
+    });
+
+    const stream = openStream();
+    const errored = new Promise(resolve => stream.on('error', resolve));
+    stream.destroy(new Error('socket closed'));
+    await errored;
+
+    const span = findSpan('openStream')!;
+    expect(span.status).toEqual({ code: SpanStatusCode.ERROR, message: 'socket closed' });
+  });
+
+  test('should trace web ReadableStreams', async () => {
+    const openStream = traceroot.traceFunction(function openStream() {
+      return new ReadableStream({
+        start(controller) {
+          controller.enqueue('x');
+          controller.enqueue('y');
+          controller.close();
+        },
+      });
+    });
+
+    const stream = openStream();
+    expect(stream).toBeInstanceOf(ReadableStream);
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+    const reader = stream.getReader();
+    const chunks: string[] = [];
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      chunks.push(result.value);
+    }
+
+    expect(chunks).toEqual(['x', 'y']);
+    expect(findSpan('openStream')!.attributes['stream.item_count']).toBe(2);
+  });
+
+  test('should keep the span open for decorated generator methods', async () => {
+    class ChatService {
+      @traceroot.trace()
+      async *complete(prompt: string) {
+        yield `${prompt}!`;
+      }
+    }
+
+    const results: string[] = [];
+    for await (const token of new ChatService().complete('hi')) {
+      results.push(token);
+    }
+
+    expect(results).toEqual(['hi!']);
+    expect(findSpan('complete')!.attributes['stream.item_count']).toBe(1);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for the tail-based sampling span processor
+ * Tests that error, slow and matching traces are kept while healthy traces are dropped
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { jest } from '@jest/globals';
+import { context, SpanStatusCode, trace as otelTrace } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { TailSamplingSpanProcessor } from '../../src/sampling/tailSampling';
+import { TailSamplingConfig } from '../../src/config';
+
+describe('Tail Sampling Span Processor', () => {
+  let exporter: InMemorySpanExporter;
+  let processor: TailSamplingSpanProcessor;
+  let provider: BasicTracerProvider;
+
+  const setup = (config: TailSamplingConfig = {}) => {
+    exporter = new InMemorySpanExporter();
+    processor = new TailSamplingSpanProcessor([new SimpleSpanProcessor(exporter)], config);
+    provider = new BasicTracerProvider();
+    provider.addSpanProcessor(processor);
+    return provider.getTracer('tail-sampling-test');
+  };
+
+  // Run a root span with one child, letting the callback customize both
+  const runTrace = (
+    tracer: ReturnType<typeof setup>,
+    customize: (root: any, child: any) => void = () => {}
+  ) => {
+    const root = tracer.startSpan('root');
+    const child = tracer.startSpan('child', {}, otelTrace.setSpan(context.active(), root));
+    customize(root, child);
+    child.end();
+    root.end();
+  };
+
+  afterEach(async () => {
+    await provider.shutdown();
+    jest.useRealTimers();
+  });
+
+  test('should drop healthy traces by default', () => {
+    const tracer = setup();
+    runTrace(tracer);
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  test('should keep the whole trace when any span has ERROR status', () => {
+    const tracer = setup();
+    runTrace(tracer, (_root, child) => child.setStatus({ code: SpanStatusCode.ERROR }));
+
+    const names = exporter.getFinishedSpans().map(span => span.name);
+    expect(names).toEqual(['child', 'root']);
+  });
+
+  test('should not keep error traces when keep_errors is false', () => {
+    const tracer = setup({ keep_errors: false });
+    runTrace(tracer, root => root.setStatus({ code: SpanStatusCode.ERROR }));
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  test('should keep traces over the latency threshold', () => {
+    const tracer = setup({ latency_threshold_ms: 500 });
+    const root = tracer.startSpan('slow-root', { startTime: 1_000 });
+    root.end(2_000);
+
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+  });
+
+  test('should keep traces with error log counters set by the logger', () => {
+    const tracer = setup();
+    runTrace(tracer, (_root, child) => child.setAttribute('num_error_logs', 1));
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+  });
+
+  test('should keep traces with error log events attached in local mode', () => {
+    const tracer = setup();
+    runTrace(tracer, (_root, child) => child.addEvent('log.error', { 'log.message': 'boom' }));
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+  });
+
+  test('should keep traces matching an attribute rule', () => {
+    const tracer = setup({ attribute_rules: [{ customer_tier: 'enterprise' }] });
+    runTrace(tracer, root => root.setAttribute('customer_tier', 'enterprise'));
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+  });
+
+  test('should keep healthy traces according to sample_ratio', () => {
+    const tracer = setup({ sample_ratio: 1 });
+    runTrace(tracer);
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+  });
+
+  test('should forward late spans of a kept trace', () => {
+    const tracer = setup();
+    const root = tracer.startSpan('root');
+    const late = tracer.startSpan('late', {}, otelTrace.setSpan(context.active(), root));
+    root.setStatus({ code: SpanStatusCode.ERROR });
+    root.end();
+    late.end();
+
+    expect(exporter.getFinishedSpans().map(span => span.name)).toEqual(['root', 'late']);
+  });
+
+  test('should decide traces whose root never ends after decision_wait_ms', () => {
+    jest.useFakeTimers();
+    const tracer = setup({ decision_wait_ms: 1000 });
+    const root = tracer.startSpan('root');
+    const child = tracer.startSpan('child', {}, otelTrace.setSpan(context.active(), root));
+    child.setStatus({ code: SpanStatusCode.ERROR });
+    child.end();
+
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+    jest.advanceTimersByTime(1000);
+    expect(exporter.getFinishedSpans().map(span => span.name)).toEqual(['child']);
+  });
+
+  test('should decide the oldest trace early when max_traces is reached', () => {
+    const tracer = setup({ max_traces: 1 });
+    const first = tracer.startSpan('first');
+    const firstChild = tracer.startSpan(
+      'first-child',
+      {},
+      otelTrace.setSpan(context.active(), first)
+    );
+    firstChild.setStatus({ code: SpanStatusCode.ERROR });
+    firstChild.end();
+
+    // Starting a second trace evicts the first one
+    tracer.startSpan('second');
+    expect(exporter.getFinishedSpans().map(span => span.name)).toEqual(['first-child']);
+  });
+
+  test('should decide when max_spans_per_trace is reached', () => {
+    const tracer = setup({ max_spans_per_trace: 2, sample_ratio: 1 });
+    const root = tracer.startSpan('root');
+    const parentContext = otelTrace.setSpan(context.active(), root);
+    tracer.startSpan('a', {}, parentContext).end();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+    tracer.startSpan('b', {}, parentContext).end();
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+  });
+
+  test('should decide buffered traces on shutdown', async () => {
+    const delegate = {
+      onStart: jest.fn(),
+      onEnd: jest.fn(),
+      forceFlush: jest.fn(async () => {}),
+      shutdown: jest.fn(async () => {}),
+    };
+    const shutdownProcessor = new TailSamplingSpanProcessor([delegate]);
+    provider = new BasicTracerProvider();
+    provider.addSpanProcessor(shutdownProcessor);
+    const tracer = provider.getTracer('tail-sampling-test');
+
+    const root = tracer.startSpan('root');
+    const child = tracer.startSpan('child', {}, otelTrace.setSpan(context.active(), root));
+    child.setStatus({ code: SpanStatusCode.ERROR });
+    child.end();
+    expect(delegate.onEnd).not.toHaveBeenCalled();
+
+    await shutdownProcessor.shutdown();
+    expect(delegate.onEnd).toHaveBeenCalledTimes(1);
+    expect(delegate.shutdown).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for the @traceClass class decorator
+ * Tests method selection rules, per-method overrides and span naming
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { jest } from '@jest/globals';
+import { trace as otelTrace } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import * as traceroot from '../../src/index';
+import { _initializeTracing } from '../../src/tracer';
+import { TraceRootConfig } from '../../src/config';
+
+// Mock the credential fetching function
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('traceClass Decorator', () => {
+  jest.setTimeout(10000);
+
+  const testConfig: Partial<TraceRootConfig> = {
+    service_name: 'trace-class-service',
+    github_owner: 'test-owner',
+    github_repo_name: 'test-repo',
+    github_commit_hash: 'test-commit',
+    environment: 'test',
+    local_mode: true,
+    enable_span_console_export: true,
+    enable_log_console_export: false,
+  };
+
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'dir').mockImplementation(() => {});
+    traceroot.init(testConfig);
+    exporter = new InMemorySpanExporter();
+    _initializeTracing().addSpanProcessor(new SimpleSpanProcessor(exporter));
+  });
+
+  afterEach(async () => {
+    await traceroot.shutdownTracer();
+    await traceroot.shutdownLogger();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+  });
+
+  const spanNames = () => exporter.getFinishedSpans().map(span => span.name);
+
+  test('should trace public methods and skip private, getter and static members by default', async () => {
+    @traceroot.traceClass()
+    class OrderService {
+      async placeOrder(id: string) {
+        return this._validate(id);
+      }
+
+      _validate(id: string) {
+        return `order-${id}`;
+      }
+
+      get status() {
+        return 'ready';
+      }
+
+      static create() {
+        return new OrderService();
+      }
+    }
+
+    const service = OrderService.create();
+    expect(await service.placeOrder('1')).toBe('order-1');
+    expect(service.status).toBe('ready');
+
+    expect(spanNames()).toEqual(['OrderService.placeOrder']);
+  });
+
+  test('should apply include and exclude patterns', () => {
+    @traceroot.traceClass({ include: ['get*', /^save$/], exclude: ['getCached*'] })
+    class Repository {
+      getUser() {
+        return 'user';
+      }
+      getCachedUser() {
+        return 'cached';
+      }
+      save() {
+        return true;
+      }
+      remove() {
+        return true;
+      }
+    }
+
+    const repository = new Repository();
+    repository.getUser();
+    repository.getCachedUser();
+    repository.save();
+    repository.remove();
+
+    expect(spanNames()).toEqual(['Repository.getUser', 'Repository.save']);
+  });
+
+  test('should apply class defaults and per-method overrides', () => {
+    @traceroot.traceClass({
+      traceParams: true,
+      methods: {
+        add: { spanName: 'custom_add', traceReturnValue: true },
+        reset: false,
+      },
+    })
+    class Calculator {
+      add(a: number, b: number) {
+        return a + b;
+      }
+      multiply(a: number, b: number) {
+        return a * b;
+      }
+      reset() {
+        return 0;
+      }
+    }
+
+    const calculator = new Calculator();
+    calculator.add(1, 2);
+    calculator.multiply(3, 4);
+    calculator.reset();
+
+    const [add, multiply] = exporter.getFinishedSpans();
+    expect(add.name).toBe('custom_add');
+    expect(add.attributes).toMatchObject({ 'params.a': 1, return: 3 });
+    expect(multiply.name).toBe('Calculator.multiply');
+    expect(multiply.attributes['params.b']).toBe(4);
+    expect(multiply.attributes.return).toBeUndefined();
+    expect(spanNames()).toHaveLength(2);
+  });
+
+  test('should support span name templates, getters, static and private methods', () => {
+    @traceroot.traceClass({
+      spanNameTemplate: '{className}::{methodName}',
+      traceGetters: true,
+      traceStatic: true,
+      tracePrivate: true,
+    })
+    class Config {
+      get value() {
+        return this._load();
+      }
+      _load() {
+        return 'loaded';
+      }
+      static defaults() {
+        return {};
+      }
+    }
+
+    expect(new Config().value).toBe('loaded');
+    Config.defaults();
+
+    expect(spanNames()).toEqual(['Config::_load', 'Config::value', 'Config::defaults']);
+  });
+
+  test('should not double wrap methods decorated with @trace', () => {
+    @traceroot.traceClass()
+    class Worker {
+      @traceroot.trace({ spanName: 'explicit_span' })
+      run() {
+        return 'ran';
+      }
+    }
+
+    expect(new Worker().run()).toBe('ran');
+    expect(spanNames()).toEqual(['explicit_span']);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for runtime reconfiguration with updateConfig()
+ * Tests log levels, console export, sampling and redaction changes on a running tracer and logger
+ */
+
+// Disable auto-initialization for tests to avoid config file interference
+process.env.TRACEROOT_DISABLE_AUTO_INIT = 'true';
+
+import { trace as otelTrace } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import * as traceroot from '../../src/index';
+import { _initializeTracing } from '../../src/tracer';
+import { TraceRootConfig } from '../../src/config';
+
+// Mock the credential fetching function
+jest.mock('../../src/api/credential', () => ({
+  fetchAwsCredentialsSync: jest.fn(),
+}));
+
+describe('updateConfig', () => {
+  const createTestConfig = (overrides: Partial<TraceRootConfig> = {}) => ({
+    service_name: 'test-service',
+    github_owner: 'test-owner',
+    github_repo_name: 'test-repo',
+    github_commit_hash: 'test-commit',
+    environment: 'test',
+    local_mode: true,
+    enable_span_console_export: false,
+    enable_log_console_export: false,
+    log_level: 'info' as const,
+    ...overrides,
+  });
+
+  // Replace the console transport output so tests can see what reaches the console
+  const captureConsole = (logger: traceroot.TraceRootLogger): jest.Mock => {
+    const write = jest.fn();
+    const [transport] = (logger as any).consoleLogger.transports;
+    jest.spyOn(transport, 'log').mockImplementation((info: any, callback: any) => {
+      write(info.message);
+      callback();
+    });
+    return write;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'dir').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await traceroot.shutdownLogger();
+    await traceroot.shutdownTracer();
+    otelTrace.disable();
+    jest.restoreAllMocks();
+  });
+
+  test('should reject before initialization', async () => {
+    await expect(traceroot.updateConfig({ log_level: 'debug' })).rejects.toThrow(
+      'TraceRoot is not initialized'
+    );
+  });
+
+  test('should reject options that cannot change at runtime and invalid values', async () => {
+    traceroot.init(createTestConfig());
+
+    await expect(traceroot.updateConfig({ service_name: 'other' })).rejects.toThrow(
+      'Cannot change service_name at runtime'
+    );
+    await expect(traceroot.updateConfig({ log_level: 'verbose' as any })).rejects.toThrow(
+      /log_level: expected one of/
+    );
+    expect((traceroot.getLogger() as any).config.log_level).toBe('info');
+  });
+
+  test('should change the log level of all loggers, including child loggers', async () => {
+    traceroot.init(createTestConfig({ enable_log_console_export: true }));
+    const logger = traceroot.getLogger('orders');
+    const child = logger.child({ requestId: 'req-1' });
+    const overridden = traceroot.getLogger('payments', 'error');
+    const output = captureConsole(logger);
+
+    await child.debug('before update');
+    await traceroot.updateConfig({ log_level: 'DEBUG' });
+    await child.debug('after update');
+
+    expect(output.mock.calls).toEqual([['after update']]);
+    expect((logger as any).logger.level).toBe('debug');
+    // Loggers with a log level override keep it
+    expect((overridden as any).logger.level).toBe('error');
+  });
+
+  test('should turn console log export on and off', async () => {
+    traceroot.init(createTestConfig());
+    const logger = traceroot.getLogger();
+    const child = logger.child({ module: 'auth' });
+    expect((logger as any).consoleLogger).toBeNull();
+
+    await traceroot.updateConfig({ enable_log_console_export: true });
+    const output = captureConsole(logger);
+    await child.info('console enabled');
+
+    await traceroot.updateConfig({ enable_log_console_export: false });
+    await child.info('console disabled');
+
+    expect(output.mock.calls).toEqual([['console enabled']]);
+    expect((logger as any).consoleLogger).toBeNull();
+    expect((logger as any).logger.level).toBe('silent');
+  });
+
+  test('should rebuild span processors when span console export changes', async () => {
+    traceroot.init(createTestConfig());
+    const traced = traceroot.traceFunction(function exportedSpan() {
+      return 'done';
+    });
+
+    traced();
+    expect(console.dir).not.toHaveBeenCalled();
+
+    await traceroot.updateConfig({ enable_span_console_export: true });
+    traced();
+    expect(console.dir).toHaveBeenCalledTimes(1);
+
+    await traceroot.updateConfig({ enable_span_console_export: false });
+    traced();
+    expect(console.dir).toHaveBeenCalledTimes(1);
+  });
+
+  test('should replace the sampler', async () => {
+    traceroot.init(
+      createTestConfig({ enable_span_console_export: true, sampling: { type: 'always_off' } })
+    );
+    const traced = traceroot.traceFunction(function sampled() {
+      return traceroot.isRecording();
+    });
+
+    expect(traced()).toBe(false);
+
+    await traceroot.updateConfig({ sampling: { type: 'ratio', ratio: 1 } });
+    expect(traced()).toBe(true);
+
+    await traceroot.updateConfig({ sampling: { type: 'always_off' } });
+    expect(traced()).toBe(false);
+
+    // Removing sampling goes back to the default always-on sampler
+    await traceroot.updateConfig({ sampling: undefined });
+    expect(traced()).toBe(true);
+  });
+
+  test('should apply redaction rules to spans and logs', async () => {
+    traceroot.init(createTestConfig({ enable_span_console_export: true }));
+    const exporter = new InMemorySpanExporter();
+    _initializeTracing().addSpanProcessor(new SimpleSpanProcessor(exporter));
+    const login = traceroot.traceFunction(
+      function login(password: string) {
+        traceroot.getLogger('auth', 'debug').info({ password }, 'login attempt');
+        return true;
+      },
+      { traceParams: true }
+    );
+
+    login('hunter2');
+    await traceroot.updateConfig({ redaction: { rules: [{ key: 'password' }] } });
+    login('hunter2');
+
+    const [before, after] = exporter.getFinishedSpans();
+    expect(before.attributes['params.password']).toBe('hunter2');
+    expect(after.attributes['params.password']).toBe('[REDACTED]');
+    const logEvent = after.events.find(event => event.name === 'log.info')!;
+    expect(logEvent.attributes!['log.password']).toBe('[REDACTED]');
+  });
+});
@@ -22,14 +22,59 @@ const config: TraceRootConfigFile = {
   enable_span_cloud_export: true,
   enable_log_cloud_export: true,
 
+  // Where cloud-exported logs go: 'cloudwatch' (default), 'otlp' or 'none'
+  // log_exporter: 'otlp',
+  // otlp_logs_endpoint: 'http://localhost:4318/v1/logs',
+
+  // Write logs to a rotating local file (JSON lines or the semicolon CloudWatch format)
+  // log_file_path: './logs/ts-example.log',
+  // log_file_format: 'json',
+  // log_file_max_size: 10 * 1024 * 1024,
+  // log_file_rotation: 'daily',
+  // log_file_max_files: 5,
+
   // Log level
   log_level: 'debug',
 
   // Tracer verbose logging
   tracer_verbose: false,
 
+  // Throw on unknown options or invalid values instead of warning
+  // strict_config: true,
+
+  // Apply edits to this file (log_level, export flags, sampling, redaction) without restarting
+  // watch: true,
+
+  // Instrumentations set up after initialization and torn down by shutdownTracer()
+  // integrations: [{ name: 'my-integration', setup: (config, { getLogger }) => {} }],
+
+  // Custom setup run after initialization; await ready() for async hooks
+  // init: async config => {},
+
   // Local mode that whether to store all data locally
   local_mode: false,
+
+  // Reuse credentials across restarts (CLI jobs, serverless functions); stored encrypted
+  // credential_cache: true,
+  // credential_cache_dir: '/tmp/traceroot-cache', // default: ~/.cache/traceroot
+
+  // Corporate proxy and private CA for all outbound SDK traffic (HTTPS_PROXY / NO_PROXY also apply)
+  // proxy_url: 'http://proxy.example.com:3128',
+  // ca_bundle_path: '/etc/ssl/certs/corporate-ca.pem',
+
+  // Record finished spans to local files for offline debugging (read with readLocalTraces)
+  // span_file_dir: './traceroot-traces',
+  // span_file_format: 'jsonl',
+
+  // PII redaction for span attributes and log records
+  // redaction: {
+  //   rules: [
+  //     { key: '*password*' },
+  //     { key: 'token', mode: 'hash' },
+  //     { pattern: 'email' },
+  //     { pattern: 'credit_card', mode: 'drop' },
+  //   ],
+  // },
 };
 
 export default config;